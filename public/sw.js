@@ -0,0 +1,105 @@
+// Keeps the timesheet usable offline. Pages are fetched from the network
+// first and the last copy is served when there's no connection. Build assets
+// never change under the same URL, so they're served from the cache first.
+// API requests always go to the network; the page syncs once it's back.
+// The page loads its first build assets before the worker is installed, so
+// it posts their URLs once the worker is active and they're cached then.
+
+const CACHE_NAME = "timesheet-v1";
+const OFFLINE_PAGES = ["/timesheet"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(OFFLINE_PAGES))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name !== CACHE_NAME)
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+const isBuildAsset = (url) =>
+  url.origin === self.location.origin &&
+  url.pathname.startsWith("/_next/static/");
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-assets" || !Array.isArray(event.data.urls)) {
+    return;
+  }
+  const urls = event.data.urls.filter((url) => {
+    try {
+      return isBuildAsset(new URL(url));
+    } catch {
+      return false;
+    }
+  });
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      Promise.all(
+        urls.map((url) =>
+          cache
+            .match(url)
+            .then((cached) => cached ?? cache.add(url))
+            // An asset from an older build may be gone; the rest still count
+            .catch(() => undefined),
+        ),
+      ),
+    ),
+  );
+});
+
+const cacheResponse = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    void caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (
+    request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith("/api/")
+  ) {
+    return;
+  }
+
+  if (isBuildAsset(url)) {
+    event.respondWith(
+      caches
+        .match(request)
+        .then(
+          (cached) =>
+            cached ?? fetch(request).then((res) => cacheResponse(request, res)),
+        ),
+    );
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => cacheResponse(request, response))
+      .catch(() =>
+        caches
+          .match(request, { ignoreSearch: request.mode === "navigate" })
+          .then((cached) => cached ?? Response.error()),
+      ),
+  );
+});
@@ -0,0 +1,66 @@
+// Hands the timesheets synced before accounts existed to one account:
+//
+//   npm run db:claim-unowned -- someone@example.com
+//
+// Keys the account already has are left alone on both sides and listed, so
+// nothing it synced since is overwritten. Run it with the app stopped.
+import Database from "better-sqlite3";
+
+const email = process.argv[2];
+if (!email) {
+  console.error("Usage: npm run db:claim-unowned -- <email>");
+  process.exit(1);
+}
+
+const db = new Database(process.env.TIMESHEET_DB_PATH ?? "./db.sqlite", {
+  fileMustExist: true,
+});
+db.pragma("foreign_keys = ON");
+
+const hasUnownedRecords = db
+  .prepare(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'unowned_records'",
+  )
+  .get();
+if (!hasUnownedRecords) {
+  console.log("There are no unowned records.");
+  process.exit(0);
+}
+
+const user = /** @type {{ id: string } | undefined} */ (
+  db.prepare("SELECT id FROM users WHERE email = ?").get(email)
+);
+if (!user) {
+  console.error(`No account uses ${email}.`);
+  process.exit(1);
+}
+
+const skipped = db.transaction(() => {
+  const conflicts = /** @type {{ key: string }[]} */ (
+    db
+      .prepare(
+        `SELECT key FROM unowned_records
+         WHERE key IN (SELECT key FROM timesheet_records WHERE user_id = ?)`,
+      )
+      .all(user.id)
+  ).map(({ key }) => key);
+  // SQLite needs the WHERE to tell the upsert clause from a join
+  db.prepare(
+    `INSERT INTO timesheet_records (user_id, key, value, revision, updated_at)
+     SELECT ?, key, value, revision, updated_at FROM unowned_records
+     WHERE true
+     ON CONFLICT (user_id, key) DO NOTHING`,
+  ).run(user.id);
+  const placeholders = conflicts.map(() => "?").join(", ");
+  db.prepare(
+    `DELETE FROM unowned_records WHERE key NOT IN (${placeholders})`,
+  ).run(...conflicts);
+  return conflicts;
+})();
+
+console.log(`Unowned records now belong to ${email}.`);
+if (skipped.length > 0) {
+  console.log(
+    `Kept in unowned_records because ${email} already has them:\n  ${skipped.join("\n  ")}`,
+  );
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import {
+  accountsDisabledResponse,
+  accountsEnabled,
+  limitAuthAttempts,
+  readCredentials,
+  setSessionCookie,
+  verifyPassword,
+  verifyUnknownUser,
+} from "@/server/auth";
+import { findUserByEmail } from "@/server/timesheet-db";
+
+export async function POST(request: Request) {
+  if (!accountsEnabled()) {
+    return accountsDisabledResponse();
+  }
+  const body = await readCredentials(request);
+  if ("error" in body) {
+    return NextResponse.json({ error: body.error }, { status: 400 });
+  }
+
+  const { email, password } = body.credentials;
+  const limited = limitAuthAttempts(request, "sign-in", email);
+  if (limited) {
+    return limited;
+  }
+  const user = findUserByEmail(email);
+  // The same answer, in the same time, for an unknown email and a wrong
+  // password, so the form can't be used to find out who has an account
+  const verified = user
+    ? await verifyPassword(password, user.password_hash)
+    : await verifyUnknownUser(password);
+  if (!user || !verified) {
+    return NextResponse.json(
+      { error: "Incorrect email or password" },
+      { status: 401 },
+    );
+  }
+
+  const account = { id: user.id, email: user.email };
+  const response = NextResponse.json({ account });
+  setSessionCookie(response, account);
+  return response;
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import {
+  accountsDisabledResponse,
+  accountsEnabled,
+  hashPassword,
+  limitAuthAttempts,
+  readCredentials,
+  setSessionCookie,
+} from "@/server/auth";
+import { createUser } from "@/server/timesheet-db";
+
+// Create an account and sign in to it
+export async function POST(request: Request) {
+  if (!accountsEnabled()) {
+    return accountsDisabledResponse();
+  }
+  const body = await readCredentials(request);
+  if ("error" in body) {
+    return NextResponse.json({ error: body.error }, { status: 400 });
+  }
+
+  const { email, password } = body.credentials;
+  const limited = limitAuthAttempts(request, "sign-up", email);
+  if (limited) {
+    return limited;
+  }
+  const account = createUser(email, await hashPassword(password));
+  // Saying the email is taken would tell anyone who has an account
+  if (!account) {
+    return NextResponse.json(
+      { error: "Couldn't sign up with this email and password" },
+      { status: 400 },
+    );
+  }
+
+  const response = NextResponse.json({ account }, { status: 201 });
+  setSessionCookie(response, account);
+  return response;
+}
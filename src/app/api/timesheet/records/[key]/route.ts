@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { formatIssues, saveRecordRequestSchema } from "@/lib/timesheet/schema";
+import { isSyncedKey } from "@/lib/timesheet/sync";
+import { getCurrentAccount } from "@/server/auth";
+import { saveRecord } from "@/server/timesheet-db";
+
+// Save one key from `baseRevision`. Answers 409 with the stored record when
+// another device saved it first, so the client can merge and try again.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const account = await getCurrentAccount();
+  if (!account) {
+    return NextResponse.json({ error: "Sign in to sync" }, { status: 401 });
+  }
+
+  const { key } = await params;
+  if (!isSyncedKey(key)) {
+    return NextResponse.json(
+      { error: `${key} is not a timesheet key` },
+      { status: 400 },
+    );
+  }
+
+  const body = saveRecordRequestSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!body.success) {
+    return NextResponse.json(
+      { error: formatIssues(body.error).join("\n") },
+      { status: 400 },
+    );
+  }
+
+  const result = saveRecord(
+    account.id,
+    key,
+    body.data.value,
+    body.data.baseRevision,
+  );
+  return NextResponse.json(
+    { record: result.record },
+    { status: result.saved ? 200 : 409 },
+  );
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getCurrentAccount } from "@/server/auth";
+import { listRecords } from "@/server/timesheet-db";
+
+// Records change with every save, so never serve a prerendered copy
+export const dynamic = "force-dynamic";
+
+// Every key the signed-in user has synced, including removed ones, for
+// clients to merge with
+export async function GET() {
+  const account = await getCurrentAccount();
+  if (!account) {
+    return NextResponse.json({ error: "Sign in to sync" }, { status: 401 });
+  }
+  return NextResponse.json(listRecords(account.id));
+}
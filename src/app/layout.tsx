@@ -1,7 +1,8 @@
 import Header from "@/components/layout/header";
+import ServiceWorker from "@/components/layout/service-worker";
 import "@/styles/globals.css";
 
-import { type Metadata } from "next";
+import { type Metadata, type Viewport } from "next";
 import { Geist } from "next/font/google";
 
 export const metadata: Metadata = {
@@ -10,6 +11,10 @@ export const metadata: Metadata = {
   icons: [{ rel: "icon", url: "/favicon.ico" }],
 };
 
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
+};
+
 const geist = Geist({
   subsets: ["latin"],
   variable: "--font-geist-sans",
@@ -23,6 +28,7 @@ export default function RootLayout({
       <body>
         <Header />
         {children}
+        <ServiceWorker />
       </body>
     </html>
   );
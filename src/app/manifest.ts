@@ -0,0 +1,26 @@
+import type { MetadataRoute } from "next";
+
+// Lets the timesheet be installed to a phone's home screen and opened offline
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Time Sheet Calculator",
+    short_name: "Timesheet",
+    description:
+      "Track hours worked, breaks and overtime, and estimate your pay, even without a connection.",
+    start_url: "/timesheet",
+    scope: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#2563eb",
+    icons: [
+      { src: "/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icon-512.png", sizes: "512x512", type: "image/png" },
+      {
+        src: "/icon-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ],
+  };
+}
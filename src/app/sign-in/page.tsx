@@ -0,0 +1,19 @@
+import { notFound } from "next/navigation";
+import CredentialsForm from "@/components/auth/credentials-form";
+import { accountsEnabled } from "@/server/auth";
+
+export const metadata = {
+  title: "Sign in",
+  description: "Sign in to keep your timesheet in sync across devices.",
+};
+
+export default function SignInPage() {
+  if (!accountsEnabled()) {
+    notFound();
+  }
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-start bg-white p-8 text-gray-800">
+      <CredentialsForm mode="sign-in" />
+    </main>
+  );
+}
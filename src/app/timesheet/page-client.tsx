@@ -1,258 +1,595 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import {
   InfoIcon,
-  Download,
-  Upload,
   TrashIcon,
-  DollarSign,
+  MoonIcon,
+  ChartColumn,
+  Receipt,
+  Printer,
+  Undo2,
+  Redo2,
+  CalendarRange,
+  Copy,
+  Search,
+  Share2,
+  Palmtree,
 } from "lucide-react";
+import {
+  NO_CARRY_OVER,
+  isOvernightEntry,
+  roundEntry,
+  recalculateWeek,
+  type CarryOver,
+  type HoursSettings,
+} from "@/lib/timesheet/hours";
+import {
+  formatCurrency,
+  formatDate,
+  formatFileDate,
+  formatHours,
+  formatTime,
+  formatWeekday,
+  getCurrencySymbol,
+} from "@/lib/timesheet/format";
+import { findJob } from "@/lib/timesheet/jobs";
+import { calculatePeriodEarnings } from "@/lib/timesheet/earnings";
+import {
+  buildTimesheetCsv,
+  type CsvImportRow,
+  type CsvPeriod,
+} from "@/lib/timesheet/csv";
+import {
+  assignEntryIds,
+  buildTimesheetIcs,
+  type IcsEvent,
+  type IcsImportRow,
+} from "@/lib/timesheet/ical";
+import { downloadFile } from "@/lib/timesheet/download";
+import {
+  EMPTY_HISTORY,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type PeriodHistory,
+} from "@/lib/timesheet/history";
+import {
+  applyRestore,
+  createBackup,
+  serializeBackup,
+  type RestoreMode,
+  type TimesheetBackup,
+} from "@/lib/timesheet/backup";
+import type {
+  DayBreaks,
+  DayEntry,
+  DayType,
+  Job,
+  OvernightMode,
+  TimeEntry,
+} from "@/lib/timesheet/types";
+import OvertimeSettings from "@/components/timesheet/overtime-settings";
+import EarningsBreakdown from "@/components/timesheet/earnings-breakdown";
+import AutoBreakSettings from "@/components/timesheet/auto-break-settings";
+import RoundingSettings from "@/components/timesheet/rounding-settings";
+import DayBreaksEditor from "@/components/timesheet/day-breaks-editor";
+import JobCatalog from "@/components/timesheet/job-catalog";
+import JobTotals from "@/components/timesheet/job-totals";
+import CsvImportPanel from "@/components/timesheet/csv-import-panel";
+import ExportRange from "@/components/timesheet/export-range";
+import IcsImportPanel from "@/components/timesheet/ics-import-panel";
+import BackupRestorePanel from "@/components/timesheet/backup-restore-panel";
+import PayPeriodSettings from "@/components/timesheet/pay-period-settings";
+import TimesheetReports from "@/components/timesheet/timesheet-reports";
+import ClockWidget from "@/components/timesheet/clock-widget";
+import DeductionProfileSettings from "@/components/timesheet/deduction-profile-settings";
+import NetPayBreakdown from "@/components/timesheet/net-pay-breakdown";
+import LocaleSettings from "@/components/timesheet/locale-settings";
+import DocumentPanel from "@/components/timesheet/document-panel";
+import SyncControls from "@/components/timesheet/sync-controls";
+import ImportExportButtons from "@/components/timesheet/import-export-buttons";
+import ScheduleTemplates from "@/components/timesheet/schedule-templates";
+import SharePanel from "@/components/timesheet/share-panel";
+import ValidationSummary from "@/components/timesheet/validation-summary";
+import LeaveSettings from "@/components/timesheet/leave-settings";
+import NoteEditor from "@/components/timesheet/note-editor";
+import {
+  PERIOD_EXPORT_VERSION,
+  serializeDays,
+  serializeStoredPeriod,
+  type PeriodExport,
+} from "@/lib/timesheet/schema";
+import {
+  TIMESHEET_PREFIX,
+  getLocalStorage,
+  getLocalStorageKey,
+  getPreviousPeriodCarryIn,
+  loadPrecedingWorkweekDays,
+  getTimesheetKeys,
+  loadAllStoredDays,
+  loadStoredDays,
+  loadStoredPeriod,
+  mergeStoredDays,
+  parseStoredPeriod,
+  removeLocalStorage,
+  repartitionStoredDays,
+  setLocalStorage,
+} from "@/lib/timesheet/storage";
+import {
+  DEFAULT_PAY_PERIOD_SETTINGS,
+  createPeriodDays,
+  getNextPeriodStart,
+  getPeriodEnd,
+  getPeriodRangeDisplay,
+  getPeriodStart,
+  getPeriodsPerYear,
+  type PayPeriodSettings as PayPeriodSettingsValue,
+} from "@/lib/timesheet/period";
+import {
+  addEntryToDate,
+  createClockEntry,
+  isEmptyEntry,
+  toTimeValue,
+} from "@/lib/timesheet/clock";
+import { estimateNetPay } from "@/lib/timesheet/deductions";
+import {
+  applyTemplateDays,
+  createTemplateDays,
+  findTemplate,
+  type TemplateDay,
+} from "@/lib/timesheet/templates";
+import {
+  describePeriodIssues,
+  getFieldIssues,
+  validateDays,
+  type EntryField,
+  type EntryIssue,
+} from "@/lib/timesheet/validation";
+import { isRoundingEnabled } from "@/lib/timesheet/rounding";
+import type { Notes } from "@/lib/timesheet/notes";
+import {
+  DAY_TYPE_LABELS,
+  calculatePtoLedger,
+  getLeaveType,
+  markHolidays,
+  sumLeaveHours,
+} from "@/lib/timesheet/leave";
+import type { Account } from "@/lib/auth";
+import { createShareUrl } from "@/lib/timesheet/share";
+import { useTimesheetSettings } from "@/hooks/use-timesheet-settings";
+import { useServerSync } from "@/hooks/use-server-sync";
+import { addDays, parseDateKey, toDateKey } from "@/lib/timesheet/week";
 
-interface TimeEntry {
-  startTime: string;
-  endTime: string;
-  hours?: number; // Optional direct hours input
+interface TimeSheetClientProps {
+  account: Account | null;
+  accountsEnabled: boolean; // Whether the server has accounts and sync
+  initialDate?: string; // YYYY-MM-DD of a day to show instead of today
 }
 
-interface DayEntry {
-  date: Date;
-  entries: TimeEntry[];
-  totalHours: number;
-  useDirectHours: boolean; // New flag to toggle between time and direct hours input
-}
+export default function TimeSheetClient({
+  account,
+  accountsEnabled,
+  initialDate,
+}: TimeSheetClientProps) {
+  const [periodStart, setPeriodStart] = useState<Date>(() =>
+    getPeriodStart(
+      (initialDate ? parseDateKey(initialDate) : null) ?? new Date(),
+      DEFAULT_PAY_PERIOD_SETTINGS,
+    ),
+  );
+  // Stored days are only read once the saved pay period is known, since it
+  // decides which days are stored together
+  const {
+    hasLoadedSettings,
+    loadSavedSettings,
+    loadInitialSettings,
+    resetSettings,
+    payPeriod,
+    setPayPeriod,
+    hourlyWage,
+    setHourlyWage,
+    jobs,
+    setJobs,
+    overnightMode,
+    setOvernightMode,
+    autoBreakRule,
+    setAutoBreakRule,
+    roundingPolicy,
+    setRoundingPolicy,
+    overtimeSettings,
+    setOvertimeSettings,
+    activeClock,
+    saveActiveClock,
+    deductionProfile,
+    setDeductionProfile,
+    documentDetails,
+    setDocumentDetails,
+    templateSettings,
+    setTemplateSettings,
+    leaveSettings,
+    setLeaveSettings,
+    localeSettings,
+    setLocaleSettings,
+  } = useTimesheetSettings(setPeriodStart);
+  const { syncStatus, runSync, handleSyncToggle } = useServerSync(
+    account,
+    loadInitialSettings,
+    loadSavedSettings,
+  );
+  const [periodData, setPeriodData] = useState<DayEntry[]>([]);
+  // Undo history for each pay period, by storage key, for this page load
+  const [histories, setHistories] = useState<Record<string, PeriodHistory>>({});
+  const [periodCarryIn, setPeriodCarryIn] = useState<CarryOver>(NO_CARRY_OVER);
+  const [csvImport, setCsvImport] = useState<{
+    fileName: string;
+    rows: string[][];
+  } | null>(null);
+  const [icsImport, setIcsImport] = useState<{
+    fileName: string;
+    events: IcsEvent[];
+  } | null>(null);
+  const [backupRestore, setBackupRestore] = useState<{
+    fileName: string;
+    backup: TimesheetBackup;
+  } | null>(null);
+  const [showReports, setShowReports] = useState(false);
+  const [showDeductions, setShowDeductions] = useState(false);
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showLeave, setShowLeave] = useState(false);
 
-// Helper to get Monday of a given date
-const getMonday = (d: Date): Date => {
-  const date = new Date(d);
-  const dayOfWeek = date.getDay(); // Sunday - 0, Monday - 1, ..., Saturday - 6
-  // Adjust to get Monday. If Sunday (0), subtract 6 days. Otherwise, subtract (dayOfWeek - 1) days.
-  const diff = date.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1);
-  date.setDate(diff);
-  date.setHours(0, 0, 0, 0); // Normalize to the start of the day
-  return date;
-};
-
-// Helper to format week range for display
-const getWeekRangeDisplay = (monday: Date): string => {
-  const startDate = new Date(monday);
-  const endDate = new Date(monday);
-  endDate.setDate(monday.getDate() + 6); // Sunday of that week
-
-  const options: Intl.DateTimeFormatOptions = {
-    month: "short",
-    day: "numeric",
-  }; // Removed year for brevity
-  return `${startDate.toLocaleDateString("en-US", options)} - ${endDate.toLocaleDateString("en-US", options)}, ${startDate.getFullYear()}`;
-};
-
-// Helper for localStorage key
-const getLocalStorageKey = (monday: Date): string => {
-  return `timesheet-data-${monday.toISOString().split("T")[0]}`;
-};
-
-// Add wage to localStorage key prefix for consistency
-const TIMESHEET_PREFIX = "timesheet-data-";
-const WAGE_KEY = "timesheet-hourly-wage";
-
-// Helper to safely access localStorage
-const getLocalStorage = (key: string): string | null => {
-  if (typeof window !== "undefined") {
-    return localStorage.getItem(key);
-  }
-  return null;
-};
-
-const setLocalStorage = (key: string, value: string): void => {
-  if (typeof window !== "undefined") {
-    localStorage.setItem(key, value);
-  }
-};
-
-const removeLocalStorage = (key: string): void => {
-  if (typeof window !== "undefined") {
-    localStorage.removeItem(key);
-  }
-};
-
-export default function TimeSheetClient() {
-  const [selectedMonday, setSelectedMonday] = useState<Date>(() =>
-    getMonday(new Date()),
+  const hoursSettings = useMemo<HoursSettings>(
+    () => ({ overnightMode, autoBreakRule, rounding: roundingPolicy }),
+    [overnightMode, autoBreakRule, roundingPolicy],
   );
-  const [weekData, setWeekData] = useState<DayEntry[]>([]);
-  const [hourlyWage, setHourlyWage] = useState<number>(0);
-  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Initialize hourly wage from localStorage on mount
+  const periodEnd = getPeriodEnd(periodStart, payPeriod);
+
+  // Periods with nothing stored start from the default template, if any,
+  // with holidays marked
+  const initializeNewPeriod = (start: Date, carryIn: CarryOver) => {
+    const defaultTemplate = findTemplate(
+      templateSettings,
+      templateSettings.defaultTemplateId,
+    );
+    setPeriodData(
+      recalculateWeek(
+        markHolidays(
+          applyTemplateDays(
+            createPeriodDays(start, payPeriod),
+            defaultTemplate?.days ?? [],
+            "merge",
+          ),
+          leaveSettings,
+        ),
+        hoursSettings,
+        carryIn,
+      ),
+    );
+  };
+
+  // What the load and recalculate effects below read without re-running
+  // when it changes
+  const periodSettingsRef = useRef({
+    periodStart,
+    payPeriod,
+    hoursSettings,
+    initializeNewPeriod,
+  });
   useEffect(() => {
-    const savedWage = getLocalStorage(WAGE_KEY);
-    if (savedWage) {
-      setHourlyWage(parseFloat(savedWage));
-    }
-  }, []);
+    periodSettingsRef.current = {
+      periodStart,
+      payPeriod,
+      hoursSettings,
+      initializeNewPeriod,
+    };
+  });
 
-  // Effect to load data from localStorage or initialize for the selected week
+  // Effect to load data from storage or initialize for the selected period
   useEffect(() => {
-    const key = getLocalStorageKey(selectedMonday);
+    if (!hasLoadedSettings) return;
+    const { payPeriod, hoursSettings, initializeNewPeriod } =
+      periodSettingsRef.current;
+    const key = getLocalStorageKey(periodStart);
     const storedData = getLocalStorage(key);
+    const carryIn = getPreviousPeriodCarryIn(
+      periodStart,
+      payPeriod,
+      hoursSettings,
+    );
+    setPeriodCarryIn(carryIn);
 
     if (storedData) {
       try {
-        const parsedData: DayEntry[] = JSON.parse(storedData).map(
-          (day: any) => ({
-            ...day,
-            date: new Date(day.date), // Deserialize date string back to Date object
-            entries: day.entries ?? [{ startTime: "", endTime: "" }], // Ensure entries always exist
-            totalHours: parseFloat(day.totalHours) ?? 0,
-            useDirectHours: day.useDirectHours ?? false,
-          }),
+        const parsedData = createPeriodDays(
+          periodStart,
+          payPeriod,
+          parseStoredPeriod(storedData),
         );
-        setWeekData(parsedData);
+        // Stored totals may predate edits to the previous period, so recalculate
+        setPeriodData(recalculateWeek(parsedData, hoursSettings, carryIn));
       } catch (error) {
-        console.error("Error parsing data from localStorage:", error);
-        // Fallback to new week data if parsing fails
-        initializeNewWeek(selectedMonday);
+        console.error("Error parsing stored data:", error);
+        // Fallback to new period data if parsing fails
+        initializeNewPeriod(periodStart, carryIn);
       }
     } else {
-      initializeNewWeek(selectedMonday);
+      initializeNewPeriod(periodStart, carryIn);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedMonday]);
-
-  const initializeNewWeek = (monday: Date) => {
-    const newWeekData = Array.from({ length: 7 }, (_, i) => {
-      const date = new Date(monday);
-      date.setDate(monday.getDate() + i);
-      return {
-        date,
-        entries: [{ startTime: "", endTime: "", hours: 0 }],
-        totalHours: 0,
-        useDirectHours: false,
-      };
-    });
-    setWeekData(newWeekData);
-  };
+  }, [periodStart, hasLoadedSettings]);
 
-  // Effect to save data to localStorage whenever weekData changes
+  // Recalculate totals when the overnight or break rules change
   useEffect(() => {
-    if (weekData && weekData.length > 0) {
-      const key = getLocalStorageKey(selectedMonday);
-      setLocalStorage(key, JSON.stringify(weekData));
-    }
-  }, [weekData, selectedMonday]);
+    const { periodStart, payPeriod } = periodSettingsRef.current;
+    const carryIn = getPreviousPeriodCarryIn(
+      periodStart,
+      payPeriod,
+      hoursSettings,
+    );
+    setPeriodCarryIn(carryIn);
+    setPeriodData((prevPeriodData) =>
+      recalculateWeek(prevPeriodData, hoursSettings, carryIn),
+    );
+  }, [hoursSettings]);
 
-  // Save wage to localStorage when it changes
+  // Effect to save data to storage whenever periodData changes. Right
+  // after switching periods the previous period's days are still in state
+  // for one render, so only save days that match the selected period.
   useEffect(() => {
-    setLocalStorage(WAGE_KEY, hourlyWage.toString());
-  }, [hourlyWage]);
-
-  const calculateDayHours = (
-    entries: TimeEntry[],
-    useDirectHours: boolean,
-  ): number => {
-    if (useDirectHours) {
-      return entries.reduce((total, entry) => {
-        const hours = entry.hours ?? 0;
-        return total + (isNaN(hours) ? 0 : hours);
-      }, 0);
+    const firstDay = periodData[0];
+    const lastDay = periodData.at(-1);
+    if (
+      firstDay &&
+      lastDay &&
+      toDateKey(firstDay.date) === toDateKey(periodStart) &&
+      toDateKey(lastDay.date) ===
+        toDateKey(getPeriodEnd(periodStart, payPeriod))
+    ) {
+      const key = getLocalStorageKey(periodStart);
+      setLocalStorage(key, serializeStoredPeriod(periodData));
     }
+  }, [periodData, periodStart, payPeriod]);
 
-    return entries.reduce((total, entry) => {
-      if (!entry.startTime || !entry.endTime) {
-        return total;
-      }
+  // Stored days are regrouped under the new periods right away, then the
+  // period containing the current start date is shown
+  const handlePayPeriodChange = (nextPayPeriod: PayPeriodSettingsValue) => {
+    repartitionStoredDays(nextPayPeriod);
+    // Undo history is kept by period, so it can't follow the days
+    setHistories({});
+    setPayPeriod(nextPayPeriod);
+    setPeriodStart(getPeriodStart(periodStart, nextPayPeriod));
+  };
 
-      const startParts = entry.startTime.split(":");
-      const endParts = entry.endTime.split(":");
+  const periodKey = getLocalStorageKey(periodStart);
+  const periodHistory = histories[periodKey] ?? EMPTY_HISTORY;
 
-      if (startParts.length !== 2 || endParts.length !== 2) {
-        return total; // Malformed time string
-      }
+  const recordHistory = (
+    key: string,
+    previous: DayEntry[],
+    mergeKey?: string,
+  ) => {
+    const now = Date.now();
+    setHistories((prev) => ({
+      ...prev,
+      [key]: recordEdit(prev[key] ?? EMPTY_HISTORY, previous, mergeKey, now),
+    }));
+  };
 
-      // After length check, elements are guaranteed to be strings
-      const startHour = parseInt(startParts[0]!, 10);
-      const startMin = parseInt(startParts[1]!, 10);
-      const endHour = parseInt(endParts[0]!, 10);
-      const endMin = parseInt(endParts[1]!, 10);
+  // Apply an edit to the selected period so it can be undone
+  const editPeriodData = (
+    update: (days: DayEntry[]) => DayEntry[],
+    mergeKey?: string,
+  ) => {
+    recordHistory(periodKey, periodData, mergeKey);
+    setPeriodData(update(periodData));
+  };
 
+  // Remember the periods holding these dates before they're written to
+  // storage directly, e.g. by an import
+  const recordStoredPeriods = (dates: Date[]) => {
+    const starts = new Map(
+      dates.map((date) => {
+        const start = getPeriodStart(date, payPeriod);
+        return [getLocalStorageKey(start), start] as const;
+      }),
+    );
+    starts.forEach((start, key) =>
+      recordHistory(
+        key,
+        key === periodKey
+          ? periodData
+          : createPeriodDays(start, payPeriod, loadStoredPeriod(start) ?? []),
+      ),
+    );
+  };
+
+  // Restored days keep their entries, but totals follow the current settings
+  const restorePeriodData = (days: DayEntry[]) => {
+    setPeriodData(
+      recalculateWeek(
+        createPeriodDays(periodStart, payPeriod, days),
+        hoursSettings,
+        periodCarryIn,
+      ),
+    );
+  };
+
+  const handleUndo = () => {
+    const result = undoEdit(periodHistory, periodData);
+    if (!result) return;
+    setHistories((prev) => ({ ...prev, [periodKey]: result.history }));
+    restorePeriodData(result.days);
+  };
+
+  const handleRedo = () => {
+    const result = redoEdit(periodHistory, periodData);
+    if (!result) return;
+    setHistories((prev) => ({ ...prev, [periodKey]: result.history }));
+    restorePeriodData(result.days);
+  };
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS). Form
+  // fields keep their own undo. Registered on every render so the handlers
+  // see the current period.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement;
       if (
-        isNaN(startHour) ||
-        isNaN(startMin) ||
-        isNaN(endHour) ||
-        isNaN(endMin)
+        target.isContentEditable ||
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLSelectElement
       ) {
-        return total; // Parts are not numbers
+        return;
       }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
 
-      const startMinutes = startHour * 60 + startMin;
-      const endMinutes = endHour * 60 + endMin;
+  const handleClockIn = (jobId?: string) => {
+    const now = new Date();
+    saveActiveClock({ startedAt: now.toISOString(), jobId });
+    // Show the period with today's card
+    if (now < periodStart || toDateKey(now) > toDateKey(periodEnd)) {
+      setPeriodStart(getPeriodStart(now, payPeriod));
+    }
+  };
 
-      if (endMinutes < startMinutes) {
-        return total;
-      }
+  // The finished shift is added to the day it started on, even when that day
+  // belongs to another pay period than the one shown
+  const handleClockOut = (end: Date) => {
+    if (!activeClock) return;
+    const startedAt = new Date(activeClock.startedAt);
+    const entry = createClockEntry(activeClock, end);
+    const clockPeriodStart = getPeriodStart(startedAt, payPeriod);
 
-      return total + (endMinutes - startMinutes) / 60;
-    }, 0);
+    if (clockPeriodStart.getTime() === periodStart.getTime()) {
+      editPeriodData((prevPeriodData) =>
+        recalculateWeek(
+          addEntryToDate(prevPeriodData, startedAt, entry),
+          hoursSettings,
+          periodCarryIn,
+        ),
+      );
+    } else {
+      const clockPeriodKey = getLocalStorageKey(clockPeriodStart);
+      const storedPeriod = createPeriodDays(
+        clockPeriodStart,
+        payPeriod,
+        loadStoredPeriod(clockPeriodStart) ?? [],
+      );
+      recordHistory(clockPeriodKey, storedPeriod);
+      const clockPeriod = recalculateWeek(
+        addEntryToDate(storedPeriod, startedAt, entry),
+        hoursSettings,
+        getPreviousPeriodCarryIn(clockPeriodStart, payPeriod, hoursSettings),
+      );
+      setLocalStorage(clockPeriodKey, serializeStoredPeriod(clockPeriod));
+      // A new Date object makes the load effect pick up any hours carried
+      // over from the other period
+      setPeriodStart((prevPeriodStart) => new Date(prevPeriodStart));
+    }
+    saveActiveClock(null);
   };
 
   const handleTimeChange = (
     dayIndex: number,
     entryIndex: number,
-    field: "startTime" | "endTime" | "hours",
+    field: "startTime" | "endTime" | "hours" | "jobId",
     value: string,
   ) => {
-    setWeekData((prevWeekData) =>
-      prevWeekData.map((day, dIndex) => {
-        if (dIndex === dayIndex) {
-          const updatedEntries = day.entries.map((entry, eIndex) => {
-            if (eIndex === entryIndex) {
-              if (field === "hours") {
-                return {
-                  ...entry,
-                  hours: parseFloat(value) || 0,
-                };
-              }
+    editPeriodData(
+      (prevPeriodData) =>
+        recalculateWeek(
+          prevPeriodData.map((day, dIndex) => {
+            if (dIndex === dayIndex) {
+              const updatedEntries = day.entries.map((entry, eIndex) => {
+                if (eIndex === entryIndex) {
+                  if (field === "hours") {
+                    return {
+                      ...entry,
+                      hours: parseFloat(value) || 0,
+                    };
+                  }
+                  if (field === "jobId") {
+                    return {
+                      ...entry,
+                      jobId: value || undefined,
+                    };
+                  }
+                  return {
+                    ...entry,
+                    [field]: value,
+                  };
+                }
+                return entry;
+              });
               return {
-                ...entry,
-                [field]: value,
+                ...day,
+                entries: updatedEntries,
               };
             }
-            return entry;
-          });
-          return {
-            ...day,
-            entries: updatedEntries,
-            totalHours: calculateDayHours(updatedEntries, day.useDirectHours),
-          };
-        }
-        return day;
-      }),
+            return day;
+          }),
+          hoursSettings,
+          periodCarryIn,
+        ),
+      // Typing into one field undoes as a single edit
+      `${dayIndex}-${entryIndex}-${field}`,
     );
   };
 
   const toggleInputMode = (dayIndex: number) => {
-    setWeekData((prevWeekData) =>
-      prevWeekData.map((day, dIndex) => {
-        if (dIndex === dayIndex) {
-          const newUseDirectHours = !day.useDirectHours;
-          return {
-            ...day,
-            useDirectHours: newUseDirectHours,
-            // Recalculate total hours based on new mode but keep all entries
-            totalHours: calculateDayHours(day.entries, newUseDirectHours),
-          };
-        }
-        return day;
-      }),
+    editPeriodData((prevPeriodData) =>
+      recalculateWeek(
+        prevPeriodData.map((day, dIndex) => {
+          if (dIndex === dayIndex) {
+            const newUseDirectHours = !day.useDirectHours;
+            // Totals are recalculated for the new mode but all entries are kept
+            return {
+              ...day,
+              useDirectHours: newUseDirectHours,
+            };
+          }
+          return day;
+        }),
+        hoursSettings,
+        periodCarryIn,
+      ),
+    );
+  };
+
+  const updateDayBreaks = (dayIndex: number, breaks: DayBreaks) => {
+    editPeriodData((prevPeriodData) =>
+      recalculateWeek(
+        prevPeriodData.map((day, dIndex) =>
+          dIndex === dayIndex ? { ...day, breaks } : day,
+        ),
+        hoursSettings,
+        periodCarryIn,
+      ),
     );
   };
 
   const addTimeEntry = (dayIndex: number) => {
-    setWeekData((prevWeekData) =>
-      prevWeekData.map((day, dIndex) => {
+    editPeriodData((prevPeriodData) =>
+      prevPeriodData.map((day, dIndex) => {
         if (dIndex === dayIndex) {
           return {
             ...day,
@@ -265,20 +602,114 @@ export default function TimeSheetClient() {
   };
 
   const deleteTimeEntry = (dayIndex: number, entryIndex: number) => {
-    setWeekData((prevWeekData) =>
-      prevWeekData.map((day, dIndex) => {
-        if (dIndex === dayIndex) {
-          const updatedEntries = day.entries.filter(
-            (_, eIndex) => eIndex !== entryIndex,
-          );
+    editPeriodData((prevPeriodData) =>
+      recalculateWeek(
+        prevPeriodData.map((day, dIndex) => {
+          if (dIndex === dayIndex) {
+            const updatedEntries = day.entries.filter(
+              (_, eIndex) => eIndex !== entryIndex,
+            );
+            return {
+              ...day,
+              entries: updatedEntries,
+            };
+          }
+          return day;
+        }),
+        hoursSettings,
+        periodCarryIn,
+      ),
+    );
+  };
+
+  const applySchedule = (templateDays: TemplateDay[]) => {
+    editPeriodData((prevPeriodData) =>
+      recalculateWeek(
+        applyTemplateDays(
+          prevPeriodData,
+          templateDays,
+          templateSettings.applyMode,
+        ),
+        hoursSettings,
+        periodCarryIn,
+      ),
+    );
+  };
+
+  // Repeat the shifts of the seven days before the period on the same
+  // weekdays of this one
+  const copyLastWeek = () => {
+    const lastWeekDays = createTemplateDays(
+      loadStoredDays(
+        addDays(periodStart, -7),
+        addDays(periodStart, -1),
+        payPeriod,
+      ),
+    );
+    if (lastWeekDays.length === 0) {
+      alert("Nothing was entered in the week before this period.");
+      return;
+    }
+    applySchedule(lastWeekDays);
+  };
+
+  // Leave days are paid their leave hours, filled in from the default when
+  // a day is first marked
+  const updateDayType = (dayIndex: number, dayType: DayType) => {
+    editPeriodData((prevPeriodData) =>
+      prevPeriodData.map((day, dIndex) => {
+        if (dIndex !== dayIndex) {
+          return day;
+        }
+        if (dayType === "worked") {
+          return { ...day, dayType: undefined, leaveHours: undefined };
+        }
+        return {
+          ...day,
+          dayType,
+          leaveHours: day.leaveHours ?? leaveSettings.defaultHours,
+        };
+      }),
+    );
+  };
+
+  const updateLeaveHours = (dayIndex: number, value: string) => {
+    const leaveHours = value === "" ? 0 : parseFloat(value);
+    if (isNaN(leaveHours) || leaveHours < 0 || leaveHours > 24) {
+      return;
+    }
+    editPeriodData(
+      (prevPeriodData) =>
+        prevPeriodData.map((day, dIndex) =>
+          dIndex === dayIndex ? { ...day, leaveHours } : day,
+        ),
+      `${dayIndex}-leave-hours`,
+    );
+  };
+
+  // A null entry index sets the day's own note and tags
+  const updateNotes = (
+    dayIndex: number,
+    entryIndex: number | null,
+    notes: Notes,
+  ) => {
+    editPeriodData(
+      (prevPeriodData) =>
+        prevPeriodData.map((day, dIndex) => {
+          if (dIndex !== dayIndex) {
+            return day;
+          }
+          if (entryIndex === null) {
+            return { ...day, ...notes };
+          }
           return {
             ...day,
-            entries: updatedEntries,
-            totalHours: calculateDayHours(updatedEntries, day.useDirectHours),
+            entries: day.entries.map((entry, eIndex) =>
+              eIndex === entryIndex ? { ...entry, ...notes } : entry,
+            ),
           };
-        }
-        return day;
-      }),
+        }),
+      `${dayIndex}-${entryIndex ?? "day"}-notes`,
     );
   };
 
@@ -308,103 +739,365 @@ export default function TimeSheetClient() {
 
     // Create date in local timezone to avoid UTC conversion issues from YYYY-MM-DD string
     const newSelectedDate = new Date(year, month - 1, day);
-    setSelectedMonday(getMonday(newSelectedDate));
+    setPeriodStart(getPeriodStart(newSelectedDate, payPeriod));
   };
 
-  const totalWeekHours = weekData.reduce(
+  const totalPeriodHours = periodData.reduce(
     (total, day) => total + day.totalHours,
     0,
   );
 
-  const importJSON = () => {
-    const confirmImport = window.confirm(
-      "Do you want to import a JSON file? It will override all your current data.",
-    );
-    if (!confirmImport) {
-      return;
-    }
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
+  const totalUnroundedHours = periodData.reduce(
+    (total, day) => total + (day.unroundedHours ?? day.totalHours),
+    0,
+  );
+
+  const totalPeriodBreakHours = periodData.reduce(
+    (total, day) => total + (day.breakHours ?? 0),
+    0,
+  );
+
+  // Days before the period that share its first workweek don't change while
+  // this period is shown
+  const precedingWorkweekDays = useMemo(
+    () => loadPrecedingWorkweekDays(periodStart, payPeriod),
+    [periodStart, payPeriod],
+  );
+
+  const earnings = calculatePeriodEarnings(
+    periodData,
+    overtimeSettings.rules,
+    jobs,
+    hourlyWage,
+    payPeriod.weekStartDay,
+    precedingWorkweekDays,
+    leaveSettings.rules,
+  );
+  const { dayJobTotals, periodJobTotals } = earnings;
+  const dayIssues = useMemo(() => validateDays(periodData), [periodData]);
+  const periodIssues = periodData.flatMap((day, dayIndex) => {
+    const issues = dayIssues[dayIndex] ?? [];
+    return issues.length > 0 ? [{ date: day.date, issues }] : [];
+  });
+  // Props that flag an input and explain what's wrong with it
+  // The entry's start and end after punch rounding, when it moves them
+  const describeRoundedPunches = (entry: TimeEntry): string | null => {
+    const rounded = roundEntry(entry, roundingPolicy);
+    if (
+      !entry.startTime ||
+      !entry.endTime ||
+      (rounded.startTime === entry.startTime &&
+        rounded.endTime === entry.endTime)
+    ) {
+      return null;
     }
+    return `Rounded to ${formatTime(rounded.startTime, localeSettings)} - ${formatTime(rounded.endTime, localeSettings)}`;
   };
+  const getInvalidProps = (
+    issues: EntryIssue[],
+    entryIndex: number,
+    field: EntryField,
+  ) => {
+    const fieldIssues = getFieldIssues(issues, entryIndex, field);
+    return fieldIssues.length > 0
+      ? {
+          "aria-invalid": true,
+          title: fieldIssues.map((issue) => issue.message).join("\n"),
+        }
+      : {};
+  };
+  const periodLabel = payPeriod.type === "weekly" ? "Weekly" : "Pay Period";
+  const showEarnings = hourlyWage > 0 || jobs.some((job) => job.rate > 0);
+  const periodLeave = sumLeaveHours(periodData);
+
+  // Other periods don't change while this one is shown, so they're only read
+  // when it changes
+  const otherStoredDays = useMemo(
+    () =>
+      hasLoadedSettings
+        ? loadAllStoredDays().filter(
+            (day) => getPeriodStart(day.date, payPeriod) < periodStart,
+          )
+        : [],
+    [periodStart, payPeriod, hasLoadedSettings],
+  );
+  const ptoLedger = leaveSettings.accrual.enabled
+    ? calculatePtoLedger(
+        [...otherStoredDays, ...periodData],
+        leaveSettings.accrual,
+        payPeriod.weekStartDay,
+        periodEnd,
+      )
+    : [];
+  const ptoBalance = ptoLedger.at(-1)?.balance;
+  const netPay = estimateNetPay(
+    earnings.period.totalPay,
+    deductionProfile,
+    getPeriodsPerYear(payPeriod),
+  );
 
   const downloadJSON = () => {
     const data = {
-      selectedMonday: selectedMonday,
-      weekData: weekData,
+      version: PERIOD_EXPORT_VERSION,
+      periodStart: toDateKey(periodStart),
+      payPeriod: payPeriod,
+      overnightMode: overnightMode,
+      autoBreakRule: autoBreakRule,
+      roundingPolicy: roundingPolicy,
+      overtimeSettings: overtimeSettings,
+      jobs: jobs,
+      localeSettings: localeSettings,
+      leaveSettings: leaveSettings,
+      days: serializeDays(periodData),
+      earnings: { days: earnings.days, period: earnings.period },
+      jobTotals: periodJobTotals,
+      warnings: describePeriodIssues(periodData),
     };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
+    // Format filename with the pay period's date range
+    downloadFile(
+      JSON.stringify(data, null, 2),
+      `timesheet_${formatFileDate(periodStart, localeSettings)}_${formatFileDate(periodEnd, localeSettings)}.json`,
+      "application/json",
+    );
+  };
 
-    // Format filename with the week's date range
-    const startDate = selectedMonday.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-    });
-    const endDate = new Date(selectedMonday);
-    endDate.setDate(selectedMonday.getDate() + 6);
-    const endDateStr = endDate.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
+  // The JSON export without earnings and warnings, which the shared view
+  // works out again. Leaving pay out also zeroes the job rates.
+  const createShareLink = (includePay: boolean): Promise<string> =>
+    createShareUrl({
+      version: PERIOD_EXPORT_VERSION,
+      periodStart: toDateKey(periodStart),
+      payPeriod: payPeriod,
+      overnightMode: overnightMode,
+      autoBreakRule: autoBreakRule,
+      roundingPolicy: roundingPolicy,
+      overtimeSettings: overtimeSettings,
+      jobs: includePay ? jobs : jobs.map((job) => ({ ...job, rate: 0 })),
+      localeSettings: localeSettings,
+      leaveSettings: leaveSettings,
+      days: serializeDays(periodData),
+      hourlyWage: includePay ? hourlyWage : undefined,
     });
 
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `timesheet_${startDate}-${endDateStr}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const exportCSV = (from: Date, to: Date) => {
+    const periods: CsvPeriod[] = [];
+    for (
+      let start = getPeriodStart(from, payPeriod);
+      start <= to;
+      start = getNextPeriodStart(start, payPeriod)
+    ) {
+      const isSelectedPeriod = start.getTime() === periodStart.getTime();
+      const storedPeriod = isSelectedPeriod
+        ? periodData
+        : loadStoredPeriod(start);
+      if (!storedPeriod) {
+        continue;
+      }
+      const recalculatedPeriod = isSelectedPeriod
+        ? storedPeriod
+        : recalculateWeek(
+            storedPeriod,
+            hoursSettings,
+            getPreviousPeriodCarryIn(start, payPeriod, hoursSettings),
+          );
+      const periodEarnings = calculatePeriodEarnings(
+        recalculatedPeriod,
+        overtimeSettings.rules,
+        jobs,
+        hourlyWage,
+        payPeriod.weekStartDay,
+        loadPrecedingWorkweekDays(start, payPeriod),
+        leaveSettings.rules,
+      );
+      periods.push({
+        days: recalculatedPeriod,
+        dayEarnings: periodEarnings.days.map((day) => day.totalPay),
+      });
+    }
+
+    downloadFile(
+      buildTimesheetCsv(periods, from, to, jobs, localeSettings),
+      `timesheet_${formatFileDate(from, localeSettings)}_${formatFileDate(to, localeSettings)}.csv`,
+      "text/csv",
+    );
   };
 
-  const clearAll = () => {
-    // Clear all timesheet data from localStorage
-    if (typeof window !== "undefined") {
-      const allKeys = Object.keys(localStorage);
-      allKeys.forEach((key) => {
-        if (key.startsWith(TIMESHEET_PREFIX)) {
-          removeLocalStorage(key);
+  // Stored days for the calendar import to check for duplicates
+  const loadDaysInRange = useCallback(
+    (from: Date, to: Date) => loadStoredDays(from, to, payPeriod),
+    [payPeriod],
+  );
+
+  const exportCalendar = (from: Date, to: Date) => {
+    // Entries keep the id they're first exported with, so calendars update
+    // their events on the next export
+    const storedDays = loadStoredDays(from, to, payPeriod);
+    const days = assignEntryIds(storedDays);
+    if (days.some((day, dayIndex) => day !== storedDays[dayIndex])) {
+      mergeStoredDays(days, payPeriod);
+      const daysByDate = new Map(days.map((day) => [toDateKey(day.date), day]));
+      setPeriodData((prevPeriodData) =>
+        prevPeriodData.map((day) => daysByDate.get(toDateKey(day.date)) ?? day),
+      );
+    }
+    downloadFile(
+      buildTimesheetIcs(days, jobs),
+      `timesheet_${formatFileDate(from, localeSettings)}_${formatFileDate(to, localeSettings)}.ics`,
+      "text/calendar",
+    );
+  };
+
+  const downloadBackup = () => {
+    downloadFile(
+      serializeBackup(createBackup()),
+      `timesheet_backup_${formatFileDate(new Date(), localeSettings)}.json`,
+      "application/json",
+    );
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!backupRestore) return;
+    applyRestore(backupRestore.backup, mode);
+    setBackupRestore(null);
+    // A restore can change the pay period, so earlier history may not match
+    setHistories({});
+    loadSavedSettings();
+    // A new Date object makes the load effect re-read the selected period
+    setPeriodStart((prevPeriodStart) => new Date(prevPeriodStart));
+  };
+
+  // Apply `updates`, keyed by date, to the days they cover, period by period
+  // in date order so overnight hours carry into the next stored period
+  const updateImportedDays = (
+    updates: Map<string, (day: DayEntry) => DayEntry>,
+  ) => {
+    const periods = new Map<string, Date>();
+    updates.forEach((_, dateKey) => {
+      const start = getPeriodStart(parseDateKey(dateKey)!, payPeriod);
+      periods.set(getLocalStorageKey(start), start);
+    });
+
+    let updatedSelectedPeriod: DayEntry[] | null = null;
+    Array.from(periods.values())
+      .sort((a, b) => a.getTime() - b.getTime())
+      .forEach((start) => {
+        const isSelectedPeriod = start.getTime() === periodStart.getTime();
+        const basePeriod = isSelectedPeriod
+          ? periodData
+          : createPeriodDays(start, payPeriod, loadStoredPeriod(start) ?? []);
+        recordHistory(getLocalStorageKey(start), basePeriod);
+        const updatedPeriod = recalculateWeek(
+          basePeriod.map(
+            (day) => updates.get(toDateKey(day.date))?.(day) ?? day,
+          ),
+          hoursSettings,
+          getPreviousPeriodCarryIn(start, payPeriod, hoursSettings),
+        );
+        setLocalStorage(
+          getLocalStorageKey(start),
+          serializeStoredPeriod(updatedPeriod),
+        );
+        if (isSelectedPeriod) {
+          updatedSelectedPeriod = updatedPeriod;
         }
       });
+
+    if (updatedSelectedPeriod) {
+      setPeriodData(updatedSelectedPeriod);
     }
+  };
+
+  // Imported rows replace the entries of each day they cover. The day type,
+  // leave hours, note and tags come from the first row of the day.
+  const handleCsvImport = (rows: CsvImportRow[]) => {
+    const importedDays = new Map<string, CsvImportRow[]>();
+    rows.forEach((row) => {
+      if (!row.date) return;
+      const dateKey = toDateKey(row.date);
+      importedDays.set(dateKey, [...(importedDays.get(dateKey) ?? []), row]);
+    });
+    updateImportedDays(
+      new Map(
+        Array.from(importedDays, ([dateKey, dayRows]) => [
+          dateKey,
+          (day: DayEntry) => {
+            const entries = dayRows.flatMap((row) =>
+              row.entry ? [row.entry] : [],
+            );
+            return {
+              ...day,
+              ...dayRows[0]!.day,
+              useDirectHours:
+                dayRows.find((row) => row.entry)?.useDirectHours ?? false,
+              entries:
+                entries.length > 0
+                  ? entries
+                  : [{ startTime: "", endTime: "", hours: 0 }],
+            };
+          },
+        ]),
+      ),
+    );
+    setCsvImport(null);
+  };
 
-    // Clear wage
-    setHourlyWage(0);
-    removeLocalStorage(WAGE_KEY);
+  // Imported events are added to the time entries of their day, replacing
+  // the blank entry a new day starts with
+  const handleIcsImport = (rows: IcsImportRow[]) => {
+    const importedEntries = new Map<string, TimeEntry[]>();
+    rows.forEach((row) => {
+      if (!row.entry) return;
+      const dateKey = toDateKey(row.date);
+      importedEntries.set(dateKey, [
+        ...(importedEntries.get(dateKey) ?? []),
+        row.entry,
+      ]);
+    });
+    updateImportedDays(
+      new Map(
+        Array.from(importedEntries, ([dateKey, entries]) => [
+          dateKey,
+          (day: DayEntry) => ({
+            ...day,
+            useDirectHours: false,
+            entries: [
+              ...day.entries.filter((entry) => !isEmptyEntry(entry)),
+              ...entries,
+            ],
+          }),
+        ]),
+      ),
+    );
+    setIcsImport(null);
+  };
 
-    // Get the current Monday
-    const newMonday = getMonday(new Date());
+  const clearAll = () => {
+    // Clear all timesheet data from storage
+    getTimesheetKeys()
+      .filter((key) => key.startsWith(TIMESHEET_PREFIX))
+      .forEach(removeLocalStorage);
 
-    // Initialize new empty week with clean input fields
-    const emptyEntry = {
-      startTime: "", // Ensure empty string for time inputs
-      endTime: "", // Ensure empty string for time inputs
-      hours: 0, // Reset hours to 0
-    };
+    // Clear wage and pay settings
+    resetSettings();
 
-    const newWeekData = Array.from({ length: 7 }, (_, i) => {
-      const date = new Date(newMonday);
-      date.setDate(newMonday.getDate() + i);
-      return {
-        date,
-        entries: [{ ...emptyEntry }], // Use spread to ensure a new object
-        totalHours: 0,
-        useDirectHours: false,
-      };
-    });
+    // Get the current pay period
+    const newPeriodStart = getPeriodStart(
+      new Date(),
+      DEFAULT_PAY_PERIOD_SETTINGS,
+    );
 
-    // Reset file input if it exists
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+    // Initialize new empty period with clean input fields
+    const newPeriodData = createPeriodDays(
+      newPeriodStart,
+      DEFAULT_PAY_PERIOD_SETTINGS,
+    );
 
-    // Update state with new empty week
-    setSelectedMonday(newMonday);
-    setWeekData(newWeekData);
+    // Update state with new empty period
+    setPeriodStart(newPeriodStart);
+    setPeriodCarryIn(NO_CARRY_OVER);
+    setPeriodData(newPeriodData);
+    setHistories({});
   };
 
   // Add confirmation to clear all
@@ -418,62 +1111,49 @@ export default function TimeSheetClient() {
     }
   };
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const data = JSON.parse(content);
-
-        // Validate the imported data structure
-        if (!data.selectedMonday || !Array.isArray(data.weekData)) {
-          throw new Error("Invalid timesheet data format");
-        }
-
-        // Convert date strings back to Date objects
-        const importedMonday = new Date(data.selectedMonday);
-        const importedWeekData = data.weekData.map((day: any) => ({
-          ...day,
-          date: new Date(day.date),
-          entries: day.entries.map((entry: any) => ({
-            startTime: entry.startTime ?? "",
-            endTime: entry.endTime ?? "",
-            hours: entry.hours ?? 0,
-          })),
-        }));
-
-        // Update state with imported data
-        setSelectedMonday(importedMonday);
-        setWeekData(importedWeekData);
-
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
-
-        // Save imported data to localStorage
-        const key = getLocalStorageKey(importedMonday);
-        setLocalStorage(key, JSON.stringify(importedWeekData));
-      } catch (error) {
-        console.error("Error importing timesheet:", error);
-        alert(
-          "Failed to import timesheet. Please make sure the file is a valid timesheet JSON export.",
-        );
-      }
+  // The file's settings only replace the user's own when they agree to it.
+  // Older exports don't carry overnight, break, rounding or leave settings.
+  // The file's days are stored under the current pay period setting.
+  const handleJsonImport = (data: PeriodExport) => {
+    const fileSettings = {
+      overnightMode: data.overnightMode ?? overnightMode,
+      autoBreakRule: data.autoBreakRule ?? autoBreakRule,
+      roundingPolicy: data.roundingPolicy ?? roundingPolicy,
+      leaveSettings: data.leaveSettings ?? leaveSettings,
     };
-    reader.readAsText(file);
-  };
+    if (
+      JSON.stringify(fileSettings) !==
+        JSON.stringify({
+          overnightMode,
+          autoBreakRule,
+          roundingPolicy,
+          leaveSettings,
+        }) &&
+      window.confirm(
+        "The file's overnight, break, rounding or leave settings differ from yours. Use the file's settings too? Cancel keeps yours.",
+      )
+    ) {
+      setOvernightMode(fileSettings.overnightMode);
+      setAutoBreakRule(fileSettings.autoBreakRule);
+      setRoundingPolicy(fileSettings.roundingPolicy);
+      setLeaveSettings(fileSettings.leaveSettings);
+    }
+    recordStoredPeriods(data.days.map((day) => day.date));
+    mergeStoredDays(data.days, payPeriod);
+
+    // Add any jobs from the file that aren't in the catalog yet
+    if (data.jobs) {
+      const importedJobs: Job[] = data.jobs;
+      setJobs((prevJobs) => [
+        ...prevJobs,
+        ...importedJobs.filter(
+          (job) => !prevJobs.some(({ id }) => id === job.id),
+        ),
+      ]);
+    }
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount);
+    // A new Date object makes the load effect read the imported days
+    setPeriodStart(getPeriodStart(data.periodStart, payPeriod));
   };
 
   const handleWageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -491,8 +1171,26 @@ export default function TimeSheetClient() {
         <p className="mb-4">
           This tool will allow you to input your time worked. It will show you
           the hours and total. It will automatically save locally to your device
-          for each week.
+          for each pay period.
         </p>
+        {accountsEnabled && (
+          <p className="mb-4 text-sm text-gray-600">
+            {account ? (
+              <>
+                Signed in as <strong>{account.email}</strong>. While sync is on,
+                your timesheet is kept on the server for this account.
+              </>
+            ) : (
+              <>
+                <Link href="/sign-in" className="text-blue-600 hover:underline">
+                  Sign in
+                </Link>{" "}
+                to keep your timesheet on the server and use it on other
+                devices.
+              </>
+            )}
+          </p>
+        )}
         <div className="flex items-start gap-2 md:-ml-8">
           <InfoIcon className="mt-1 shrink-0" size={16} /> Tip: If you do not
           see the inputs filled and you are selecting the same week, you may
@@ -503,18 +1201,19 @@ export default function TimeSheetClient() {
 
       <div className="my-6 flex w-full max-w-7xl flex-col items-start gap-2">
         <div className="mx-auto flex w-full flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
-          <div className="flex items-end gap-4">
+          <div className="flex flex-wrap items-end gap-4">
             <div className="flex flex-col items-start">
               <label
-                htmlFor="week-picker"
+                htmlFor="period-picker"
                 className="mb-1 text-sm font-bold font-extrabold text-gray-700"
               >
-                Select Week Starting (Monday):
+                Select {payPeriod.type === "weekly" ? "Week" : "Pay Period"}{" "}
+                (any day in it):
               </label>
               <Input
                 type="date"
-                id="week-picker"
-                value={selectedMonday.toISOString().split("T")[0]}
+                id="period-picker"
+                value={toDateKey(periodStart)}
                 onChange={handleDateChange}
                 className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
               />
@@ -526,8 +1225,10 @@ export default function TimeSheetClient() {
               >
                 Hourly Wage:
               </label>
-              <div className="relative">
-                <DollarSign className="absolute top-2.5 left-2 h-4 w-4 text-gray-500" />
+              <div className="flex items-center gap-1">
+                <span className="text-sm text-gray-500">
+                  {getCurrencySymbol(localeSettings)}
+                </span>
                 <Input
                   type="number"
                   id="hourly-wage"
@@ -536,34 +1237,150 @@ export default function TimeSheetClient() {
                   value={hourlyWage || ""}
                   onChange={handleWageChange}
                   placeholder="0.00"
-                  className="rounded-md border-gray-300 pl-8 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 />
               </div>
             </div>
+            <div className="flex flex-col items-start">
+              <label
+                htmlFor="overnight-mode"
+                className="mb-1 text-sm font-bold font-extrabold text-gray-700"
+              >
+                Overnight Shifts:
+              </label>
+              <select
+                id="overnight-mode"
+                value={overnightMode}
+                onChange={(e) =>
+                  setOvernightMode(e.target.value as OvernightMode)
+                }
+                className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                <option value="start-day">Count on start day</option>
+                <option value="split">Split at midnight</option>
+              </select>
+            </div>
+            <OvertimeSettings
+              value={overtimeSettings}
+              onChange={setOvertimeSettings}
+            />
+            <AutoBreakSettings
+              value={autoBreakRule}
+              onChange={setAutoBreakRule}
+            />
+            <RoundingSettings
+              value={roundingPolicy}
+              onChange={setRoundingPolicy}
+            />
+            <PayPeriodSettings
+              value={payPeriod}
+              onChange={handlePayPeriodChange}
+            />
+            <LocaleSettings
+              value={localeSettings}
+              onChange={setLocaleSettings}
+            />
           </div>
           <div className="flex items-center gap-2">
-            <input
-              type="file"
-              accept=".json"
-              onChange={handleFileSelect}
-              ref={fileInputRef}
-              className="hidden"
+            <Button
+              onClick={handleUndo}
+              variant="outline"
+              size="sm"
+              className="h-9 w-9"
+              disabled={periodHistory.past.length === 0}
+              aria-label="Undo"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={16} />
+            </Button>
+            <Button
+              onClick={handleRedo}
+              variant="outline"
+              size="sm"
+              className="h-9 w-9"
+              disabled={periodHistory.future.length === 0}
+              aria-label="Redo"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={16} />
+            </Button>
+            <ImportExportButtons
+              onImportJson={handleJsonImport}
+              onExportJson={downloadJSON}
+              onCsvSelect={(fileName, rows) => setCsvImport({ fileName, rows })}
+              onIcsSelect={(fileName, events) =>
+                setIcsImport({ fileName, events })
+              }
+              onBackupSelect={(fileName, backup) =>
+                setBackupRestore({ fileName, backup })
+              }
+              onDownloadBackup={downloadBackup}
             />
             <Button
-              onClick={importJSON}
+              onClick={() => setShowShare(!showShare)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Share2 size={16} />
+              Share
+            </Button>
+            <Button
+              onClick={() => setShowReports(!showReports)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <ChartColumn size={16} />
+              Reports
+            </Button>
+            <Button
+              onClick={() => setShowDeductions(!showDeductions)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Receipt size={16} />
+              Net Pay
+            </Button>
+            <Button
+              asChild
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Link href="/timesheet/search">
+                <Search size={16} />
+                Search
+              </Link>
+            </Button>
+            <Button
+              onClick={copyLastWeek}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Copy size={16} />
+              Copy Last Week
+            </Button>
+            <Button
+              onClick={() => setShowTemplates(!showTemplates)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <CalendarRange size={16} />
+              Templates
+            </Button>
+            <Button
+              onClick={() => setShowLeave(!showLeave)}
               variant="outline"
               className="flex items-center gap-2"
             >
-              <Upload size={16} />
-              Import JSON
+              <Palmtree size={16} />
+              Leave &amp; Holidays
             </Button>
             <Button
-              onClick={downloadJSON}
+              onClick={() => setShowDocuments(!showDocuments)}
               variant="outline"
               className="flex items-center gap-2"
             >
-              <Download size={16} />
-              Export JSON
+              <Printer size={16} />
+              Print / Invoice
             </Button>
             <Button
               variant="outline"
@@ -573,19 +1390,148 @@ export default function TimeSheetClient() {
               <TrashIcon size={16} />
               Clear All
             </Button>
+            {accountsEnabled && (
+              <SyncControls
+                status={syncStatus}
+                signedIn={account !== null}
+                localeSettings={localeSettings}
+                onToggle={handleSyncToggle}
+                onSyncNow={() => void runSync()}
+              />
+            )}
           </div>
         </div>
+        <ClockWidget
+          clock={activeClock}
+          jobs={jobs}
+          localeSettings={localeSettings}
+          onClockIn={handleClockIn}
+          onClockOut={handleClockOut}
+          onKeepRunning={() =>
+            activeClock &&
+            saveActiveClock({ ...activeClock, keepRunning: true })
+          }
+        />
+        <ExportRange
+          key={periodStart.getTime()}
+          defaultFrom={periodStart}
+          defaultTo={periodEnd}
+          onExportCsv={exportCSV}
+          onExportCalendar={exportCalendar}
+        />
+        {showReports && (
+          <TimesheetReports
+            periodData={periodData}
+            hoursSettings={hoursSettings}
+            rules={overtimeSettings.rules}
+            jobs={jobs}
+            hourlyWage={hourlyWage}
+            weekStartDay={payPeriod.weekStartDay}
+            leaveRules={leaveSettings.rules}
+            showPay={showEarnings}
+            localeSettings={localeSettings}
+            onOpenWeek={(weekStart) =>
+              setPeriodStart(getPeriodStart(weekStart, payPeriod))
+            }
+            onClose={() => setShowReports(false)}
+          />
+        )}
+        {showDocuments && (
+          <DocumentPanel
+            details={documentDetails}
+            periodStart={periodStart}
+            periodEnd={periodEnd}
+            periodData={periodData}
+            earnings={earnings}
+            jobs={jobs}
+            hourlyWage={hourlyWage}
+            showPay={showEarnings}
+            localeSettings={localeSettings}
+            onDetailsChange={setDocumentDetails}
+            onClose={() => setShowDocuments(false)}
+          />
+        )}
+        {showTemplates && (
+          <ScheduleTemplates
+            value={templateSettings}
+            periodData={periodData}
+            onChange={setTemplateSettings}
+            onApply={(template) => applySchedule(template.days)}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+        {showLeave && (
+          <LeaveSettings
+            value={leaveSettings}
+            ptoLedger={ptoLedger}
+            periodStart={periodStart}
+            localeSettings={localeSettings}
+            onChange={setLeaveSettings}
+            onClose={() => setShowLeave(false)}
+          />
+        )}
+        {showShare && (
+          <SharePanel
+            periodLabel={periodLabel}
+            hasPay={showEarnings}
+            createLink={createShareLink}
+            onClose={() => setShowShare(false)}
+          />
+        )}
+        {showDeductions && (
+          <DeductionProfileSettings
+            value={deductionProfile}
+            localeSettings={localeSettings}
+            onChange={setDeductionProfile}
+            onClose={() => setShowDeductions(false)}
+          />
+        )}
+        {backupRestore && (
+          <BackupRestorePanel
+            fileName={backupRestore.fileName}
+            backup={backupRestore.backup}
+            payPeriod={payPeriod}
+            localeSettings={localeSettings}
+            onRestore={handleRestore}
+            onCancel={() => setBackupRestore(null)}
+          />
+        )}
+        {csvImport && (
+          <CsvImportPanel
+            fileName={csvImport.fileName}
+            rows={csvImport.rows}
+            jobs={jobs}
+            onImport={handleCsvImport}
+            onCancel={() => setCsvImport(null)}
+          />
+        )}
+        {icsImport && (
+          <IcsImportPanel
+            fileName={icsImport.fileName}
+            events={icsImport.events}
+            jobs={jobs}
+            defaultFrom={periodStart}
+            defaultTo={periodEnd}
+            loadDays={loadDaysInRange}
+            onImport={handleIcsImport}
+            onCancel={() => setIcsImport(null)}
+          />
+        )}
+        <JobCatalog jobs={jobs} defaultRate={hourlyWage} onChange={setJobs} />
         <div className="mt-2 text-lg font-semibold text-gray-700">
-          {getWeekRangeDisplay(selectedMonday)}
+          {getPeriodRangeDisplay(periodStart, payPeriod, localeSettings)}
         </div>
       </div>
 
       <div className="grid w-full max-w-7xl gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {weekData.map((day, dayIndex) => (
-          <Card key={day.date.toISOString()} className="mb-6">
+        {periodData.map((day, dayIndex) => (
+          <Card key={toDateKey(day.date)} className="mb-6">
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle>
-                {day.date.toLocaleDateString("en-US", { weekday: "long" })}
+                {formatWeekday(day.date, localeSettings)}
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {formatDate(day.date, localeSettings, false)}
+                </span>
               </CardTitle>
               <Button
                 variant="outline"
@@ -600,64 +1546,138 @@ export default function TimeSheetClient() {
             </CardHeader>
             <CardContent>
               {day.entries.map((entry, entryIndex) => (
-                <div key={entryIndex} className="mb-2 flex items-center gap-4">
-                  {day.useDirectHours ? (
-                    <Input
-                      type="number"
-                      min="0"
-                      step="0.25"
-                      placeholder="Hours"
-                      value={entry.hours || ""}
-                      onChange={(e) =>
-                        handleTimeChange(
-                          dayIndex,
+                <div key={entryIndex} className="mb-2">
+                  <div className="flex items-center gap-4">
+                    {day.useDirectHours ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.25"
+                        placeholder="Hours"
+                        {...getInvalidProps(
+                          dayIssues[dayIndex] ?? [],
                           entryIndex,
                           "hours",
-                          e.target.value,
-                        )
-                      }
-                      className="w-32"
-                    />
-                  ) : (
-                    <>
-                      <Input
-                        type="time"
-                        value={entry.startTime}
+                        )}
+                        value={entry.hours || ""}
                         onChange={(e) =>
                           handleTimeChange(
                             dayIndex,
                             entryIndex,
-                            "startTime",
+                            "hours",
                             e.target.value,
                           )
                         }
+                        className="w-32"
                       />
-                      <Input
-                        type="time"
-                        value={entry.endTime}
+                    ) : (
+                      <>
+                        <Input
+                          type="time"
+                          {...getInvalidProps(
+                            dayIssues[dayIndex] ?? [],
+                            entryIndex,
+                            "startTime",
+                          )}
+                          value={entry.startTime}
+                          onChange={(e) =>
+                            handleTimeChange(
+                              dayIndex,
+                              entryIndex,
+                              "startTime",
+                              e.target.value,
+                            )
+                          }
+                        />
+                        <Input
+                          type="time"
+                          {...getInvalidProps(
+                            dayIssues[dayIndex] ?? [],
+                            entryIndex,
+                            "endTime",
+                          )}
+                          value={entry.endTime}
+                          onChange={(e) =>
+                            handleTimeChange(
+                              dayIndex,
+                              entryIndex,
+                              "endTime",
+                              e.target.value,
+                            )
+                          }
+                        />
+                        {isOvernightEntry(entry) && (
+                          <span
+                            className="flex shrink-0 items-center gap-1 text-xs text-indigo-600"
+                            title="Ends the next day"
+                          >
+                            <MoonIcon size={12} />
+                            +1
+                          </span>
+                        )}
+                      </>
+                    )}
+                    {jobs.length > 0 && (
+                      <select
+                        value={entry.jobId ?? ""}
                         onChange={(e) =>
                           handleTimeChange(
                             dayIndex,
                             entryIndex,
-                            "endTime",
+                            "jobId",
                             e.target.value,
                           )
                         }
-                      />
-                    </>
-                  )}
-                  {entryIndex > 0 ? (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
-                      onClick={() => deleteTimeEntry(dayIndex, entryIndex)}
-                    >
-                      ×
-                    </Button>
-                  ) : (
-                    <div className="ml-4 h-8 w-8"></div>
-                  )}
+                        className="border-input h-9 w-28 shrink-0 rounded-md border bg-transparent px-2 text-sm shadow-xs"
+                        style={{
+                          borderLeft: `4px solid ${findJob(jobs, entry.jobId ?? "")?.color ?? "transparent"}`,
+                        }}
+                        aria-label="Job"
+                      >
+                        <option value="">No job</option>
+                        {jobs.map((job) => (
+                          <option key={job.id} value={job.id}>
+                            {job.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {entryIndex > 0 ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                        onClick={() => deleteTimeEntry(dayIndex, entryIndex)}
+                      >
+                        ×
+                      </Button>
+                    ) : (
+                      <div className="ml-4 h-8 w-8"></div>
+                    )}
+                  </div>
+                  <NoteEditor
+                    value={{ note: entry.note, tags: entry.tags }}
+                    label="Entry note"
+                    onChange={(notes) =>
+                      updateNotes(dayIndex, entryIndex, notes)
+                    }
+                  />
+                  {!day.useDirectHours &&
+                    describeRoundedPunches(entry) !== null && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        {describeRoundedPunches(entry)}
+                      </div>
+                    )}
+                  {(dayIssues[dayIndex] ?? [])
+                    .filter((issue) => issue.entryIndex === entryIndex)
+                    .map((issue) => (
+                      <div
+                        key={`${issue.field}-${issue.message}`}
+                        className="mt-1 text-xs text-red-600"
+                      >
+                        {issue.message}
+                      </div>
+                    ))}
                 </div>
               ))}
 
@@ -665,14 +1685,141 @@ export default function TimeSheetClient() {
                 Add {day.useDirectHours ? "Hours" : "Time"} Entry
               </Button>
 
+              <DayBreaksEditor
+                breaks={day.breaks}
+                allowIntervals={!day.useDirectHours}
+                onChange={(breaks) => updateDayBreaks(dayIndex, breaks)}
+              />
+
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <select
+                  value={day.dayType ?? "worked"}
+                  onChange={(e) =>
+                    updateDayType(dayIndex, e.target.value as DayType)
+                  }
+                  className="border-input h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs"
+                  aria-label="Day type"
+                >
+                  {(Object.keys(DAY_TYPE_LABELS) as DayType[]).map(
+                    (dayType) => (
+                      <option key={dayType} value={dayType}>
+                        {DAY_TYPE_LABELS[dayType]}
+                      </option>
+                    ),
+                  )}
+                </select>
+                {getLeaveType(day) && (
+                  <>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="24"
+                      step="0.25"
+                      value={day.leaveHours ?? ""}
+                      onChange={(e) =>
+                        updateLeaveHours(dayIndex, e.target.value)
+                      }
+                      placeholder="0"
+                      className="w-20"
+                      aria-label="Leave hours"
+                    />
+                    hours of leave
+                  </>
+                )}
+              </div>
+
+              <div className="mt-3">
+                <NoteEditor
+                  value={{ note: day.note, tags: day.tags }}
+                  label="Day note"
+                  onChange={(notes) => updateNotes(dayIndex, null, notes)}
+                />
+              </div>
+
               <div className="mt-4 space-y-1">
+                {(day.breakHours ?? 0) > 0 && (
+                  <div className="text-sm text-gray-600">
+                    Gross: {formatHours(day.grossHours ?? 0, localeSettings)}{" "}
+                    hours, unpaid breaks: -
+                    {formatHours(day.breakHours ?? 0, localeSettings)} hours
+                  </div>
+                )}
+                {activeClock &&
+                  toDateKey(new Date(activeClock.startedAt)) ===
+                    toDateKey(day.date) && (
+                    <div className="text-sm text-green-700">
+                      Clocked in at{" "}
+                      {formatTime(
+                        toTimeValue(new Date(activeClock.startedAt)),
+                        localeSettings,
+                      )}
+                      , not yet counted in the total
+                    </div>
+                  )}
                 <div className="font-semibold">
-                  Daily Total: {day.totalHours.toFixed(2)} hours
+                  Daily Total: {formatHours(day.totalHours, localeSettings)}{" "}
+                  hours
+                  {day.unroundedHours !== undefined && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      ({formatHours(day.unroundedHours, localeSettings)} before
+                      rounding)
+                    </span>
+                  )}
                 </div>
-                {hourlyWage > 0 && (
+                {getLeaveType(day) && (
+                  <div className="text-sm text-teal-700">
+                    {DAY_TYPE_LABELS[day.dayType ?? "worked"]}:{" "}
+                    {formatHours(day.leaveHours ?? 0, localeSettings)} hours,
+                    not counted as worked
+                  </div>
+                )}
+                {(dayIssues[dayIndex]?.length ?? 0) > 0 && (
+                  <div className="text-sm text-red-600">
+                    {dayIssues[dayIndex]?.length === 1
+                      ? "1 entry problem"
+                      : `${dayIssues[dayIndex]?.length} entry problems`}{" "}
+                    may make this total wrong
+                  </div>
+                )}
+                {(day.carryInHours ?? 0) > 0 && (
+                  <div className="text-sm text-indigo-600">
+                    Includes{" "}
+                    {formatHours(day.carryInHours ?? 0, localeSettings)} hours
+                    from the previous night's shift
+                  </div>
+                )}
+                {(day.carryOutHours ?? 0) > 0 && (
+                  <div className="text-sm text-indigo-600">
+                    {formatHours(day.carryOutHours ?? 0, localeSettings)} hours
+                    after midnight credited to{" "}
+                    {formatWeekday(addDays(day.date, 1), localeSettings)}
+                  </div>
+                )}
+                {jobs.length > 0 && (
+                  <JobTotals
+                    totals={dayJobTotals[dayIndex] ?? []}
+                    jobs={jobs}
+                    showPay={showEarnings}
+                    localeSettings={localeSettings}
+                    className="text-sm text-gray-600"
+                  />
+                )}
+                {showEarnings && earnings.days[dayIndex] && (
                   <div className="text-sm text-gray-600">
                     Estimated Earnings:{" "}
-                    {formatCurrency(day.totalHours * hourlyWage)}
+                    {formatCurrency(
+                      earnings.days[dayIndex].totalPay,
+                      localeSettings,
+                    )}
+                    {(earnings.days[dayIndex].regularHours <
+                      earnings.days[dayIndex].totalHours ||
+                      earnings.days[dayIndex].leaveHours > 0) && (
+                      <EarningsBreakdown
+                        breakdown={earnings.days[dayIndex]}
+                        localeSettings={localeSettings}
+                        className="mt-1 text-xs"
+                      />
+                    )}
                   </div>
                 )}
               </div>
@@ -681,13 +1828,77 @@ export default function TimeSheetClient() {
         ))}
 
         <div className="mt-6 space-y-2">
+          <ValidationSummary
+            periodIssues={periodIssues}
+            periodLabel={periodLabel}
+            localeSettings={localeSettings}
+          />
+          {totalPeriodBreakHours > 0 && (
+            <div className="text-gray-600">
+              Gross:{" "}
+              {formatHours(
+                totalPeriodHours + totalPeriodBreakHours,
+                localeSettings,
+              )}{" "}
+              hours, unpaid breaks: -
+              {formatHours(totalPeriodBreakHours, localeSettings)} hours
+            </div>
+          )}
           <div className="text-2xl font-bold">
-            Weekly Total: {totalWeekHours.toFixed(2)} hours
+            {periodLabel} Total: {formatHours(totalPeriodHours, localeSettings)}{" "}
+            hours
+            {isRoundingEnabled(roundingPolicy) && (
+              <span className="ml-2 text-base font-normal text-gray-500">
+                ({formatHours(totalUnroundedHours, localeSettings)} before
+                rounding)
+              </span>
+            )}
           </div>
-          {hourlyWage > 0 && (
+          {periodLeave.length > 0 && (
+            <div className="text-gray-600">
+              Leave:{" "}
+              {periodLeave
+                .map(
+                  ({ leaveType, hours }) =>
+                    `${DAY_TYPE_LABELS[leaveType]} ${formatHours(hours, localeSettings)} hours`,
+                )
+                .join(", ")}
+            </div>
+          )}
+          {ptoBalance !== undefined && (
+            <div className={ptoBalance < 0 ? "text-red-600" : "text-gray-600"}>
+              PTO balance: {formatHours(ptoBalance, localeSettings)} hours
+            </div>
+          )}
+          {jobs.length > 0 && (
+            <JobTotals
+              totals={periodJobTotals}
+              jobs={jobs}
+              showPay={showEarnings}
+              localeSettings={localeSettings}
+              className="text-gray-700"
+            />
+          )}
+          {showEarnings && (
             <div className="text-xl text-gray-700">
-              Gross Weekly Earnings:{" "}
-              {formatCurrency(totalWeekHours * hourlyWage)}
+              Gross {periodLabel} Earnings:{" "}
+              {formatCurrency(earnings.period.totalPay, localeSettings)}
+              <EarningsBreakdown
+                breakdown={earnings.period}
+                localeSettings={localeSettings}
+                className="mt-1 text-sm text-gray-600"
+              />
+            </div>
+          )}
+          {showEarnings && deductionProfile.enabled && (
+            <div className="text-xl text-gray-700">
+              Estimated Net {periodLabel} Pay:{" "}
+              {formatCurrency(netPay.netPay, localeSettings)}
+              <NetPayBreakdown
+                estimate={netPay}
+                localeSettings={localeSettings}
+                className="mt-1 text-sm text-gray-600"
+              />
             </div>
           )}
         </div>
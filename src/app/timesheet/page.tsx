@@ -1,3 +1,4 @@
+import { accountsEnabled, getCurrentAccount } from "@/server/auth";
 import TimeSheetClient from "./page-client";
 
 export const metadata = {
@@ -6,6 +7,18 @@ export const metadata = {
     "A comprehensive timesheet tool for calculating work hours, daily and weekly totals, and estimated earnings based on hourly wage. Track multiple time entries per day and view earnings projections.",
 };
 
-export default function Timesheet() {
-  return <TimeSheetClient />;
+// `?date=YYYY-MM-DD` opens the pay period with that day, e.g. from a search
+export default async function Timesheet({
+  searchParams,
+}: {
+  searchParams: Promise<{ date?: string | string[] }>;
+}) {
+  const { date } = await searchParams;
+  return (
+    <TimeSheetClient
+      account={await getCurrentAccount()}
+      accountsEnabled={accountsEnabled()}
+      initialDate={typeof date === "string" ? date : undefined}
+    />
+  );
 }
@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DEFAULT_LOCALE_SETTINGS,
+  formatDate,
+  formatHours,
+  formatTime,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import { openDeviceStorage } from "@/lib/timesheet/indexed-db";
+import { findJob } from "@/lib/timesheet/jobs";
+import { formatTags } from "@/lib/timesheet/notes";
+import {
+  jobsSchema,
+  localeSettingsSchema,
+  parseStoredSetting,
+} from "@/lib/timesheet/schema";
+import {
+  parseSearchQuery,
+  searchDays,
+  type SearchMatch,
+} from "@/lib/timesheet/search";
+import {
+  JOBS_KEY,
+  LOCALE_KEY,
+  getLocalStorage,
+  loadAllStoredDays,
+} from "@/lib/timesheet/storage";
+import type { DayEntry, Job } from "@/lib/timesheet/types";
+import { toDateKey } from "@/lib/timesheet/week";
+
+const describeTime = (
+  match: SearchMatch,
+  localeSettings: LocaleSettings,
+): string => {
+  if (!match.entry) {
+    return "Day note";
+  }
+  if (match.day.useDirectHours) {
+    return "Hours entry";
+  }
+  return `${formatTime(match.entry.startTime, localeSettings)} - ${formatTime(match.entry.endTime, localeSettings)}`;
+};
+
+// Searches every stored pay period on this device
+export default function SearchClient() {
+  const [query, setQuery] = useState("");
+  const [storedDays, setStoredDays] = useState<DayEntry[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(
+    DEFAULT_LOCALE_SETTINGS,
+  );
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  useEffect(() => {
+    void openDeviceStorage().then(() => {
+      setStoredDays(loadAllStoredDays().reverse());
+      setJobs(parseStoredSetting(getLocalStorage(JOBS_KEY), jobsSchema) ?? []);
+      setLocaleSettings(
+        parseStoredSetting(getLocalStorage(LOCALE_KEY), localeSettingsSchema) ??
+          DEFAULT_LOCALE_SETTINGS,
+      );
+      setHasLoaded(true);
+    });
+  }, []);
+
+  const matches = useMemo(
+    () => searchDays(storedDays, parseSearchQuery(query), jobs),
+    [storedDays, query, jobs],
+  );
+  const totalHours = matches.reduce((total, match) => total + match.hours, 0);
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-start bg-white p-8 text-gray-800">
+      <div className="flex w-full max-w-5xl flex-col gap-4">
+        <Link
+          href="/timesheet"
+          className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+        >
+          <ArrowLeft size={14} />
+          Back to the timesheet
+        </Link>
+        <h1 className="text-3xl font-bold">Search Timesheet</h1>
+        <p className="text-sm text-gray-600">
+          Finds entries in every saved pay period by their notes, the notes of
+          their day and their job. Use <code>#tag</code> to match a tag.
+        </p>
+        <Input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="e.g. client review #billable"
+          aria-label="Search"
+          autoFocus
+        />
+        {!hasLoaded ? (
+          <p className="text-sm text-gray-500">Loading saved entries...</p>
+        ) : query.trim() === "" ? null : matches.length === 0 ? (
+          <p className="text-sm text-gray-500">No entries match.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>Tags</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matches.map((match) => (
+                <TableRow
+                  key={`${toDateKey(match.day.date)}-${match.entryIndex ?? "day"}`}
+                >
+                  <TableCell>
+                    <Link
+                      href={`/timesheet?date=${toDateKey(match.day.date)}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {formatDate(match.day.date, localeSettings)}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{describeTime(match, localeSettings)}</TableCell>
+                  <TableCell>
+                    {findJob(jobs, match.entry?.jobId ?? "")?.name ?? ""}
+                  </TableCell>
+                  <TableCell className="whitespace-normal">
+                    {match.entry?.note}
+                    {match.day.note && (
+                      <div className="text-xs text-gray-500">
+                        {match.day.note}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-normal">
+                    {formatTags([
+                      ...(match.entry?.tags ?? []),
+                      ...(match.day.tags ?? []),
+                    ])}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatHours(match.hours, localeSettings)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5}>
+                  {matches.length} {matches.length === 1 ? "entry" : "entries"},
+                  worked hours before breaks and rounding
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatHours(totalHours, localeSettings)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </div>
+    </main>
+  );
+}
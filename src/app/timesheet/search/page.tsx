@@ -0,0 +1,11 @@
+import SearchClient from "./page-client";
+
+export const metadata = {
+  title: "Search Timesheet",
+  description:
+    "Search the notes, tags and jobs of every saved timesheet entry and total the hours of the matches.",
+};
+
+export default function TimesheetSearch() {
+  return <SearchClient />;
+}
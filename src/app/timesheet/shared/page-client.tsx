@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Eye, Import } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import EarningsBreakdown from "@/components/timesheet/earnings-breakdown";
+import JobTotals from "@/components/timesheet/job-totals";
+import ValidationSummary from "@/components/timesheet/validation-summary";
+import { isEmptyEntry } from "@/lib/timesheet/clock";
+import { calculatePeriodEarnings } from "@/lib/timesheet/earnings";
+import {
+  DEFAULT_LOCALE_SETTINGS,
+  formatCurrency,
+  formatDate,
+  formatHours,
+  formatTime,
+  formatWeekday,
+} from "@/lib/timesheet/format";
+import { openDeviceStorage } from "@/lib/timesheet/indexed-db";
+import { findJob } from "@/lib/timesheet/jobs";
+import { formatTags, type Notes } from "@/lib/timesheet/notes";
+import { DEFAULT_OVERTIME_SETTINGS } from "@/lib/timesheet/overtime";
+import {
+  DEFAULT_PAY_PERIOD_SETTINGS,
+  getPeriodRangeDisplay,
+} from "@/lib/timesheet/period";
+import {
+  TimesheetDataError,
+  describeDataError,
+  jobsSchema,
+  parseStoredSetting,
+  payPeriodSettingsSchema,
+  type PeriodExport,
+} from "@/lib/timesheet/schema";
+import { decodeSharedPeriod } from "@/lib/timesheet/share";
+import {
+  JOBS_KEY,
+  PAY_PERIOD_KEY,
+  getLocalStorage,
+  mergeStoredDays,
+  migrateStoredKeys,
+  setLocalStorage,
+  setStorageAdapter,
+} from "@/lib/timesheet/storage";
+import {
+  createServerStorageAdapter,
+  loadSyncState,
+} from "@/lib/timesheet/sync";
+import { validatePeriod } from "@/lib/timesheet/validation";
+import { toDateKey } from "@/lib/timesheet/week";
+
+const describeNotes = ({ note, tags }: Notes): string =>
+  [note, formatTags(tags)].filter(Boolean).join(" - ");
+
+type SharedPeriod =
+  | { status: "loading" }
+  | { status: "invalid"; message: string }
+  | { status: "ready"; data: PeriodExport };
+
+// Shows a period from a share link. Nothing is read from or written to this
+// device's storage until the viewer chooses to add the period to their own
+// timesheet.
+export default function SharedTimesheetClient() {
+  const router = useRouter();
+  const [shared, setShared] = useState<SharedPeriod>({ status: "loading" });
+
+  useEffect(() => {
+    const readLink = () => {
+      const encoded = window.location.hash.slice(1);
+      if (!encoded) {
+        setShared({
+          status: "invalid",
+          message: "This link doesn't contain a timesheet.",
+        });
+        return;
+      }
+      decodeSharedPeriod(encoded).then(
+        (data) => setShared({ status: "ready", data }),
+        (error: unknown) => {
+          console.error("Error reading shared timesheet:", error);
+          setShared({
+            status: "invalid",
+            message:
+              error instanceof TimesheetDataError
+                ? describeDataError(error)
+                : "This link couldn't be read.",
+          });
+        },
+      );
+    };
+    readLink();
+    window.addEventListener("hashchange", readLink);
+    return () => window.removeEventListener("hashchange", readLink);
+  }, []);
+
+  // The days replace any on the same dates, stored under the viewer's own pay
+  // period setting, and any jobs they don't have yet are added
+  const addToTimesheet = async (data: PeriodExport) => {
+    if (
+      !window.confirm(
+        "Add this timesheet to yours? Days you already entered on the same dates will be replaced.",
+      )
+    ) {
+      return;
+    }
+    await openDeviceStorage();
+    // Stored through the sync adapter when sync is on, so the days are sent
+    // with the next sync from the timesheet
+    if (loadSyncState().enabled) {
+      setStorageAdapter(createServerStorageAdapter(() => undefined));
+    }
+    const payPeriod =
+      parseStoredSetting(
+        getLocalStorage(PAY_PERIOD_KEY),
+        payPeriodSettingsSchema,
+      ) ?? DEFAULT_PAY_PERIOD_SETTINGS;
+    migrateStoredKeys(payPeriod);
+    mergeStoredDays(data.days, payPeriod);
+    const jobs =
+      parseStoredSetting(getLocalStorage(JOBS_KEY), jobsSchema) ?? [];
+    const newJobs = (data.jobs ?? []).filter(
+      (job) => !jobs.some(({ id }) => id === job.id),
+    );
+    if (newJobs.length > 0) {
+      setLocalStorage(JOBS_KEY, JSON.stringify([...jobs, ...newJobs]));
+    }
+    router.push(`/timesheet?date=${toDateKey(data.periodStart)}`);
+  };
+
+  if (shared.status !== "ready") {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-start bg-white p-8 text-gray-800">
+        <div className="flex w-full max-w-2xl flex-col gap-4">
+          <h1 className="text-3xl font-bold">Shared Timesheet</h1>
+          {shared.status === "loading" ? (
+            <p className="text-sm text-gray-500">Opening the link...</p>
+          ) : (
+            <p className="text-sm whitespace-pre-line text-red-600">
+              {shared.message}
+            </p>
+          )}
+          <Link
+            href="/timesheet"
+            className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+          >
+            <ArrowLeft size={14} />
+            Go to your timesheet
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const { data } = shared;
+  const payPeriod = data.payPeriod ?? DEFAULT_PAY_PERIOD_SETTINGS;
+  const localeSettings = data.localeSettings ?? DEFAULT_LOCALE_SETTINGS;
+  const jobs = data.jobs ?? [];
+  const hourlyWage = data.hourlyWage ?? 0;
+  // Days before the period aren't shared, so weekly overtime for a workweek
+  // split across two pay periods only counts this period's days
+  const earnings = calculatePeriodEarnings(
+    data.days,
+    (data.overtimeSettings ?? DEFAULT_OVERTIME_SETTINGS).rules,
+    jobs,
+    hourlyWage,
+    payPeriod.weekStartDay,
+    [],
+    data.leaveSettings?.rules,
+  );
+  const periodLabel = payPeriod.type === "weekly" ? "Weekly" : "Pay Period";
+  const showEarnings = hourlyWage > 0 || jobs.some((job) => job.rate > 0);
+  const totalPeriodHours = data.days.reduce(
+    (total, day) => total + day.totalHours,
+    0,
+  );
+  const totalUnroundedHours = data.days.reduce(
+    (total, day) => total + (day.unroundedHours ?? day.totalHours),
+    0,
+  );
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-start bg-white p-8 text-gray-800">
+      <div className="mb-6 flex w-full max-w-7xl flex-col gap-3">
+        <h1 className="text-3xl font-bold">Shared Timesheet</h1>
+        <div className="text-lg font-semibold text-gray-700">
+          {getPeriodRangeDisplay(data.periodStart, payPeriod, localeSettings)}
+        </div>
+        <p className="flex items-center gap-2 text-sm text-gray-600">
+          <Eye size={16} />
+          Read-only. Nothing here is saved on this device unless you add it to
+          your timesheet.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => void addToTimesheet(data)}
+            className="flex items-center gap-2"
+          >
+            <Import size={16} />
+            Add to My Timesheet
+          </Button>
+          <Button asChild variant="outline">
+            <Link href="/timesheet">Go to My Timesheet</Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid w-full max-w-7xl gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {data.days.map((day, dayIndex) => (
+          <Card key={toDateKey(day.date)} className="mb-6">
+            <CardHeader>
+              <CardTitle>
+                {formatWeekday(day.date, localeSettings)}
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {formatDate(day.date, localeSettings, false)}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {day.entries
+                .filter((entry) => !isEmptyEntry(entry))
+                .map((entry, entryIndex) => (
+                  <div key={entryIndex} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      {day.useDirectHours
+                        ? `${formatHours(entry.hours ?? 0, localeSettings)} hours`
+                        : `${formatTime(entry.startTime, localeSettings)} - ${formatTime(entry.endTime, localeSettings)}`}
+                      {entry.jobId && findJob(jobs, entry.jobId) && (
+                        <span className="flex items-center gap-1 text-gray-600">
+                          <span
+                            className="inline-block h-2.5 w-2.5 rounded-full"
+                            style={{
+                              backgroundColor: findJob(jobs, entry.jobId)
+                                ?.color,
+                            }}
+                          />
+                          {findJob(jobs, entry.jobId)?.name}
+                        </span>
+                      )}
+                    </div>
+                    {describeNotes(entry) && (
+                      <div className="text-xs text-gray-500">
+                        {describeNotes(entry)}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              {describeNotes(day) && (
+                <div className="text-sm text-gray-600 italic">
+                  {describeNotes(day)}
+                </div>
+              )}
+              <div className="mt-3 space-y-1">
+                {(day.breakHours ?? 0) > 0 && (
+                  <div className="text-sm text-gray-600">
+                    Gross: {formatHours(day.grossHours ?? 0, localeSettings)}{" "}
+                    hours, unpaid breaks: -
+                    {formatHours(day.breakHours ?? 0, localeSettings)} hours
+                  </div>
+                )}
+                <div className="font-semibold">
+                  Daily Total: {formatHours(day.totalHours, localeSettings)}{" "}
+                  hours
+                  {day.unroundedHours !== undefined && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      ({formatHours(day.unroundedHours, localeSettings)} before
+                      rounding)
+                    </span>
+                  )}
+                </div>
+                {jobs.length > 0 && (
+                  <JobTotals
+                    totals={earnings.dayJobTotals[dayIndex] ?? []}
+                    jobs={jobs}
+                    showPay={showEarnings}
+                    localeSettings={localeSettings}
+                    className="text-sm text-gray-600"
+                  />
+                )}
+                {showEarnings && earnings.days[dayIndex] && (
+                  <div className="text-sm text-gray-600">
+                    Estimated Earnings:{" "}
+                    {formatCurrency(
+                      earnings.days[dayIndex].totalPay,
+                      localeSettings,
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        <div className="mt-6 space-y-2">
+          <ValidationSummary
+            periodIssues={validatePeriod(data.days)}
+            periodLabel={periodLabel}
+            localeSettings={localeSettings}
+          />
+          <div className="text-2xl font-bold">
+            {periodLabel} Total: {formatHours(totalPeriodHours, localeSettings)}{" "}
+            hours
+            {totalUnroundedHours !== totalPeriodHours && (
+              <span className="ml-2 text-base font-normal text-gray-500">
+                ({formatHours(totalUnroundedHours, localeSettings)} before
+                rounding)
+              </span>
+            )}
+          </div>
+          {jobs.length > 0 && (
+            <JobTotals
+              totals={earnings.periodJobTotals}
+              jobs={jobs}
+              showPay={showEarnings}
+              localeSettings={localeSettings}
+              className="text-gray-700"
+            />
+          )}
+          {showEarnings && (
+            <div className="text-xl text-gray-700">
+              Gross {periodLabel} Earnings:{" "}
+              {formatCurrency(earnings.period.totalPay, localeSettings)}
+              <EarningsBreakdown
+                breakdown={earnings.period}
+                localeSettings={localeSettings}
+                className="mt-1 text-sm text-gray-600"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
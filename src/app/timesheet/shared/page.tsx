@@ -0,0 +1,12 @@
+import SharedTimesheetClient from "./page-client";
+
+export const metadata = {
+  title: "Shared Timesheet",
+  description:
+    "A read-only copy of a week of hours, shared with a link, that can be added to your own timesheet.",
+};
+
+// The timesheet is in the URL fragment, so it's only ever read in the browser
+export default function SharedTimesheet() {
+  return <SharedTimesheetClient />;
+}
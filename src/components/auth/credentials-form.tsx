@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth";
+
+interface CredentialsFormProps {
+  mode: "sign-in" | "sign-up";
+}
+
+// Email and password form shared by the sign-in and sign-up pages
+export default function CredentialsForm({ mode }: CredentialsFormProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const isSignUp = mode === "sign-up";
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        setError(body?.error ?? "Something went wrong. Please try again.");
+        return;
+      }
+      router.push("/timesheet");
+      router.refresh();
+    } catch (error) {
+      console.error(`Error during ${mode}:`, error);
+      setError("Couldn't reach the server. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>{isSignUp ? "Create an account" : "Sign in"}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <label className="flex flex-col gap-1 text-sm font-bold text-gray-700">
+            Email
+            <Input
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm font-bold text-gray-700">
+            Password
+            <Input
+              type="password"
+              autoComplete={isSignUp ? "new-password" : "current-password"}
+              minLength={isSignUp ? MIN_PASSWORD_LENGTH : undefined}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" disabled={submitting}>
+            {isSignUp ? "Sign up" : "Sign in"}
+          </Button>
+          <p className="text-sm text-gray-600">
+            {isSignUp ? "Already have an account? " : "New here? "}
+            <Link
+              href={isSignUp ? "/sign-in" : "/sign-up"}
+              className="text-blue-600 hover:underline"
+            >
+              {isSignUp ? "Sign in" : "Create an account"}
+            </Link>
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
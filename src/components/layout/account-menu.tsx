@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { Account } from "@/lib/auth";
+import { openDeviceStorage } from "@/lib/timesheet/indexed-db";
+import {
+  clearSyncedData,
+  loadSyncState,
+  syncWithServer,
+} from "@/lib/timesheet/sync";
+
+interface AccountMenuProps {
+  account: Account | null;
+}
+
+export default function AccountMenu({ account }: AccountMenuProps) {
+  const [signingOut, setSigningOut] = useState(false);
+
+  // Send any last changes, then remove the account's data from this browser
+  // so the next person to use it doesn't see it. Data that hasn't reached the
+  // server is never removed: without sync it stays on this device, and when
+  // the last sync fails it's sent on the next sign-in.
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    await openDeviceStorage();
+    let synced = false;
+    if (loadSyncState().enabled) {
+      try {
+        await syncWithServer();
+        // A save can still be refused after every retry
+        synced = Object.keys(loadSyncState().pending).length === 0;
+      } catch (error) {
+        console.error("Error syncing before signing out:", error);
+      }
+      if (
+        !synced &&
+        !window.confirm(
+          "Some changes haven't reached the server. Sign out anyway? They'll stay on this device and be sent the next time you sign in.",
+        )
+      ) {
+        setSigningOut(false);
+        return;
+      }
+    }
+    await fetch("/api/auth/sign-out", { method: "POST" });
+    if (synced) {
+      clearSyncedData();
+    }
+    // Offline copies of pages show the account too
+    if ("caches" in window) {
+      const cacheNames = await caches.keys();
+      await Promise.all(cacheNames.map((name) => caches.delete(name)));
+    }
+    window.location.assign("/");
+  };
+
+  if (!account) {
+    return (
+      <div className="flex gap-4">
+        <Link href="/sign-in" className="text-gray-600 hover:text-blue-600">
+          Sign in
+        </Link>
+        <Link href="/sign-up" className="text-gray-600 hover:text-blue-600">
+          Sign up
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <span className="text-sm text-gray-500">{account.email}</span>
+      <button
+        type="button"
+        onClick={handleSignOut}
+        disabled={signingOut}
+        className="text-gray-600 hover:text-blue-600 disabled:opacity-50"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
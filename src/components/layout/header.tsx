@@ -1,6 +1,10 @@
 import Link from "next/link";
+import { accountsEnabled, getCurrentAccount } from "@/server/auth";
+import AccountMenu from "./account-menu";
+
+export default async function Header() {
+  const account = await getCurrentAccount();
 
-export default function Header() {
   return (
     <header className="w-full border-b border-gray-200 bg-white">
       <nav className="mx-auto flex max-w-7xl items-center justify-between p-4">
@@ -19,6 +23,7 @@ export default function Header() {
           >
             More Tools
           </Link>
+          {accountsEnabled() && <AccountMenu account={account} />}
         </div>
       </nav>
     </header>
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Every script and stylesheet this page has loaded. On the first visit they
+// load before the service worker exists, so it's told about them to cache the
+// build assets among them for offline use.
+const getLoadedUrls = (): string[] => [
+  ...performance.getEntriesByType("resource").map((entry) => entry.name),
+  ...Array.from(
+    document.querySelectorAll<HTMLScriptElement>("script[src]"),
+    (script) => script.src,
+  ),
+  ...Array.from(
+    document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]'),
+    (link) => link.href,
+  ),
+];
+
+// Registers the service worker that keeps the timesheet working offline.
+// Skipped in development, where cached pages would hide code changes.
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (
+      process.env.NODE_ENV !== "production" ||
+      !("serviceWorker" in navigator)
+    ) {
+      return;
+    }
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) =>
+        registration.active?.postMessage({
+          type: "cache-assets",
+          urls: Array.from(new Set(getLoadedUrls())),
+        }),
+      )
+      .catch((error) =>
+        console.error("Error registering the service worker:", error),
+      );
+  }, []);
+
+  return null;
+}
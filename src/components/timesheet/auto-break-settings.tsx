@@ -0,0 +1,61 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import type { AutoBreakRule } from "@/lib/timesheet/types";
+
+interface AutoBreakSettingsProps {
+  value: AutoBreakRule;
+  onChange: (value: AutoBreakRule) => void;
+}
+
+export default function AutoBreakSettings({
+  value,
+  onChange,
+}: AutoBreakSettingsProps) {
+  const handleNumberChange = (
+    field: "afterHours" | "minutes",
+    input: string,
+  ) => {
+    const number = parseFloat(input);
+    if (!isNaN(number) && number >= 0) {
+      onChange({ ...value, [field]: number });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start">
+      <label className="mb-1 flex items-center gap-2 text-sm font-extrabold text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        Auto-deduct Meal Break:
+      </label>
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <Input
+          type="number"
+          min="0"
+          step="5"
+          value={value.minutes}
+          disabled={!value.enabled}
+          onChange={(e) => handleNumberChange("minutes", e.target.value)}
+          className="w-20"
+          aria-label="Break minutes"
+        />
+        min after
+        <Input
+          type="number"
+          min="0"
+          step="0.5"
+          value={value.afterHours}
+          disabled={!value.enabled}
+          onChange={(e) => handleNumberChange("afterHours", e.target.value)}
+          className="w-20"
+          aria-label="Shift length threshold in hours"
+        />
+        h
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  planRestore,
+  type RestoreMode,
+  type TimesheetBackup,
+  type WeekRestoreStatus,
+} from "@/lib/timesheet/backup";
+import {
+  formatDate,
+  formatDateTime,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import type { PayPeriodSettings } from "@/lib/timesheet/period";
+import { parseDateKey } from "@/lib/timesheet/week";
+
+interface BackupRestorePanelProps {
+  fileName: string;
+  backup: TimesheetBackup;
+  payPeriod: PayPeriodSettings;
+  localeSettings: LocaleSettings;
+  onRestore: (mode: RestoreMode) => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<WeekRestoreStatus, string> = {
+  added: "Added",
+  overwritten: "Overwritten",
+  unchanged: "Unchanged",
+  kept: "Left alone",
+  removed: "Removed",
+};
+
+const STATUS_CLASSES: Record<WeekRestoreStatus, string> = {
+  added: "text-green-700",
+  overwritten: "text-amber-700",
+  unchanged: "text-gray-500",
+  kept: "text-gray-500",
+  removed: "text-red-600",
+};
+
+export default function BackupRestorePanel({
+  fileName,
+  backup,
+  payPeriod,
+  localeSettings,
+  onRestore,
+  onCancel,
+}: BackupRestorePanelProps) {
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const plan = useMemo(
+    () => planRestore(backup, mode, payPeriod),
+    [backup, mode, payPeriod],
+  );
+
+  const counts = plan.reduce(
+    (totals, { status }) => ({ ...totals, [status]: totals[status] + 1 }),
+    { added: 0, overwritten: 0, unchanged: 0, kept: 0, removed: 0 },
+  );
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Restore Backup: {fileName}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backup.exportedAt && (
+          <p className="text-sm text-gray-600">
+            Backup created{" "}
+            {formatDateTime(new Date(backup.exportedAt), localeSettings)} with{" "}
+            {Object.keys(backup.weeks).length} pay period(s).
+          </p>
+        )}
+        <div className="flex flex-col gap-1 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={mode === "merge"}
+              onChange={() => setMode("merge")}
+            />
+            Merge: write the backup's days and keep everything else, including
+            your current wage and settings
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={mode === "replace"}
+              onChange={() => setMode("replace")}
+            />
+            Replace everything: delete all current data, then restore the backup
+          </label>
+        </div>
+        <p className="text-sm font-semibold">
+          {(Object.keys(counts) as WeekRestoreStatus[])
+            .filter((status) => counts[status] > 0)
+            .map(
+              (status) =>
+                `${counts[status]} ${STATUS_LABELS[status].toLowerCase()}`,
+            )
+            .join(", ") || "Nothing to restore"}
+        </p>
+        <ul className="max-h-64 overflow-y-auto rounded-md border p-2 text-sm">
+          {plan.map(({ weekKey, status }) => {
+            const periodStart = parseDateKey(weekKey);
+            return (
+              <li key={weekKey} className="flex justify-between gap-4 py-0.5">
+                <span>
+                  {periodStart
+                    ? `Starting ${formatDate(periodStart, localeSettings)}`
+                    : weekKey}
+                </span>
+                <span className={STATUS_CLASSES[status]}>
+                  {STATUS_LABELS[status]}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex gap-2">
+          <Button onClick={() => onRestore(mode)}>
+            {mode === "replace" ? "Replace Everything" : "Merge Backup"}
+          </Button>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
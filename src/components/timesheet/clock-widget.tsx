@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MAX_ENTRY_MINUTES,
+  MAX_SHIFT_HOURS,
+  formatElapsed,
+  getClockMinutes,
+  toDateTimeValue,
+  toTimeValue,
+  type ActiveClock,
+} from "@/lib/timesheet/clock";
+import {
+  formatTime,
+  formatWeekday,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import { findJob } from "@/lib/timesheet/jobs";
+import type { Job } from "@/lib/timesheet/types";
+
+interface ClockWidgetProps {
+  clock: ActiveClock | null;
+  jobs: Job[];
+  localeSettings: LocaleSettings;
+  onClockIn: (jobId?: string) => void;
+  onClockOut: (end: Date) => void;
+  onKeepRunning: () => void;
+}
+
+// Clock in and out in real time. A shift running longer than MAX_SHIFT_HOURS
+// is most likely a forgotten clock-out, so it asks when the shift ended.
+export default function ClockWidget({
+  clock,
+  jobs,
+  localeSettings,
+  onClockIn,
+  onClockOut,
+  onKeepRunning,
+}: ClockWidgetProps) {
+  const [jobId, setJobId] = useState("");
+  const [now, setNow] = useState(() => new Date());
+  const [endValue, setEndValue] = useState("");
+
+  useEffect(() => {
+    if (!clock) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [clock]);
+
+  // Suggest the latest reasonable end time for a forgotten clock-out
+  useEffect(() => {
+    if (!clock) return;
+    const startedAt = new Date(clock.startedAt);
+    setEndValue(
+      toDateTimeValue(
+        new Date(startedAt.getTime() + MAX_SHIFT_HOURS * 60 * 60 * 1000),
+      ),
+    );
+  }, [clock]);
+
+  if (!clock) {
+    return (
+      <div className="flex items-center gap-2">
+        {jobs.length > 0 && (
+          <select
+            value={jobId}
+            onChange={(e) => setJobId(e.target.value)}
+            className="border-input h-9 w-32 rounded-md border bg-transparent px-2 text-sm shadow-xs"
+            aria-label="Job to clock in to"
+          >
+            <option value="">No job</option>
+            {jobs.map((job) => (
+              <option key={job.id} value={job.id}>
+                {job.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <Button
+          onClick={() => onClockIn(jobId || undefined)}
+          className="flex items-center gap-2"
+        >
+          <Clock size={16} />
+          Clock In
+        </Button>
+      </div>
+    );
+  }
+
+  const startedAt = new Date(clock.startedAt);
+  const elapsed = now.getTime() - startedAt.getTime();
+  // Past a full day the current time can't be used as the end time
+  const mustPickEnd = elapsed > MAX_ENTRY_MINUTES * 60 * 1000;
+  const showPrompt =
+    mustPickEnd ||
+    (!clock.keepRunning && elapsed > MAX_SHIFT_HOURS * 60 * 60 * 1000);
+  const pickedEnd = endValue ? new Date(endValue) : null;
+  const pickedEndIsValid =
+    pickedEnd !== null &&
+    !isNaN(pickedEnd.getTime()) &&
+    pickedEnd <= now &&
+    getClockMinutes(clock, pickedEnd) !== null;
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-700">
+          Clocked in since {formatWeekday(startedAt, localeSettings)}{" "}
+          {formatTime(toTimeValue(startedAt), localeSettings)}
+          {clock.jobId &&
+            ` (${findJob(jobs, clock.jobId)?.name ?? "removed job"})`}
+        </span>
+        <span className="font-mono text-lg font-semibold">
+          {formatElapsed(elapsed)}
+        </span>
+        <Button
+          onClick={() => onClockOut(new Date())}
+          disabled={mustPickEnd}
+          className="flex items-center gap-2"
+        >
+          <Clock size={16} />
+          Clock Out
+        </Button>
+      </div>
+      {showPrompt && (
+        <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+          <p className="mb-2">
+            {mustPickEnd
+              ? "This shift has been running for over a day. When did it end?"
+              : `This shift has been running for over ${MAX_SHIFT_HOURS} hours. Did you forget to clock out?`}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="datetime-local"
+              value={endValue}
+              min={toDateTimeValue(startedAt)}
+              onChange={(e) => setEndValue(e.target.value)}
+              className="w-56 bg-white"
+              aria-label="Shift end time"
+            />
+            <Button
+              size="sm"
+              disabled={!pickedEndIsValid}
+              onClick={() => pickedEnd && onClockOut(pickedEnd)}
+            >
+              Clock out at this time
+            </Button>
+            {!mustPickEnd && (
+              <Button size="sm" variant="outline" onClick={onKeepRunning}>
+                Still working
+              </Button>
+            )}
+          </div>
+          {endValue && !pickedEndIsValid && (
+            <p className="mt-1 text-xs text-red-600">
+              Pick a time after the clock-in, less than a day later and not in
+              the future.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CSV_FIELD_LABELS,
+  guessCsvMapping,
+  parseCsvRows,
+  type CsvColumnMapping,
+  type CsvField,
+  type CsvImportRow,
+} from "@/lib/timesheet/csv";
+import { DAY_TYPE_LABELS } from "@/lib/timesheet/leave";
+import type { Job } from "@/lib/timesheet/types";
+import { toDateKey } from "@/lib/timesheet/week";
+
+interface CsvImportPanelProps {
+  fileName: string;
+  rows: string[][]; // Raw cells, including the header row if there is one
+  jobs: Job[];
+  onImport: (rows: CsvImportRow[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 100;
+
+export default function CsvImportPanel({
+  fileName,
+  rows,
+  jobs,
+  onImport,
+  onCancel,
+}: CsvImportPanelProps) {
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() =>
+    guessCsvMapping(rows[0] ?? []),
+  );
+
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const columnNames = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`,
+  );
+
+  const parsedRows = useMemo(
+    () =>
+      parseCsvRows(
+        hasHeader ? rows.slice(1) : rows,
+        mapping,
+        jobs,
+        hasHeader ? 2 : 1,
+      ),
+    [rows, hasHeader, mapping, jobs],
+  );
+  const validRows = parsedRows.filter((row) => row.errors.length === 0);
+  const invalidCount = parsedRows.length - validRows.length;
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    setMapping((prevMapping) => ({
+      ...prevMapping,
+      [field]: value === "" ? null : Number(value),
+    }));
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Import CSV: {fileName}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={hasHeader}
+            onChange={(e) => setHasHeader(e.target.checked)}
+          />
+          First row is a header
+        </label>
+        <div className="flex flex-wrap gap-4">
+          {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map((field) => (
+            <label
+              key={field}
+              className="flex flex-col text-sm font-bold text-gray-700"
+            >
+              {CSV_FIELD_LABELS[field]}
+              <select
+                value={mapping[field] ?? ""}
+                onChange={(e) => handleMappingChange(field, e.target.value)}
+                className="border-input mt-1 h-9 rounded-md border bg-transparent px-2 text-sm font-normal shadow-xs"
+              >
+                <option value="">Not mapped</option>
+                {columnNames.map((name, index) => (
+                  <option key={index} value={index}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <p className="text-sm text-gray-600">
+          {validRows.length} row(s) ready to import
+          {invalidCount > 0 &&
+            `, ${invalidCount} row(s) with errors will be skipped`}
+          . Imported rows replace the entries on the days they cover.
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Entry</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {parsedRows.slice(0, PREVIEW_LIMIT).map((row) => (
+              <TableRow
+                key={row.rowNumber}
+                className={row.errors.length > 0 ? "bg-red-50" : undefined}
+              >
+                <TableCell>{row.rowNumber}</TableCell>
+                <TableCell>{row.date ? toDateKey(row.date) : "—"}</TableCell>
+                <TableCell>
+                  {row.entry
+                    ? row.useDirectHours
+                      ? `${row.entry.hours} hours`
+                      : `${row.entry.startTime} - ${row.entry.endTime}`
+                    : row.day.dayType && row.errors.length === 0
+                      ? `${DAY_TYPE_LABELS[row.day.dayType]}: ${row.day.leaveHours ?? 0} hours`
+                      : "—"}
+                </TableCell>
+                <TableCell className="whitespace-normal">
+                  {row.errors.length > 0 ? (
+                    <span className="text-red-600">
+                      {row.errors.join("; ")}
+                    </span>
+                  ) : (
+                    <span className="text-green-700">OK</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {parsedRows.length > PREVIEW_LIMIT && (
+          <p className="text-sm text-gray-500">
+            Showing the first {PREVIEW_LIMIT} of {parsedRows.length} rows.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Button
+            onClick={() => onImport(validRows)}
+            disabled={validRows.length === 0}
+          >
+            Import {validRows.length} Row(s)
+          </Button>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
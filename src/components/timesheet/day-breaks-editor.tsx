@@ -0,0 +1,108 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { BreakInterval, DayBreaks } from "@/lib/timesheet/types";
+
+interface DayBreaksEditorProps {
+  breaks?: DayBreaks;
+  allowIntervals: boolean; // Break times only make sense in time entry mode
+  onChange: (breaks: DayBreaks) => void;
+}
+
+const EMPTY_BREAKS: DayBreaks = { fixedMinutes: 0, intervals: [] };
+
+export default function DayBreaksEditor({
+  breaks = EMPTY_BREAKS,
+  allowIntervals,
+  onChange,
+}: DayBreaksEditorProps) {
+  const handleFixedChange = (value: string) => {
+    const minutes = value === "" ? 0 : parseFloat(value);
+    if (!isNaN(minutes) && minutes >= 0) {
+      onChange({ ...breaks, fixedMinutes: minutes });
+    }
+  };
+
+  const handleIntervalChange = (
+    intervalIndex: number,
+    field: keyof BreakInterval,
+    value: string,
+  ) => {
+    onChange({
+      ...breaks,
+      intervals: breaks.intervals.map((interval, index) =>
+        index === intervalIndex ? { ...interval, [field]: value } : interval,
+      ),
+    });
+  };
+
+  const addInterval = () => {
+    onChange({
+      ...breaks,
+      intervals: [...breaks.intervals, { startTime: "", endTime: "" }],
+    });
+  };
+
+  const deleteInterval = (intervalIndex: number) => {
+    onChange({
+      ...breaks,
+      intervals: breaks.intervals.filter((_, index) => index !== intervalIndex),
+    });
+  };
+
+  return (
+    <div className="mt-4 space-y-2 border-t pt-3 text-sm">
+      <label className="flex items-center gap-2 text-gray-700">
+        Unpaid break (min):
+        <Input
+          type="number"
+          min="0"
+          step="5"
+          placeholder="0"
+          value={breaks.fixedMinutes || ""}
+          onChange={(e) => handleFixedChange(e.target.value)}
+          className="w-24"
+        />
+      </label>
+      {allowIntervals && (
+        <>
+          {breaks.intervals.map((interval, intervalIndex) => (
+            <div key={intervalIndex} className="flex items-center gap-2">
+              <span className="shrink-0 text-gray-600">Break</span>
+              <Input
+                type="time"
+                value={interval.startTime}
+                onChange={(e) =>
+                  handleIntervalChange(
+                    intervalIndex,
+                    "startTime",
+                    e.target.value,
+                  )
+                }
+              />
+              <Input
+                type="time"
+                value={interval.endTime}
+                onChange={(e) =>
+                  handleIntervalChange(intervalIndex, "endTime", e.target.value)
+                }
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                onClick={() => deleteInterval(intervalIndex)}
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addInterval}>
+            Add Break
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DEFAULT_DEDUCTION_PROFILE,
+  createDeduction,
+  type DeductionProfile,
+  type DeductionType,
+  type PayrollDeduction,
+  type TaxTable,
+} from "@/lib/timesheet/deductions";
+import { getCurrencySymbol, type LocaleSettings } from "@/lib/timesheet/format";
+
+interface DeductionProfileSettingsProps {
+  value: DeductionProfile;
+  localeSettings: LocaleSettings;
+  onChange: (value: DeductionProfile) => void;
+  onClose: () => void;
+}
+
+// Helper to read a non-negative number input, or null when it isn't one
+const parseAmount = (input: string): number | null => {
+  const amount = input === "" ? 0 : parseFloat(input);
+  return !isNaN(amount) && amount >= 0 ? amount : null;
+};
+
+const TaxTableEditor = ({
+  title,
+  table,
+  currencySymbol,
+  onChange,
+  onReset,
+}: {
+  title: string;
+  table: TaxTable;
+  currencySymbol: string;
+  onChange: (table: TaxTable) => void;
+  onReset: () => void;
+}) => {
+  const updateBracket = (
+    bracketIndex: number,
+    field: "from" | "rate",
+    input: string,
+  ) => {
+    const amount = parseAmount(input);
+    if (amount === null || (field === "rate" && amount > 100)) return;
+    onChange({
+      ...table,
+      brackets: table.brackets.map((bracket, index) =>
+        index === bracketIndex ? { ...bracket, [field]: amount } : bracket,
+      ),
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <span className="text-sm font-extrabold text-gray-700">{title}:</span>
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        Standard deduction {currencySymbol}
+        <Input
+          type="number"
+          min="0"
+          step="100"
+          value={table.standardDeduction || ""}
+          onChange={(e) => {
+            const amount = parseAmount(e.target.value);
+            if (amount !== null) {
+              onChange({ ...table, standardDeduction: amount });
+            }
+          }}
+          placeholder="0"
+          className="w-28"
+        />
+        per year
+      </label>
+      {table.brackets.map((bracket, bracketIndex) => (
+        <div
+          key={bracketIndex}
+          className="flex items-center gap-2 text-sm text-gray-600"
+        >
+          Over {currencySymbol}
+          <Input
+            type="number"
+            min="0"
+            step="100"
+            value={bracket.from || ""}
+            onChange={(e) =>
+              updateBracket(bracketIndex, "from", e.target.value)
+            }
+            placeholder="0"
+            className="w-28"
+            aria-label="Bracket starts at annual income"
+          />
+          taxed at
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            value={bracket.rate || ""}
+            onChange={(e) =>
+              updateBracket(bracketIndex, "rate", e.target.value)
+            }
+            placeholder="0"
+            className="w-20"
+            aria-label="Bracket rate in percent"
+          />
+          %
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+            onClick={() =>
+              onChange({
+                ...table,
+                brackets: table.brackets.filter(
+                  (_, index) => index !== bracketIndex,
+                ),
+              })
+            }
+          >
+            ×
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              ...table,
+              brackets: [
+                ...table.brackets,
+                { from: table.brackets.at(-1)?.from ?? 0, rate: 0 },
+              ],
+            })
+          }
+        >
+          <Plus size={14} />
+          Add Bracket
+        </Button>
+        <Button variant="link" size="sm" onClick={onReset}>
+          Reset to default
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Edits the tax tables, payroll tax rates and deductions used to estimate
+// net pay. Brackets are annual amounts, scaled to the pay period.
+export default function DeductionProfileSettings({
+  value,
+  localeSettings,
+  onChange,
+  onClose,
+}: DeductionProfileSettingsProps) {
+  const currencySymbol = getCurrencySymbol(localeSettings);
+  const updateDeduction = (
+    deductionId: string,
+    changes: Partial<PayrollDeduction>,
+  ) => {
+    onChange({
+      ...value,
+      deductions: value.deductions.map((deduction) =>
+        deduction.id === deductionId ? { ...deduction, ...changes } : deduction,
+      ),
+    });
+  };
+
+  const handleRateChange = (
+    field: "socialSecurityRate" | "medicareRate",
+    input: string,
+  ) => {
+    const rate = parseAmount(input);
+    if (rate !== null && rate <= 100) {
+      onChange({ ...value, [field]: rate });
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Net Pay Estimate</CardTitle>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-extrabold text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.enabled}
+            onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          />
+          Show estimated net pay
+        </label>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Social Security
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={value.socialSecurityRate || ""}
+              onChange={(e) =>
+                handleRateChange("socialSecurityRate", e.target.value)
+              }
+              placeholder="0"
+              className="w-20"
+            />
+            %
+          </label>
+          <label className="flex items-center gap-2">
+            Medicare
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={value.medicareRate || ""}
+              onChange={(e) => handleRateChange("medicareRate", e.target.value)}
+              placeholder="0"
+              className="w-20"
+            />
+            %
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-8">
+          <TaxTableEditor
+            title="Federal Income Tax"
+            table={value.federalTax}
+            currencySymbol={currencySymbol}
+            onChange={(federalTax) => onChange({ ...value, federalTax })}
+            onReset={() =>
+              onChange({
+                ...value,
+                federalTax: DEFAULT_DEDUCTION_PROFILE.federalTax,
+              })
+            }
+          />
+          <TaxTableEditor
+            title="State Income Tax"
+            table={value.stateTax}
+            currencySymbol={currencySymbol}
+            onChange={(stateTax) => onChange({ ...value, stateTax })}
+            onReset={() =>
+              onChange({
+                ...value,
+                stateTax: DEFAULT_DEDUCTION_PROFILE.stateTax,
+              })
+            }
+          />
+        </div>
+        <div className="flex flex-col items-start gap-2">
+          <span className="text-sm font-extrabold text-gray-700">
+            Deductions:
+          </span>
+          {value.deductions.map((deduction) => (
+            <div
+              key={deduction.id}
+              className="flex items-center gap-2 text-sm text-gray-600"
+            >
+              <Input
+                value={deduction.name}
+                onChange={(e) =>
+                  updateDeduction(deduction.id, { name: e.target.value })
+                }
+                placeholder="Deduction name"
+                className="w-48"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={deduction.amount || ""}
+                onChange={(e) => {
+                  const amount = parseAmount(e.target.value);
+                  if (amount !== null) {
+                    updateDeduction(deduction.id, { amount });
+                  }
+                }}
+                placeholder="0"
+                className="w-24"
+                aria-label="Deduction amount"
+              />
+              <select
+                value={deduction.type}
+                onChange={(e) =>
+                  updateDeduction(deduction.id, {
+                    type: e.target.value as DeductionType,
+                  })
+                }
+                className="border-input h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs"
+                aria-label="Deduction type"
+              >
+                <option value="fixed">{currencySymbol} per period</option>
+                <option value="percent">% of gross</option>
+              </select>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={deduction.preTax}
+                  onChange={(e) =>
+                    updateDeduction(deduction.id, { preTax: e.target.checked })
+                  }
+                />
+                Pre-tax
+              </label>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    deductions: value.deductions.filter(
+                      ({ id }) => id !== deduction.id,
+                    ),
+                  })
+                }
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...value,
+                deductions: [
+                  ...value.deductions,
+                  createDeduction(value.deductions),
+                ],
+              })
+            }
+          >
+            <Plus size={14} />
+            Add Deduction
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Income tax is withheld as if every pay period of the year paid the
+          same. This is an estimate, not a payroll calculation.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
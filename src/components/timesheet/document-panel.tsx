@@ -0,0 +1,258 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  buildInvoiceLines,
+  formatInvoiceNumber,
+  renderInvoiceHtml,
+  renderTimesheetHtml,
+  type DocumentDetails,
+  type DocumentKind,
+} from "@/lib/timesheet/documents";
+import { downloadFile } from "@/lib/timesheet/download";
+import type { PeriodEarnings } from "@/lib/timesheet/earnings";
+import { formatFileDate, type LocaleSettings } from "@/lib/timesheet/format";
+import type { DayEntry, Job } from "@/lib/timesheet/types";
+import { parseDateKey, toDateKey } from "@/lib/timesheet/week";
+
+interface DocumentPanelProps {
+  details: DocumentDetails;
+  periodStart: Date;
+  periodEnd: Date;
+  periodData: DayEntry[];
+  earnings: PeriodEarnings;
+  jobs: Job[];
+  hourlyWage: number;
+  showPay: boolean;
+  localeSettings: LocaleSettings;
+  onDetailsChange: (details: DocumentDetails) => void;
+  onClose: () => void;
+}
+
+// Print-ready timesheet or invoice for the selected pay period. The preview
+// is the same standalone page that's printed or downloaded.
+export default function DocumentPanel({
+  details,
+  periodStart,
+  periodEnd,
+  periodData,
+  earnings,
+  jobs,
+  hourlyWage,
+  showPay,
+  localeSettings,
+  onDetailsChange,
+  onClose,
+}: DocumentPanelProps) {
+  const [kind, setKind] = useState<DocumentKind>("timesheet");
+  const [issueDate, setIssueDate] = useState(() => toDateKey(new Date()));
+  const previewRef = useRef<HTMLIFrameElement>(null);
+
+  const html = useMemo(
+    () =>
+      kind === "invoice"
+        ? renderInvoiceHtml({
+            details,
+            issueDate: parseDateKey(issueDate) ?? new Date(),
+            periodStart,
+            periodEnd,
+            lines: buildInvoiceLines(
+              earnings.periodJobTotals,
+              jobs,
+              hourlyWage,
+            ),
+            localeSettings,
+          })
+        : renderTimesheetHtml({
+            details,
+            periodStart,
+            periodEnd,
+            days: periodData,
+            earnings,
+            jobs,
+            showPay,
+            localeSettings,
+          }),
+    [
+      kind,
+      details,
+      issueDate,
+      periodStart,
+      periodEnd,
+      periodData,
+      earnings,
+      jobs,
+      hourlyWage,
+      showPay,
+      localeSettings,
+    ],
+  );
+
+  const updateDetails = (changes: Partial<DocumentDetails>) => {
+    onDetailsChange({ ...details, ...changes });
+  };
+
+  const handleNumberChange = (
+    field: "nextInvoiceNumber" | "paymentTermsDays",
+    input: string,
+  ) => {
+    const number = parseInt(input, 10);
+    if (!isNaN(number) && number >= (field === "nextInvoiceNumber" ? 1 : 0)) {
+      updateDetails({ [field]: number });
+    }
+  };
+
+  // An invoice number is used up once the invoice leaves the app
+  const finishInvoice = () => {
+    if (kind === "invoice") {
+      updateDetails({ nextInvoiceNumber: details.nextInvoiceNumber + 1 });
+    }
+  };
+
+  const handlePrint = () => {
+    // Printing the preview frame leaves the rest of the page out. Save as PDF
+    // from the print dialog for a PDF copy.
+    previewRef.current?.contentWindow?.print();
+    finishInvoice();
+  };
+
+  const handleDownload = () => {
+    downloadFile(
+      html,
+      kind === "invoice"
+        ? `invoice_${formatInvoiceNumber(details)}.html`
+        : `timesheet_${formatFileDate(periodStart, localeSettings)}_${formatFileDate(periodEnd, localeSettings)}.html`,
+      "text/html",
+    );
+    finishInvoice();
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Print &amp; Invoice</CardTitle>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={kind === "timesheet" ? "default" : "outline"}
+            onClick={() => setKind("timesheet")}
+          >
+            Timesheet
+          </Button>
+          <Button
+            size="sm"
+            variant={kind === "invoice" ? "default" : "outline"}
+            onClick={() => setKind("invoice")}
+          >
+            Invoice
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-end gap-4 text-sm text-gray-700">
+          <label className="flex flex-col gap-1">
+            Your name
+            <Input
+              value={details.name}
+              onChange={(e) => updateDetails({ name: e.target.value })}
+              className="w-48"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Employer / client
+            <Input
+              value={details.client}
+              onChange={(e) => updateDetails({ client: e.target.value })}
+              className="w-48"
+            />
+          </label>
+          {kind === "invoice" && (
+            <>
+              <label className="flex flex-col gap-1">
+                Invoice number
+                <div className="flex gap-1">
+                  <Input
+                    value={details.invoicePrefix}
+                    onChange={(e) =>
+                      updateDetails({ invoicePrefix: e.target.value })
+                    }
+                    className="w-20"
+                    aria-label="Invoice number prefix"
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={details.nextInvoiceNumber}
+                    onChange={(e) =>
+                      handleNumberChange("nextInvoiceNumber", e.target.value)
+                    }
+                    className="w-24"
+                  />
+                </div>
+              </label>
+              <label className="flex flex-col gap-1">
+                Issue date
+                <Input
+                  type="date"
+                  value={issueDate}
+                  onChange={(e) => setIssueDate(e.target.value)}
+                  className="w-40"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Payment terms (days)
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={details.paymentTermsDays}
+                  onChange={(e) =>
+                    handleNumberChange("paymentTermsDays", e.target.value)
+                  }
+                  className="w-24"
+                />
+              </label>
+            </>
+          )}
+          <label className="flex flex-col gap-1">
+            Notes
+            <Input
+              value={details.notes}
+              onChange={(e) => updateDetails({ notes: e.target.value })}
+              placeholder="Payment details, project, PO number..."
+              className="w-72"
+            />
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handlePrint} className="flex items-center gap-2">
+            <Printer size={16} />
+            Print / Save as PDF
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleDownload}
+            className="flex items-center gap-2"
+          >
+            <Download size={16} />
+            Download HTML
+          </Button>
+        </div>
+        <iframe
+          ref={previewRef}
+          srcDoc={html}
+          title={kind === "invoice" ? "Invoice preview" : "Timesheet preview"}
+          className="h-[600px] w-full rounded-md border bg-white"
+        />
+      </CardContent>
+    </Card>
+  );
+}
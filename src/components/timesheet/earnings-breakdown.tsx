@@ -0,0 +1,58 @@
+import {
+  formatCurrency,
+  formatHours,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import type { EarningsBreakdown as Breakdown } from "@/lib/timesheet/overtime";
+
+interface EarningsBreakdownProps {
+  breakdown: Breakdown;
+  localeSettings: LocaleSettings;
+  className?: string;
+}
+
+// Lists regular, overtime, double time and paid leave hours and pay, skipping
+// empty rows
+export default function EarningsBreakdown({
+  breakdown,
+  localeSettings,
+  className,
+}: EarningsBreakdownProps) {
+  const rows = [
+    {
+      label: "Regular",
+      hours: breakdown.regularHours,
+      pay: breakdown.regularPay,
+    },
+    {
+      label: "Overtime",
+      hours: breakdown.overtimeHours,
+      pay: breakdown.overtimePay,
+    },
+    {
+      label: "Double time",
+      hours: breakdown.doubleTimeHours,
+      pay: breakdown.doubleTimePay,
+    },
+    {
+      label: "Paid leave",
+      hours: breakdown.leaveHours,
+      pay: breakdown.leavePay,
+    },
+  ].filter((row) => row.hours > 0);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={className}>
+      {rows.map((row) => (
+        <li key={row.label}>
+          {row.label}: {formatHours(row.hours, localeSettings)} hours (
+          {formatCurrency(row.pay, localeSettings)})
+        </li>
+      ))}
+    </ul>
+  );
+}
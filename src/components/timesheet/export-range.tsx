@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarDays, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { parseDateKey, toDateKey } from "@/lib/timesheet/week";
+
+interface ExportRangeProps {
+  defaultFrom: Date;
+  defaultTo: Date;
+  onExportCsv: (from: Date, to: Date) => void;
+  onExportCalendar: (from: Date, to: Date) => void;
+}
+
+// Date range picker for CSV and calendar exports; defaults to the selected
+// week
+export default function ExportRange({
+  defaultFrom,
+  defaultTo,
+  onExportCsv,
+  onExportCalendar,
+}: ExportRangeProps) {
+  const [from, setFrom] = useState(toDateKey(defaultFrom));
+  const [to, setTo] = useState(toDateKey(defaultTo));
+
+  const fromDate = parseDateKey(from);
+  const toDate = parseDateKey(to);
+  const isValidRange = !!fromDate && !!toDate && fromDate <= toDate;
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <label className="flex flex-col text-sm font-bold text-gray-700">
+        Export From
+        <Input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="mt-1"
+        />
+      </label>
+      <label className="flex flex-col text-sm font-bold text-gray-700">
+        To
+        <Input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="mt-1"
+        />
+      </label>
+      <Button
+        variant="outline"
+        className="flex items-center gap-2"
+        disabled={!isValidRange}
+        onClick={() => fromDate && toDate && onExportCsv(fromDate, toDate)}
+      >
+        <Download size={16} />
+        Export CSV
+      </Button>
+      <Button
+        variant="outline"
+        className="flex items-center gap-2"
+        disabled={!isValidRange}
+        onClick={() => fromDate && toDate && onExportCalendar(fromDate, toDate)}
+      >
+        <CalendarDays size={16} />
+        Export .ics
+      </Button>
+    </div>
+  );
+}
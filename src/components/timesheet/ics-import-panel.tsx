@@ -0,0 +1,186 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  buildIcsImportRows,
+  type IcsEvent,
+  type IcsImportRow,
+} from "@/lib/timesheet/ical";
+import type { DayEntry, Job } from "@/lib/timesheet/types";
+import { parseDateKey, toDateKey } from "@/lib/timesheet/week";
+
+interface IcsImportPanelProps {
+  fileName: string;
+  events: IcsEvent[];
+  jobs: Job[];
+  defaultFrom: Date;
+  defaultTo: Date;
+  loadDays: (from: Date, to: Date) => DayEntry[]; // Checked for duplicates
+  onImport: (rows: IcsImportRow[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 100;
+
+export default function IcsImportPanel({
+  fileName,
+  events,
+  jobs,
+  defaultFrom,
+  defaultTo,
+  loadDays,
+  onImport,
+  onCancel,
+}: IcsImportPanelProps) {
+  const [from, setFrom] = useState(toDateKey(defaultFrom));
+  const [to, setTo] = useState(toDateKey(defaultTo));
+  const [keyword, setKeyword] = useState("");
+
+  const rows = useMemo(() => {
+    const fromDate = parseDateKey(from);
+    const toDate = parseDateKey(to);
+    return fromDate && toDate && fromDate <= toDate
+      ? buildIcsImportRows(
+          events,
+          { from: fromDate, to: toDate, keyword },
+          loadDays(fromDate, toDate),
+          jobs,
+        )
+      : [];
+  }, [events, from, to, keyword, jobs, loadDays]);
+  const newRows = rows.filter((row) => row.entry && !row.duplicate);
+  const duplicateCount = rows.filter((row) => row.duplicate).length;
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Import Calendar: {fileName}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="flex flex-col text-sm font-bold text-gray-700">
+            Events From
+            <Input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="mt-1"
+            />
+          </label>
+          <label className="flex flex-col text-sm font-bold text-gray-700">
+            To
+            <Input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="mt-1"
+            />
+          </label>
+          <label className="flex flex-col text-sm font-bold text-gray-700">
+            Title or Keyword
+            <Input
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              placeholder="All events"
+              className="mt-1"
+            />
+          </label>
+        </div>
+        <p className="text-sm text-gray-600">
+          {newRows.length} event(s) ready to import
+          {duplicateCount > 0 &&
+            `, ${duplicateCount} already in the timesheet will be skipped`}
+          {invalidCount > 0 &&
+            `, ${invalidCount} that can't be imported will be skipped`}
+          . Events are added to the entries of the day they start on, and an
+          event titled like a job is assigned to it.
+        </p>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            None of the {events.length} event(s) in the file fall in this range
+            {keyword.trim() && " and match the keyword"}.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                <TableRow
+                  key={row.key}
+                  className={
+                    row.errors.length > 0
+                      ? "bg-red-50"
+                      : row.duplicate
+                        ? "bg-gray-50"
+                        : undefined
+                  }
+                >
+                  <TableCell>{toDateKey(row.date)}</TableCell>
+                  <TableCell>
+                    {row.entry
+                      ? `${row.entry.startTime} - ${row.entry.endTime}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="whitespace-normal">
+                    {row.summary}
+                  </TableCell>
+                  <TableCell className="whitespace-normal">
+                    {row.errors.length > 0 ? (
+                      <span className="text-red-600">
+                        {row.errors.join("; ")}
+                      </span>
+                    ) : row.duplicate ? (
+                      <span className="text-gray-500">Duplicate</span>
+                    ) : (
+                      <span className="text-green-700">OK</span>
+                    )}
+                    {row.warnings.length > 0 && (
+                      <div className="text-xs text-amber-700">
+                        {row.warnings.join("; ")}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {rows.length > PREVIEW_LIMIT && (
+          <p className="text-sm text-gray-500">
+            Showing the first {PREVIEW_LIMIT} of {rows.length} events.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Button
+            onClick={() => onImport(newRows)}
+            disabled={newRows.length === 0}
+          >
+            Import {newRows.length} Event(s)
+          </Button>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useRef } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  CalendarPlus,
+  Download,
+  Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { parseCsv } from "@/lib/timesheet/csv";
+import { parseIcs, type IcsEvent } from "@/lib/timesheet/ical";
+import { parseBackup, type TimesheetBackup } from "@/lib/timesheet/backup";
+import {
+  TimesheetDataError,
+  describeDataError,
+  parsePeriodExport,
+  type PeriodExport,
+} from "@/lib/timesheet/schema";
+
+interface ImportExportButtonsProps {
+  onImportJson: (data: PeriodExport) => void;
+  onExportJson: () => void;
+  onCsvSelect: (fileName: string, rows: string[][]) => void;
+  onIcsSelect: (fileName: string, events: IcsEvent[]) => void;
+  onBackupSelect: (fileName: string, backup: TimesheetBackup) => void;
+  onDownloadBackup: () => void;
+}
+
+// Read the file picked in a file input as text, then reset the input so the
+// same file can be picked again
+const readSelectedFile = (
+  event: React.ChangeEvent<HTMLInputElement>,
+  onLoad: (text: string, fileName: string) => void,
+) => {
+  const input = event.target;
+  const file = input.files?.[0];
+  if (!file) return;
+
+  const reader = new FileReader();
+  reader.onload = (e) => {
+    onLoad(e.target?.result as string, file.name);
+    input.value = "";
+  };
+  reader.readAsText(file);
+};
+
+// The JSON, CSV, calendar and backup file buttons. Picked files are read and
+// checked here, and what they hold is passed on to be previewed or imported.
+export default function ImportExportButtons({
+  onImportJson,
+  onExportJson,
+  onCsvSelect,
+  onIcsSelect,
+  onBackupSelect,
+  onDownloadBackup,
+}: ImportExportButtonsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const icsInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  const importJSON = () => {
+    const confirmImport = window.confirm(
+      "Do you want to import a JSON file? Its days replace any you entered on the same dates. Other days are kept.",
+    );
+    if (confirmImport) {
+      fileInputRef.current?.click();
+    }
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readSelectedFile(event, (content) => {
+      try {
+        // Validates the file and upgrades older export formats
+        onImportJson(parsePeriodExport(JSON.parse(content)));
+      } catch (error) {
+        console.error("Error importing timesheet:", error);
+        alert(
+          error instanceof TimesheetDataError
+            ? `Failed to import timesheet. ${describeDataError(error)}`
+            : "Failed to import timesheet. Please make sure the file is a valid timesheet JSON export.",
+        );
+      }
+    });
+  };
+
+  const handleCsvFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readSelectedFile(event, (content, fileName) => {
+      const rows = parseCsv(content);
+      if (rows.length === 0) {
+        alert("The selected CSV file has no rows to import.");
+      } else {
+        onCsvSelect(fileName, rows);
+      }
+    });
+  };
+
+  const handleIcsFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readSelectedFile(event, (content, fileName) => {
+      const events = parseIcs(content);
+      if (events.length === 0) {
+        alert("The selected calendar file has no events to import.");
+      } else {
+        onIcsSelect(fileName, events);
+      }
+    });
+  };
+
+  const handleBackupFileSelect = (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    readSelectedFile(event, (content, fileName) => {
+      try {
+        onBackupSelect(fileName, parseBackup(content));
+      } catch (error) {
+        console.error("Error reading backup:", error);
+        alert(
+          error instanceof SyntaxError
+            ? "Failed to read backup. The file is not valid JSON."
+            : error instanceof TimesheetDataError
+              ? `Failed to read backup. ${describeDataError(error)}`
+              : `Failed to read backup. ${(error as Error).message}`,
+        );
+      }
+    });
+  };
+
+  return (
+    <>
+      <input
+        type="file"
+        accept=".json"
+        onChange={handleFileSelect}
+        ref={fileInputRef}
+        className="hidden"
+      />
+      <Button
+        onClick={importJSON}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        <Upload size={16} />
+        Import JSON
+      </Button>
+      <Button
+        onClick={onExportJson}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        <Download size={16} />
+        Export JSON
+      </Button>
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleCsvFileSelect}
+        ref={csvInputRef}
+        className="hidden"
+      />
+      <Button
+        onClick={() => csvInputRef.current?.click()}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        <Upload size={16} />
+        Import CSV
+      </Button>
+      <input
+        type="file"
+        accept=".ics,text/calendar"
+        onChange={handleIcsFileSelect}
+        ref={icsInputRef}
+        className="hidden"
+      />
+      <Button
+        onClick={() => icsInputRef.current?.click()}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        <CalendarPlus size={16} />
+        Import .ics
+      </Button>
+      <input
+        type="file"
+        accept=".json"
+        onChange={handleBackupFileSelect}
+        ref={backupInputRef}
+        className="hidden"
+      />
+      <Button
+        onClick={onDownloadBackup}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        <Archive size={16} />
+        Backup All
+      </Button>
+      <Button
+        onClick={() => backupInputRef.current?.click()}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        <ArchiveRestore size={16} />
+        Restore Backup
+      </Button>
+    </>
+  );
+}
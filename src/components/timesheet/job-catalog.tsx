@@ -0,0 +1,93 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createJob } from "@/lib/timesheet/jobs";
+import type { Job } from "@/lib/timesheet/types";
+
+interface JobCatalogProps {
+  jobs: Job[];
+  defaultRate: number; // New jobs start at the hourly wage
+  onChange: (jobs: Job[]) => void;
+}
+
+export default function JobCatalog({
+  jobs,
+  defaultRate,
+  onChange,
+}: JobCatalogProps) {
+  const updateJob = (jobId: string, changes: Partial<Job>) => {
+    onChange(
+      jobs.map((job) => (job.id === jobId ? { ...job, ...changes } : job)),
+    );
+  };
+
+  const handleRateChange = (jobId: string, value: string) => {
+    const rate = value === "" ? 0 : parseFloat(value);
+    if (!isNaN(rate) && rate >= 0) {
+      updateJob(jobId, { rate });
+    }
+  };
+
+  const deleteJob = (job: Job) => {
+    if (
+      window.confirm(
+        `Remove "${job.name}"? Entries tagged with it will be paid at the default hourly wage.`,
+      )
+    ) {
+      onChange(jobs.filter(({ id }) => id !== job.id));
+    }
+  };
+
+  return (
+    <div className="flex w-full flex-col items-start gap-2">
+      <span className="text-sm font-extrabold text-gray-700">
+        Jobs &amp; Clients:
+      </span>
+      {jobs.map((job) => (
+        <div key={job.id} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={job.color}
+            onChange={(e) => updateJob(job.id, { color: e.target.value })}
+            className="h-9 w-9 cursor-pointer rounded-md border"
+            aria-label="Job color"
+          />
+          <Input
+            value={job.name}
+            onChange={(e) => updateJob(job.id, { name: e.target.value })}
+            placeholder="Job name"
+            className="w-48"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={job.rate || ""}
+            onChange={(e) => handleRateChange(job.id, e.target.value)}
+            placeholder="Rate"
+            className="w-28"
+            aria-label="Hourly rate"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+            onClick={() => deleteJob(job)}
+          >
+            ×
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...jobs, createJob(jobs, defaultRate)])}
+      >
+        <Plus size={14} />
+        Add Job
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import {
+  formatCurrency,
+  formatHours,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import { findJob, getJobName, type JobTotal } from "@/lib/timesheet/jobs";
+import type { Job } from "@/lib/timesheet/types";
+
+interface JobTotalsProps {
+  totals: JobTotal[];
+  jobs: Job[];
+  showPay: boolean;
+  localeSettings: LocaleSettings;
+  className?: string;
+}
+
+// Hours (and pay) per job, each with the job's color swatch
+export default function JobTotals({
+  totals,
+  jobs,
+  showPay,
+  localeSettings,
+  className,
+}: JobTotalsProps) {
+  if (totals.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={className}>
+      {totals.map((total) => (
+        <li key={total.jobId} className="flex items-center gap-2">
+          <span
+            className="inline-block h-2.5 w-2.5 shrink-0 rounded-full bg-gray-300"
+            style={{ backgroundColor: findJob(jobs, total.jobId)?.color }}
+          />
+          {getJobName(jobs, total.jobId)}:{" "}
+          {formatHours(total.hours, localeSettings)} hours
+          {showPay && ` (${formatCurrency(total.pay, localeSettings)})`}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  formatDate,
+  formatHours,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import {
+  DAY_TYPE_LABELS,
+  DEFAULT_LEAVE_SETTINGS,
+  createHoliday,
+  type AccrualMethod,
+  type Holiday,
+  type LeaveRule,
+  type LeaveSettings as LeaveSettingsValue,
+  type LeaveType,
+  type PtoAccrual,
+  type PtoWeek,
+} from "@/lib/timesheet/leave";
+
+interface LeaveSettingsProps {
+  value: LeaveSettingsValue;
+  ptoLedger: PtoWeek[]; // Through the shown period
+  periodStart: Date; // New holidays start on this date
+  localeSettings: LocaleSettings;
+  onChange: (value: LeaveSettingsValue) => void;
+  onClose: () => void;
+}
+
+const LEDGER_WEEKS = 8;
+
+// Helper to read a non-negative number input, or null when it isn't one
+const parseAmount = (input: string): number | null => {
+  const amount = input === "" ? 0 : parseFloat(input);
+  return !isNaN(amount) && amount >= 0 ? amount : null;
+};
+
+// Edits how each type of leave is paid, PTO accrual and the holidays marked
+// on new pay periods, with the PTO balance of recent weeks
+export default function LeaveSettings({
+  value,
+  ptoLedger,
+  periodStart,
+  localeSettings,
+  onChange,
+  onClose,
+}: LeaveSettingsProps) {
+  const updateRule = (leaveType: LeaveType, changes: Partial<LeaveRule>) => {
+    onChange({
+      ...value,
+      rules: {
+        ...value.rules,
+        [leaveType]: { ...value.rules[leaveType], ...changes },
+      },
+    });
+  };
+
+  const updateAccrual = (changes: Partial<PtoAccrual>) => {
+    onChange({ ...value, accrual: { ...value.accrual, ...changes } });
+  };
+
+  const updateHoliday = (holidayId: string, changes: Partial<Holiday>) => {
+    onChange({
+      ...value,
+      holidays: value.holidays.map((holiday) =>
+        holiday.id === holidayId ? { ...holiday, ...changes } : holiday,
+      ),
+    });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Leave &amp; Holidays</CardTitle>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Hours filled in for a day of leave
+          <Input
+            type="number"
+            min="0"
+            max="24"
+            step="0.25"
+            value={value.defaultHours || ""}
+            onChange={(e) => {
+              const hours = parseAmount(e.target.value);
+              if (hours !== null && hours <= 24) {
+                onChange({ ...value, defaultHours: hours });
+              }
+            }}
+            placeholder="0"
+            className="w-20"
+          />
+        </label>
+
+        <div className="flex flex-col items-start gap-2">
+          <span className="text-sm font-extrabold text-gray-700">
+            Pay Rules:
+          </span>
+          {(Object.keys(value.rules) as LeaveType[]).map((leaveType) => (
+            <div
+              key={leaveType}
+              className="flex flex-wrap items-center gap-2 text-sm text-gray-600"
+            >
+              <span className="w-28">{DAY_TYPE_LABELS[leaveType]}</span>
+              Paid at
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                value={value.rules[leaveType].payMultiplier}
+                onChange={(e) => {
+                  const payMultiplier = parseAmount(e.target.value);
+                  if (payMultiplier !== null) {
+                    updateRule(leaveType, { payMultiplier });
+                  }
+                }}
+                className="w-20"
+                aria-label={`${DAY_TYPE_LABELS[leaveType]} pay multiplier`}
+              />
+              × the hourly wage
+              <label className="ml-2 flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={value.rules[leaveType].countsTowardOvertime}
+                  onChange={(e) =>
+                    updateRule(leaveType, {
+                      countsTowardOvertime: e.target.checked,
+                    })
+                  }
+                />
+                Counts toward overtime
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col items-start gap-2">
+          <label className="flex items-center gap-2 text-sm font-extrabold text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.accrual.enabled}
+              onChange={(e) => updateAccrual({ enabled: e.target.checked })}
+            />
+            Track PTO accrual
+          </label>
+          {value.accrual.enabled && (
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                Accrue
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={value.accrual.rate || ""}
+                  onChange={(e) => {
+                    const rate = parseAmount(e.target.value);
+                    if (rate !== null) {
+                      updateAccrual({ rate });
+                    }
+                  }}
+                  placeholder="0"
+                  className="w-24"
+                />
+                hours
+                <select
+                  value={value.accrual.method}
+                  onChange={(e) =>
+                    updateAccrual({ method: e.target.value as AccrualMethod })
+                  }
+                  className="border-input h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs"
+                  aria-label="Accrual method"
+                >
+                  <option value="per-hour">per hour worked</option>
+                  <option value="per-week">per week</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Starting
+                <Input
+                  type="date"
+                  value={value.accrual.startDate ?? ""}
+                  onChange={(e) =>
+                    updateAccrual({ startDate: e.target.value || null })
+                  }
+                  className="w-40"
+                />
+                with
+                <Input
+                  type="number"
+                  step="0.25"
+                  value={value.accrual.startingBalance || ""}
+                  onChange={(e) => {
+                    const balance =
+                      e.target.value === "" ? 0 : parseFloat(e.target.value);
+                    if (!isNaN(balance)) {
+                      updateAccrual({ startingBalance: balance });
+                    }
+                  }}
+                  placeholder="0"
+                  className="w-20"
+                />
+                hours
+              </label>
+              <label className="flex items-center gap-2">
+                Stop accruing at
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={value.accrual.maxBalance ?? ""}
+                  onChange={(e) => {
+                    const maxBalance = parseAmount(e.target.value);
+                    if (e.target.value === "") {
+                      updateAccrual({ maxBalance: null });
+                    } else if (maxBalance !== null) {
+                      updateAccrual({ maxBalance });
+                    }
+                  }}
+                  placeholder="No cap"
+                  className="w-24"
+                />
+                hours
+              </label>
+            </div>
+          )}
+          {value.accrual.enabled && ptoLedger.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Week Of</TableHead>
+                  <TableHead>Accrued</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead>Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ptoLedger
+                  .slice(-LEDGER_WEEKS)
+                  .reverse()
+                  .map((week) => (
+                    <TableRow key={week.weekStart.getTime()}>
+                      <TableCell>
+                        {formatDate(week.weekStart, localeSettings)}
+                      </TableCell>
+                      <TableCell>
+                        {formatHours(week.accrued, localeSettings)}
+                      </TableCell>
+                      <TableCell>
+                        {formatHours(week.used, localeSettings)}
+                      </TableCell>
+                      <TableCell
+                        className={week.balance < 0 ? "text-red-600" : ""}
+                      >
+                        {formatHours(week.balance, localeSettings)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="flex flex-col items-start gap-2">
+          <span className="text-sm font-extrabold text-gray-700">
+            Holidays:
+          </span>
+          {value.holidays.map((holiday) => (
+            <div
+              key={holiday.id}
+              className="flex items-center gap-2 text-sm text-gray-600"
+            >
+              <Input
+                value={holiday.name}
+                onChange={(e) =>
+                  updateHoliday(holiday.id, { name: e.target.value })
+                }
+                placeholder="Holiday name"
+                className="w-48"
+              />
+              <Input
+                type="date"
+                value={holiday.date}
+                onChange={(e) =>
+                  e.target.value &&
+                  updateHoliday(holiday.id, { date: e.target.value })
+                }
+                className="w-40"
+                aria-label="Holiday date"
+              />
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={holiday.repeatsYearly}
+                  onChange={(e) =>
+                    updateHoliday(holiday.id, {
+                      repeatsYearly: e.target.checked,
+                    })
+                  }
+                />
+                Every year
+              </label>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    holidays: value.holidays.filter(
+                      ({ id }) => id !== holiday.id,
+                    ),
+                  })
+                }
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                onChange({
+                  ...value,
+                  holidays: [...value.holidays, createHoliday(periodStart)],
+                })
+              }
+            >
+              <Plus size={14} />
+              Add Holiday
+            </Button>
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() =>
+                onChange({ ...value, rules: DEFAULT_LEAVE_SETTINGS.rules })
+              }
+            >
+              Reset pay rules
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Holidays are marked when a pay period is first opened. Leave hours are
+          paid but never count as hours worked, and only PTO is taken from the
+          balance.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import {
+  CURRENCY_OPTIONS,
+  DATE_FORMAT_LABELS,
+  LOCALE_OPTIONS,
+  type DateFormat,
+  type HourCycle,
+  type LocaleSettings as LocaleSettingsValue,
+} from "@/lib/timesheet/format";
+
+interface LocaleSettingsProps {
+  value: LocaleSettingsValue;
+  onChange: (value: LocaleSettingsValue) => void;
+}
+
+const selectClassName =
+  "border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+export default function LocaleSettings({
+  value,
+  onChange,
+}: LocaleSettingsProps) {
+  return (
+    <div className="flex flex-col items-start">
+      <label
+        htmlFor="currency"
+        className="mb-1 text-sm font-bold font-extrabold text-gray-700"
+      >
+        Currency &amp; Format:
+      </label>
+      <div className="flex gap-2">
+        <select
+          id="currency"
+          value={value.currency}
+          onChange={(e) => onChange({ ...value, currency: e.target.value })}
+          className={selectClassName}
+        >
+          {CURRENCY_OPTIONS.map((currency) => (
+            <option key={currency} value={currency}>
+              {currency}
+            </option>
+          ))}
+        </select>
+        <select
+          value={value.locale}
+          onChange={(e) => onChange({ ...value, locale: e.target.value })}
+          className={selectClassName}
+          aria-label="Language and number format"
+          title="Language and number format"
+        >
+          {Object.entries(LOCALE_OPTIONS).map(([locale, label]) => (
+            <option key={locale} value={locale}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={value.dateFormat}
+          onChange={(e) =>
+            onChange({ ...value, dateFormat: e.target.value as DateFormat })
+          }
+          className={selectClassName}
+          aria-label="Date format"
+          title="Date format"
+        >
+          {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((format) => (
+            <option key={format} value={format}>
+              {DATE_FORMAT_LABELS[format]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={value.hourCycle}
+          onChange={(e) =>
+            onChange({ ...value, hourCycle: e.target.value as HourCycle })
+          }
+          className={selectClassName}
+          aria-label="Time format"
+          title="Time format"
+        >
+          <option value="12">12-hour</option>
+          <option value="24">24-hour</option>
+        </select>
+      </div>
+    </div>
+  );
+}
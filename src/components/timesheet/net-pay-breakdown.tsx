@@ -0,0 +1,44 @@
+import { formatCurrency, type LocaleSettings } from "@/lib/timesheet/format";
+import type { NetPayEstimate } from "@/lib/timesheet/deductions";
+
+interface NetPayBreakdownProps {
+  estimate: NetPayEstimate;
+  localeSettings: LocaleSettings;
+  className?: string;
+}
+
+// Lists what comes out of gross pay, in the order it's taken, skipping
+// amounts that are zero
+export default function NetPayBreakdown({
+  estimate,
+  localeSettings,
+  className,
+}: NetPayBreakdownProps) {
+  const sections = [
+    { title: "Pre-tax", lines: estimate.preTaxDeductions },
+    { title: "Taxes", lines: estimate.taxes },
+    { title: "Post-tax", lines: estimate.postTaxDeductions },
+  ]
+    .map((section) => ({
+      ...section,
+      lines: section.lines.filter((line) => line.amount > 0),
+    }))
+    .filter((section) => section.lines.length > 0);
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={className}>
+      {sections.map((section) =>
+        section.lines.map((line, index) => (
+          <li key={`${section.title}-${index}`}>
+            {section.title}: {line.label} -
+            {formatCurrency(line.amount, localeSettings)}
+          </li>
+        )),
+      )}
+    </ul>
+  );
+}
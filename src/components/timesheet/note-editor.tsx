@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { StickyNote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatTags, parseTags, type Notes } from "@/lib/timesheet/notes";
+
+interface NoteEditorProps {
+  value: Notes;
+  label: string; // What the note is for, e.g. "Day note"
+  onChange: (value: Notes) => void;
+}
+
+// A note and tags for a time entry or a day, hidden behind a button until
+// there's something to show
+export default function NoteEditor({
+  value,
+  label,
+  onChange,
+}: NoteEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Tags are only parsed once typing is done, so commas and spaces can be
+  // typed. Edits from elsewhere, like an undo, replace the text.
+  const [tagsText, setTagsText] = useState(formatTags(value.tags));
+  const [shownTags, setShownTags] = useState(formatTags(value.tags));
+  if (formatTags(value.tags) !== shownTags) {
+    setShownTags(formatTags(value.tags));
+    setTagsText(formatTags(value.tags));
+  }
+
+  const commitTags = () => {
+    const tags = parseTags(tagsText);
+    setTagsText(formatTags(tags));
+    onChange({ ...value, tags: tags.length > 0 ? tags : undefined });
+  };
+
+  if (!isOpen && !value.note && !value.tags?.length) {
+    return (
+      <Button
+        variant="link"
+        size="sm"
+        className="h-6 px-0 text-xs text-gray-500"
+        onClick={() => setIsOpen(true)}
+      >
+        <StickyNote size={12} />
+        Add {label.toLowerCase()}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        value={value.note ?? ""}
+        onChange={(e) =>
+          onChange({ ...value, note: e.target.value || undefined })
+        }
+        placeholder={label}
+        aria-label={label}
+        className="h-8 min-w-40 flex-1 text-sm"
+      />
+      <Input
+        value={tagsText}
+        onChange={(e) => setTagsText(e.target.value)}
+        onBlur={commitTags}
+        onKeyDown={(e) => e.key === "Enter" && commitTags()}
+        placeholder="Tags, comma separated"
+        aria-label={`${label} tags`}
+        className="h-8 w-44 text-sm"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  OVERTIME_PRESETS,
+  OVERTIME_PRESET_LABELS,
+  type OvertimePreset,
+  type OvertimeRules,
+  type OvertimeSettings as OvertimeSettingsValue,
+} from "@/lib/timesheet/overtime";
+
+interface OvertimeSettingsProps {
+  value: OvertimeSettingsValue;
+  onChange: (value: OvertimeSettingsValue) => void;
+}
+
+type ThresholdField =
+  | "weeklyThreshold"
+  | "dailyOvertimeThreshold"
+  | "dailyDoubleTimeThreshold";
+
+type MultiplierField = "overtimeMultiplier" | "doubleTimeMultiplier";
+
+const THRESHOLD_FIELDS: { field: ThresholdField; label: string }[] = [
+  { field: "weeklyThreshold", label: "Weekly OT after (h)" },
+  { field: "dailyOvertimeThreshold", label: "Daily OT after (h)" },
+  { field: "dailyDoubleTimeThreshold", label: "Daily 2x after (h)" },
+];
+
+const MULTIPLIER_FIELDS: { field: MultiplierField; label: string }[] = [
+  { field: "overtimeMultiplier", label: "OT multiplier" },
+  { field: "doubleTimeMultiplier", label: "Double time multiplier" },
+];
+
+export default function OvertimeSettings({
+  value,
+  onChange,
+}: OvertimeSettingsProps) {
+  const handlePresetChange = (preset: OvertimePreset) => {
+    // Custom starts from whatever rules are currently active
+    onChange({
+      preset,
+      rules: preset === "custom" ? value.rules : OVERTIME_PRESETS[preset],
+    });
+  };
+
+  const updateRules = (rules: Partial<OvertimeRules>) => {
+    onChange({ preset: "custom", rules: { ...value.rules, ...rules } });
+  };
+
+  const handleThresholdChange = (field: ThresholdField, input: string) => {
+    // An empty threshold disables that rule
+    const hours = input === "" ? null : parseFloat(input);
+    if (hours === null || (!isNaN(hours) && hours >= 0)) {
+      updateRules({ [field]: hours });
+    }
+  };
+
+  const handleMultiplierChange = (field: MultiplierField, input: string) => {
+    const multiplier = parseFloat(input);
+    if (!isNaN(multiplier) && multiplier >= 1) {
+      updateRules({ [field]: multiplier });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start">
+      <label
+        htmlFor="overtime-preset"
+        className="mb-1 text-sm font-bold font-extrabold text-gray-700"
+      >
+        Overtime Rules:
+      </label>
+      <select
+        id="overtime-preset"
+        value={value.preset}
+        onChange={(e) => handlePresetChange(e.target.value as OvertimePreset)}
+        className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+      >
+        {(Object.keys(OVERTIME_PRESET_LABELS) as OvertimePreset[]).map(
+          (preset) => (
+            <option key={preset} value={preset}>
+              {OVERTIME_PRESET_LABELS[preset]}
+            </option>
+          ),
+        )}
+      </select>
+      {value.preset === "custom" && (
+        <div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {THRESHOLD_FIELDS.map(({ field, label }) => (
+            <label key={field} className="text-xs text-gray-600">
+              {label}
+              <Input
+                type="number"
+                min="0"
+                step="0.25"
+                placeholder="Off"
+                value={value.rules[field] ?? ""}
+                onChange={(e) => handleThresholdChange(field, e.target.value)}
+                className="mt-1 w-28"
+              />
+            </label>
+          ))}
+          {MULTIPLIER_FIELDS.map(({ field, label }) => (
+            <label key={field} className="text-xs text-gray-600">
+              {label}
+              <Input
+                type="number"
+                min="1"
+                step="0.1"
+                value={value.rules[field]}
+                onChange={(e) => handleMultiplierChange(field, e.target.value)}
+                className="mt-1 w-28"
+              />
+            </label>
+          ))}
+          <label className="flex items-center gap-2 self-end text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={value.rules.seventhDayRule}
+              onChange={(e) =>
+                updateRules({ seventhDayRule: e.target.checked })
+              }
+            />
+            Seventh consecutive day rule
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  MAX_CUSTOM_PERIOD_DAYS,
+  PAY_PERIOD_LABELS,
+  type PayPeriodSettings as PayPeriodSettingsValue,
+  type PayPeriodType,
+} from "@/lib/timesheet/period";
+import { parseDateKey } from "@/lib/timesheet/week";
+
+interface PayPeriodSettingsProps {
+  value: PayPeriodSettingsValue;
+  onChange: (value: PayPeriodSettingsValue) => void;
+}
+
+// Sunday through Saturday, in the order of Date.getDay()
+const WEEKDAY_NAMES = Array.from({ length: 7 }, (_, day) =>
+  new Date(2024, 0, 7 + day).toLocaleDateString("en-US", { weekday: "long" }),
+);
+
+export default function PayPeriodSettings({
+  value,
+  onChange,
+}: PayPeriodSettingsProps) {
+  const usesAnchor = value.type === "biweekly" || value.type === "custom";
+
+  const handleLengthChange = (input: string) => {
+    const days = parseInt(input, 10);
+    if (!isNaN(days) && days >= 1 && days <= MAX_CUSTOM_PERIOD_DAYS) {
+      onChange({ ...value, customLengthDays: days });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start">
+      <label
+        htmlFor="pay-period"
+        className="mb-1 text-sm font-bold font-extrabold text-gray-700"
+      >
+        Pay Period:
+      </label>
+      <div className="flex gap-2">
+        <select
+          id="pay-period"
+          value={value.type}
+          onChange={(e) =>
+            onChange({ ...value, type: e.target.value as PayPeriodType })
+          }
+          className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+        >
+          {(Object.keys(PAY_PERIOD_LABELS) as PayPeriodType[]).map((type) => (
+            <option key={type} value={type}>
+              {PAY_PERIOD_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={value.weekStartDay}
+          onChange={(e) =>
+            onChange({ ...value, weekStartDay: Number(e.target.value) })
+          }
+          className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+          aria-label="Week starts on"
+          title="Week starts on"
+        >
+          {WEEKDAY_NAMES.map((name, day) => (
+            <option key={day} value={day}>
+              Weeks start {name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {usesAnchor && (
+        <div className="mt-2 flex gap-2">
+          <label className="text-xs text-gray-600">
+            A period starts on
+            <Input
+              type="date"
+              value={value.anchorDate}
+              onChange={(e) =>
+                parseDateKey(e.target.value) &&
+                onChange({ ...value, anchorDate: e.target.value })
+              }
+              className="mt-1 w-40"
+            />
+          </label>
+          {value.type === "custom" && (
+            <label className="text-xs text-gray-600">
+              Length (days)
+              <Input
+                type="number"
+                min="1"
+                max={MAX_CUSTOM_PERIOD_DAYS}
+                step="1"
+                value={value.customLengthDays}
+                onChange={(e) => handleLengthChange(e.target.value)}
+                className="mt-1 w-24"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import {
+  ROUNDING_INCREMENTS,
+  ROUNDING_MODE_LABELS,
+  type RoundingMode,
+  type RoundingPolicy,
+  type RoundingTarget,
+} from "@/lib/timesheet/rounding";
+
+interface RoundingSettingsProps {
+  value: RoundingPolicy;
+  onChange: (value: RoundingPolicy) => void;
+}
+
+const selectClassName =
+  "border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+export default function RoundingSettings({
+  value,
+  onChange,
+}: RoundingSettingsProps) {
+  const usesIncrement = value.mode !== "none" && value.mode !== "seven-minute";
+
+  return (
+    <div className="flex flex-col items-start">
+      <label
+        htmlFor="rounding-mode"
+        className="mb-1 text-sm font-bold font-extrabold text-gray-700"
+      >
+        Time Rounding:
+      </label>
+      <div className="flex items-center gap-2">
+        <select
+          id="rounding-mode"
+          value={value.mode}
+          onChange={(e) =>
+            onChange({ ...value, mode: e.target.value as RoundingMode })
+          }
+          className={selectClassName}
+        >
+          {(Object.keys(ROUNDING_MODE_LABELS) as RoundingMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {ROUNDING_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+        {usesIncrement && (
+          <select
+            value={value.increment}
+            onChange={(e) =>
+              onChange({ ...value, increment: Number(e.target.value) })
+            }
+            className={selectClassName}
+            aria-label="Round to the nearest"
+          >
+            {ROUNDING_INCREMENTS.map((increment) => (
+              <option key={increment} value={increment}>
+                {increment} min
+              </option>
+            ))}
+          </select>
+        )}
+        {value.mode !== "none" && (
+          <select
+            value={value.applyTo}
+            onChange={(e) =>
+              onChange({ ...value, applyTo: e.target.value as RoundingTarget })
+            }
+            className={selectClassName}
+            aria-label="Round"
+          >
+            <option value="punch">Each punch</option>
+            <option value="day">Day total</option>
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  createTemplate,
+  type ScheduleTemplate,
+  type TemplateApplyMode,
+  type TemplateSettings,
+} from "@/lib/timesheet/templates";
+import type { DayEntry } from "@/lib/timesheet/types";
+
+interface ScheduleTemplatesProps {
+  value: TemplateSettings;
+  periodData: DayEntry[]; // Saved as a new template
+  onChange: (value: TemplateSettings) => void;
+  onApply: (template: ScheduleTemplate) => void;
+  onClose: () => void;
+}
+
+// Saves the shown period's shifts as named templates and applies them to
+// this or any other period
+export default function ScheduleTemplates({
+  value,
+  periodData,
+  onChange,
+  onApply,
+  onClose,
+}: ScheduleTemplatesProps) {
+  const [newName, setNewName] = useState("");
+
+  const saveTemplate = () => {
+    const template = createTemplate(
+      newName.trim() || `Schedule ${value.templates.length + 1}`,
+      periodData,
+    );
+    if (template.days.length === 0) {
+      alert("Enter some shifts in this period before saving it as a template.");
+      return;
+    }
+    onChange({ ...value, templates: [...value.templates, template] });
+    setNewName("");
+  };
+
+  const renameTemplate = (templateId: string, name: string) => {
+    onChange({
+      ...value,
+      templates: value.templates.map((template) =>
+        template.id === templateId ? { ...template, name } : template,
+      ),
+    });
+  };
+
+  const deleteTemplate = (template: ScheduleTemplate) => {
+    if (window.confirm(`Delete the "${template.name}" template?`)) {
+      onChange({
+        ...value,
+        templates: value.templates.filter(({ id }) => id !== template.id),
+        defaultTemplateId:
+          value.defaultTemplateId === template.id
+            ? null
+            : value.defaultTemplateId,
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Schedule Templates</CardTitle>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Applying a template or last week:
+            <select
+              value={value.applyMode}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  applyMode: e.target.value as TemplateApplyMode,
+                })
+              }
+              className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              <option value="merge">Fills days with nothing entered</option>
+              <option value="replace">Replaces every day</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            New periods start from:
+            <select
+              value={value.defaultTemplateId ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  defaultTemplateId: e.target.value || null,
+                })
+              }
+              className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              <option value="">Empty days</option>
+              {value.templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {value.templates.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No templates yet. Enter a typical week, then save it here.
+          </p>
+        )}
+        {value.templates.map((template) => (
+          <div key={template.id} className="flex items-center gap-2">
+            <Input
+              value={template.name}
+              onChange={(e) => renameTemplate(template.id, e.target.value)}
+              placeholder="Template name"
+              className="w-56"
+            />
+            <span className="w-20 text-sm text-gray-500">
+              {template.days.length} day{template.days.length === 1 ? "" : "s"}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onApply(template)}
+            >
+              Apply
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+              onClick={() => deleteTemplate(template)}
+              aria-label="Delete template"
+            >
+              ×
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Standard M-F 9-5"
+            className="w-56"
+          />
+          <Button variant="outline" size="sm" onClick={saveTemplate}>
+            <Save size={14} />
+            Save This Period
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface SharePanelProps {
+  periodLabel: string; // e.g. "Weekly"
+  hasPay: boolean; // Whether there's a wage or job rate to leave out
+  createLink: (includePay: boolean) => Promise<string>;
+  onClose: () => void;
+}
+
+// Makes a read-only link to the shown period. The period is carried in the
+// link itself, so nothing is uploaded.
+export default function SharePanel({
+  periodLabel,
+  hasPay,
+  createLink,
+  onClose,
+}: SharePanelProps) {
+  const [includePay, setIncludePay] = useState(false);
+  const [link, setLink] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const createAndCopy = async () => {
+    const url = await createLink(hasPay && includePay);
+    setLink(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Some browsers refuse clipboard access; the link can be copied by hand
+      setCopied(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Share {periodLabel} Timesheet</CardTitle>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Anyone with the link can see this period&apos;s entries, notes and
+          totals. The link holds the timesheet itself, so later edits
+          aren&apos;t included - share again after changing it.
+        </p>
+        {hasPay && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={includePay}
+              onChange={(e) => {
+                setIncludePay(e.target.checked);
+                setLink("");
+              }}
+            />
+            Include hourly wage, job rates and earnings
+          </label>
+        )}
+        <Button
+          onClick={() => void createAndCopy()}
+          className="flex items-center gap-2"
+        >
+          <Link2 size={16} />
+          Copy Link
+        </Button>
+        {link && (
+          <div className="space-y-1">
+            <Input
+              value={link}
+              readOnly
+              onFocus={(e) => e.target.select()}
+              aria-label="Share link"
+            />
+            <p className="text-xs text-gray-500">
+              {copied
+                ? "Copied to the clipboard."
+                : "Copy the link above to share it."}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDateTime, type LocaleSettings } from "@/lib/timesheet/format";
+import type { SyncStatus } from "@/lib/timesheet/sync";
+
+interface SyncControlsProps {
+  status: SyncStatus;
+  signedIn: boolean;
+  localeSettings: LocaleSettings;
+  onToggle: () => void;
+  onSyncNow: () => void;
+}
+
+const describeStatus = (
+  status: SyncStatus,
+  localeSettings: LocaleSettings,
+): string => {
+  if (status.syncing) return "Syncing...";
+  if (status.error) return status.error;
+  if (status.lastSyncedAt) {
+    return `Synced ${formatDateTime(new Date(status.lastSyncedAt), localeSettings)}`;
+  }
+  return "Not synced yet";
+};
+
+// Turns server sync on or off and shows how the last sync went
+export default function SyncControls({
+  status,
+  signedIn,
+  localeSettings,
+  onToggle,
+  onSyncNow,
+}: SyncControlsProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        onClick={onToggle}
+        variant="outline"
+        className="flex items-center gap-2"
+        disabled={!signedIn && !status.enabled}
+        title={
+          status.enabled
+            ? "Stop syncing and keep data in this browser only"
+            : signedIn
+              ? "Save your timesheet on the server and sync it across devices"
+              : "Sign in to sync your timesheet across devices"
+        }
+      >
+        {status.enabled ? <Cloud size={16} /> : <CloudOff size={16} />}
+        {status.enabled ? "Sync On" : "Sync Off"}
+      </Button>
+      {status.enabled && (
+        <>
+          <Button
+            onClick={onSyncNow}
+            variant="outline"
+            size="sm"
+            className="h-8 w-8"
+            disabled={status.syncing}
+            aria-label="Sync now"
+          >
+            <RefreshCw size={14} />
+          </Button>
+          <span
+            className={
+              status.error ? "text-sm text-red-600" : "text-sm text-gray-500"
+            }
+          >
+            {describeStatus(status, localeSettings)}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  formatCurrency,
+  formatHours,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import type { HoursSettings } from "@/lib/timesheet/hours";
+import type { LeaveRule, LeaveType } from "@/lib/timesheet/leave";
+import type { OvertimeRules } from "@/lib/timesheet/overtime";
+import {
+  REPORT_GRANULARITY_LABELS,
+  buildReportDays,
+  buildReportRows,
+  buildReportWeekRows,
+  buildYearToDate,
+  type ReportGranularity,
+  type ReportRow,
+} from "@/lib/timesheet/reports";
+import { loadAllStoredDays } from "@/lib/timesheet/storage";
+import type { DayEntry, Job } from "@/lib/timesheet/types";
+import { toDateKey } from "@/lib/timesheet/week";
+
+interface TimesheetReportsProps {
+  periodData: DayEntry[]; // The period being edited, newer than what's stored
+  hoursSettings: HoursSettings;
+  rules: OvertimeRules;
+  jobs: Job[];
+  hourlyWage: number;
+  weekStartDay: number;
+  leaveRules: Record<LeaveType, LeaveRule>;
+  showPay: boolean;
+  localeSettings: LocaleSettings;
+  onOpenWeek: (weekStart: Date) => void;
+  onClose: () => void;
+}
+
+const ReportCells = ({
+  row,
+  showPay,
+  localeSettings,
+}: {
+  row: ReportRow;
+  showPay: boolean;
+  localeSettings: LocaleSettings;
+}) => (
+  <>
+    <TableCell>{row.daysWorked}</TableCell>
+    <TableCell>{formatHours(row.hours, localeSettings)}</TableCell>
+    <TableCell>{formatHours(row.averageHoursPerDay, localeSettings)}</TableCell>
+    <TableCell>
+      {formatHours(row.averageHoursPerWeek, localeSettings)}
+    </TableCell>
+    <TableCell>
+      {formatHours(
+        row.earnings.overtimeHours + row.earnings.doubleTimeHours,
+        localeSettings,
+      )}
+    </TableCell>
+    {showPay && (
+      <TableCell>
+        {formatCurrency(row.earnings.totalPay, localeSettings)}
+      </TableCell>
+    )}
+  </>
+);
+
+// Hours and earnings across every stored pay period, grouped by month,
+// quarter or year, with a drill-down into the weeks of each row
+export default function TimesheetReports({
+  periodData,
+  hoursSettings,
+  rules,
+  jobs,
+  hourlyWage,
+  weekStartDay,
+  leaveRules,
+  showPay,
+  localeSettings,
+  onOpenWeek,
+  onClose,
+}: TimesheetReportsProps) {
+  const [granularity, setGranularity] = useState<ReportGranularity>("month");
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  // Other periods can't change while the reports are open, so they're only
+  // read once
+  const storedDays = useMemo(() => loadAllStoredDays(), []);
+  const days = useMemo(() => {
+    const currentDates = new Set(periodData.map((day) => toDateKey(day.date)));
+    const otherDays = storedDays.filter(
+      (day) => !currentDates.has(toDateKey(day.date)),
+    );
+    return buildReportDays(
+      [...otherDays, ...periodData].sort(
+        (a, b) => a.date.getTime() - b.date.getTime(),
+      ),
+      hoursSettings,
+      rules,
+      jobs,
+      hourlyWage,
+      weekStartDay,
+      leaveRules,
+    );
+  }, [
+    storedDays,
+    periodData,
+    hoursSettings,
+    rules,
+    jobs,
+    hourlyWage,
+    weekStartDay,
+    leaveRules,
+  ]);
+
+  const rows = buildReportRows(days, granularity, weekStartDay, localeSettings);
+  const yearToDate = buildYearToDate(days, new Date(), weekStartDay);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Reports</CardTitle>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-700">
+          <span className="font-semibold">{yearToDate.label}:</span>{" "}
+          {formatHours(yearToDate.hours, localeSettings)} hours over{" "}
+          {yearToDate.daysWorked} day(s)
+          {showPay &&
+            `, ${formatCurrency(yearToDate.earnings.totalPay, localeSettings)}`}
+          {yearToDate.daysWorked > 0 &&
+            ` (average ${formatHours(yearToDate.averageHoursPerDay, localeSettings)} hours per day, ${formatHours(yearToDate.averageHoursPerWeek, localeSettings)} per week)`}
+        </p>
+        <div className="flex gap-2">
+          {(Object.keys(REPORT_GRANULARITY_LABELS) as ReportGranularity[]).map(
+            (option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === granularity ? "default" : "outline"}
+                onClick={() => {
+                  setGranularity(option);
+                  setExpandedKey(null);
+                }}
+              >
+                {REPORT_GRANULARITY_LABELS[option]}
+              </Button>
+            ),
+          )}
+        </div>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No hours recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Days worked</TableHead>
+                <TableHead>Hours</TableHead>
+                <TableHead>Avg/day</TableHead>
+                <TableHead>Avg/week</TableHead>
+                <TableHead>OT hours</TableHead>
+                {showPay && <TableHead>Earnings</TableHead>}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <Fragment key={row.key}>
+                  <TableRow>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    <ReportCells
+                      row={row}
+                      showPay={showPay}
+                      localeSettings={localeSettings}
+                    />
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setExpandedKey(
+                            expandedKey === row.key ? null : row.key,
+                          )
+                        }
+                      >
+                        {expandedKey === row.key ? "Hide weeks" : "Weeks"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expandedKey === row.key &&
+                    buildReportWeekRows(
+                      days,
+                      row,
+                      weekStartDay,
+                      localeSettings,
+                    ).map((week) => (
+                      <TableRow key={week.key} className="bg-gray-50">
+                        <TableCell className="pl-6">{week.label}</TableCell>
+                        <ReportCells
+                          row={week}
+                          showPay={showPay}
+                          localeSettings={localeSettings}
+                        />
+                        <TableCell>
+                          <Button
+                            variant="link"
+                            size="sm"
+                            onClick={() => onOpenWeek(week.start)}
+                          >
+                            Open
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
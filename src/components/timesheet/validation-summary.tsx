@@ -0,0 +1,53 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import {
+  formatDate,
+  formatWeekday,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import type { DayIssues } from "@/lib/timesheet/validation";
+
+interface ValidationSummaryProps {
+  periodIssues: DayIssues[];
+  periodLabel: string;
+  localeSettings: LocaleSettings;
+}
+
+// Lists every entry in the period that may be counted wrong
+export default function ValidationSummary({
+  periodIssues,
+  periodLabel,
+  localeSettings,
+}: ValidationSummaryProps) {
+  if (periodIssues.length === 0) {
+    return null;
+  }
+  const count = periodIssues.reduce(
+    (total, { issues }) => total + issues.length,
+    0,
+  );
+
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+      <div className="flex items-center gap-2 font-semibold">
+        <TriangleAlert size={16} />
+        {count} {count === 1 ? "problem" : "problems"} may make the{" "}
+        {periodLabel.toLowerCase()} total wrong
+      </div>
+      <ul className="mt-1 list-disc pl-6">
+        {periodIssues.map(({ date, issues }) => (
+          <li key={date.getTime()}>
+            {formatWeekday(date, localeSettings)}{" "}
+            {formatDate(date, localeSettings, false)}:{" "}
+            {issues
+              .map(
+                (issue) => `entry ${issue.entryIndex + 1} - ${issue.message}`,
+              )
+              .join("; ")}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
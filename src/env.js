@@ -8,6 +8,16 @@ export const env = createEnv({
    */
   server: {
     NODE_ENV: z.enum(["development", "test", "production"]),
+    // SQLite file that stores synced timesheets, relative to the project root
+    TIMESHEET_DB_PATH: z.string().default("./db.sqlite"),
+    // Signs session cookies. Changing it signs everyone out. Without it,
+    // accounts and server sync are turned off and timesheets stay in the
+    // browser.
+    SESSION_SECRET: z.string().min(32).optional(),
+    // Proxies in front of the app that add the client's address to
+    // X-Forwarded-For. Sign-in attempts are only limited per address when
+    // this is set, since anyone can send the header themselves.
+    TRUSTED_PROXIES: z.coerce.number().int().min(0).default(0),
   },
 
   /**
@@ -25,6 +35,9 @@ export const env = createEnv({
    */
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
+    TIMESHEET_DB_PATH: process.env.TIMESHEET_DB_PATH,
+    SESSION_SECRET: process.env.SESSION_SECRET,
+    TRUSTED_PROXIES: process.env.TRUSTED_PROXIES,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
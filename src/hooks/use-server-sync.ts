@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Account } from "@/lib/auth";
+import { openDeviceStorage } from "@/lib/timesheet/indexed-db";
+import { getDeviceStorage, setStorageAdapter } from "@/lib/timesheet/storage";
+import {
+  SignedOutError,
+  createServerStorageAdapter,
+  disableServerSync,
+  enableServerSync,
+  loadSyncState,
+  syncWithServer,
+  type SyncStatus,
+} from "@/lib/timesheet/sync";
+
+// Opens the device's storage, then keeps it in sync with the server while
+// sync is on for `account`. `onStorageOpen` runs once storage can be read and
+// `onRemoteChange` whenever a sync brings in changes from another device.
+// Both should never change.
+export function useServerSync(
+  account: Account | null,
+  onStorageOpen: () => void,
+  onRemoteChange: () => void,
+) {
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({
+    enabled: false,
+    syncing: false,
+    lastSyncedAt: null,
+    error: null,
+  });
+  // A sync asked for while one is running starts once it finishes
+  const syncRunningRef = useRef(false);
+  const syncAgainRef = useRef(false);
+  const syncTimerRef = useRef<number | undefined>(undefined);
+
+  // Send and receive changes, then reload anything another device changed
+  const runSync = useCallback(async () => {
+    if (syncRunningRef.current) {
+      syncAgainRef.current = true;
+      return;
+    }
+    syncRunningRef.current = true;
+    do {
+      syncAgainRef.current = false;
+      setSyncStatus((prev) => ({ ...prev, syncing: true }));
+      try {
+        const changedKeys = await syncWithServer();
+        if (changedKeys.length > 0) {
+          onRemoteChange();
+        }
+        setSyncStatus((prev) => ({
+          ...prev,
+          syncing: false,
+          lastSyncedAt: loadSyncState().lastSyncedAt,
+          error: null,
+        }));
+      } catch (error) {
+        console.error("Error syncing with the server:", error);
+        setSyncStatus((prev) => ({
+          ...prev,
+          syncing: false,
+          error:
+            error instanceof SignedOutError
+              ? "Signed out - sign in again to sync"
+              : "Offline - changes will sync later",
+        }));
+      }
+    } while (syncAgainRef.current);
+    syncRunningRef.current = false;
+  }, [onRemoteChange]);
+
+  // Edits come in bursts while typing, so wait for a pause before syncing
+  const scheduleSync = useCallback(() => {
+    window.clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = window.setTimeout(() => void runSync(), 2000);
+  }, [runSync]);
+
+  const startServerSync = useCallback(() => {
+    setStorageAdapter(createServerStorageAdapter(scheduleSync));
+    setSyncStatus((prev) => ({
+      ...prev,
+      enabled: true,
+      lastSyncedAt: loadSyncState().lastSyncedAt,
+    }));
+    void runSync();
+  }, [scheduleSync, runSync]);
+
+  const handleSyncToggle = () => {
+    if (syncStatus.enabled) {
+      window.clearTimeout(syncTimerRef.current);
+      disableServerSync();
+      setStorageAdapter(getDeviceStorage());
+      setSyncStatus((prev) => ({ ...prev, enabled: false, error: null }));
+    } else if (account) {
+      enableServerSync(account.id);
+      startServerSync();
+    }
+  };
+
+  // Open storage on mount and when the signed-in account changes
+  const accountId = account?.id;
+  useEffect(() => {
+    void openDeviceStorage().then(() => {
+      // Signing in turns sync on. After that it stays the way the account
+      // left it in this browser.
+      if (accountId) {
+        const syncState = loadSyncState();
+        if (syncState.userId !== accountId) {
+          enableServerSync(accountId);
+          startServerSync();
+        } else if (syncState.enabled) {
+          startServerSync();
+        }
+      }
+      onStorageOpen();
+    });
+  }, [accountId, onStorageOpen, startServerSync]);
+
+  // Pick up changes from other devices when coming back to the tab
+  useEffect(() => {
+    if (!syncStatus.enabled) return;
+    const handleFocus = () => void runSync();
+    window.addEventListener("focus", handleFocus);
+    window.addEventListener("online", handleFocus);
+    return () => {
+      window.removeEventListener("focus", handleFocus);
+      window.removeEventListener("online", handleFocus);
+    };
+  }, [syncStatus.enabled, runSync]);
+
+  return { syncStatus, runSync, handleSyncToggle };
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import { DEFAULT_AUTO_BREAK_RULE } from "@/lib/timesheet/hours";
+import {
+  DEFAULT_LOCALE_SETTINGS,
+  type LocaleSettings,
+} from "@/lib/timesheet/format";
+import {
+  DEFAULT_OVERTIME_SETTINGS,
+  type OvertimeSettings,
+} from "@/lib/timesheet/overtime";
+import type { AutoBreakRule, Job, OvernightMode } from "@/lib/timesheet/types";
+import {
+  activeClockSchema,
+  autoBreakRuleSchema,
+  deductionProfileSchema,
+  documentDetailsSchema,
+  jobsSchema,
+  leaveSettingsSchema,
+  localeSettingsSchema,
+  overtimeSettingsSchema,
+  parseStoredSetting,
+  payPeriodSettingsSchema,
+  roundingPolicySchema,
+  templateSettingsSchema,
+} from "@/lib/timesheet/schema";
+import {
+  AUTO_BREAK_KEY,
+  CLOCK_KEY,
+  DEDUCTIONS_KEY,
+  DOCUMENT_KEY,
+  JOBS_KEY,
+  LEAVE_KEY,
+  LOCALE_KEY,
+  OVERNIGHT_KEY,
+  OVERTIME_KEY,
+  PAY_PERIOD_KEY,
+  ROUNDING_KEY,
+  TEMPLATES_KEY,
+  WAGE_KEY,
+  getLocalStorage,
+  migrateStoredKeys,
+  removeLocalStorage,
+  setLocalStorage,
+} from "@/lib/timesheet/storage";
+import {
+  DEFAULT_PAY_PERIOD_SETTINGS,
+  getPeriodStart,
+  type PayPeriodSettings,
+} from "@/lib/timesheet/period";
+import type { ActiveClock } from "@/lib/timesheet/clock";
+import {
+  DEFAULT_DEDUCTION_PROFILE,
+  type DeductionProfile,
+} from "@/lib/timesheet/deductions";
+import {
+  DEFAULT_DOCUMENT_DETAILS,
+  type DocumentDetails,
+} from "@/lib/timesheet/documents";
+import {
+  DEFAULT_TEMPLATE_SETTINGS,
+  type TemplateSettings,
+} from "@/lib/timesheet/templates";
+import {
+  DEFAULT_ROUNDING_POLICY,
+  type RoundingPolicy,
+} from "@/lib/timesheet/rounding";
+import {
+  DEFAULT_LEAVE_SETTINGS,
+  type LeaveSettings,
+} from "@/lib/timesheet/leave";
+import { resetStoredSettings } from "@/lib/timesheet/settings";
+
+// The wage and every setting of the timesheet page, kept in storage. Loading
+// them also moves `setPeriodStart` onto the saved pay period.
+export function useTimesheetSettings(
+  setPeriodStart: Dispatch<SetStateAction<Date>>,
+) {
+  const [hasLoadedSettings, setHasLoadedSettings] = useState(false);
+  const [payPeriod, setPayPeriod] = useState<PayPeriodSettings>(
+    DEFAULT_PAY_PERIOD_SETTINGS,
+  );
+  const [hourlyWage, setHourlyWage] = useState<number>(0);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [overnightMode, setOvernightMode] =
+    useState<OvernightMode>("start-day");
+  const [autoBreakRule, setAutoBreakRule] = useState<AutoBreakRule>(
+    DEFAULT_AUTO_BREAK_RULE,
+  );
+  const [roundingPolicy, setRoundingPolicy] = useState<RoundingPolicy>(
+    DEFAULT_ROUNDING_POLICY,
+  );
+  const [overtimeSettings, setOvertimeSettings] = useState<OvertimeSettings>(
+    DEFAULT_OVERTIME_SETTINGS,
+  );
+  const [activeClock, setActiveClock] = useState<ActiveClock | null>(null);
+  const [deductionProfile, setDeductionProfile] = useState<DeductionProfile>(
+    DEFAULT_DEDUCTION_PROFILE,
+  );
+  const [documentDetails, setDocumentDetails] = useState<DocumentDetails>(
+    DEFAULT_DOCUMENT_DETAILS,
+  );
+  const [templateSettings, setTemplateSettings] = useState<TemplateSettings>(
+    DEFAULT_TEMPLATE_SETTINGS,
+  );
+  const [leaveSettings, setLeaveSettings] = useState<LeaveSettings>(
+    DEFAULT_LEAVE_SETTINGS,
+  );
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(
+    DEFAULT_LOCALE_SETTINGS,
+  );
+
+  // Load the hourly wage and settings from storage, falling back to
+  // defaults for anything that isn't stored. Only state setters are used, so
+  // it never changes.
+  const loadSavedSettings = useCallback(() => {
+    const savedWage = getLocalStorage(WAGE_KEY);
+    setHourlyWage(savedWage ? parseFloat(savedWage) : 0);
+    const savedOvernightMode = getLocalStorage(OVERNIGHT_KEY);
+    setOvernightMode(
+      savedOvernightMode === "split" ? savedOvernightMode : "start-day",
+    );
+    setOvertimeSettings(
+      parseStoredSetting(
+        getLocalStorage(OVERTIME_KEY),
+        overtimeSettingsSchema,
+      ) ?? DEFAULT_OVERTIME_SETTINGS,
+    );
+    setAutoBreakRule(
+      parseStoredSetting(
+        getLocalStorage(AUTO_BREAK_KEY),
+        autoBreakRuleSchema,
+      ) ?? DEFAULT_AUTO_BREAK_RULE,
+    );
+    setRoundingPolicy(
+      parseStoredSetting(getLocalStorage(ROUNDING_KEY), roundingPolicySchema) ??
+        DEFAULT_ROUNDING_POLICY,
+    );
+    setJobs(parseStoredSetting(getLocalStorage(JOBS_KEY), jobsSchema) ?? []);
+    setLocaleSettings(
+      parseStoredSetting(getLocalStorage(LOCALE_KEY), localeSettingsSchema) ??
+        DEFAULT_LOCALE_SETTINGS,
+    );
+    setDocumentDetails(
+      parseStoredSetting(
+        getLocalStorage(DOCUMENT_KEY),
+        documentDetailsSchema,
+      ) ?? DEFAULT_DOCUMENT_DETAILS,
+    );
+    setTemplateSettings(
+      parseStoredSetting(
+        getLocalStorage(TEMPLATES_KEY),
+        templateSettingsSchema,
+      ) ?? DEFAULT_TEMPLATE_SETTINGS,
+    );
+    setDeductionProfile(
+      parseStoredSetting(
+        getLocalStorage(DEDUCTIONS_KEY),
+        deductionProfileSchema,
+      ) ?? DEFAULT_DEDUCTION_PROFILE,
+    );
+    setLeaveSettings(
+      parseStoredSetting(getLocalStorage(LEAVE_KEY), leaveSettingsSchema) ??
+        DEFAULT_LEAVE_SETTINGS,
+    );
+    const savedPayPeriod =
+      parseStoredSetting(
+        getLocalStorage(PAY_PERIOD_KEY),
+        payPeriodSettingsSchema,
+      ) ?? DEFAULT_PAY_PERIOD_SETTINGS;
+    migrateStoredKeys(savedPayPeriod);
+    setPayPeriod(savedPayPeriod);
+    setActiveClock(
+      parseStoredSetting(getLocalStorage(CLOCK_KEY), activeClockSchema),
+    );
+    // Always a new Date object, so the load effect re-reads the period
+    setPeriodStart((prevPeriodStart) =>
+      getPeriodStart(prevPeriodStart, savedPayPeriod),
+    );
+  }, [setPeriodStart]);
+
+  // Settings aren't saved until they're first loaded, so the defaults of the
+  // first render never overwrite what's stored
+  const loadInitialSettings = useCallback(() => {
+    loadSavedSettings();
+    setHasLoadedSettings(true);
+  }, [loadSavedSettings]);
+
+  // The running clock is saved as soon as it changes, so it survives reloads
+  const saveActiveClock = (clock: ActiveClock | null) => {
+    setActiveClock(clock);
+    if (clock) {
+      setLocalStorage(CLOCK_KEY, JSON.stringify(clock));
+    } else {
+      removeLocalStorage(CLOCK_KEY);
+    }
+  };
+
+  // Back to the defaults, read from storage once they're written there so
+  // the state and what's stored agree
+  const resetSettings = () => {
+    resetStoredSettings();
+    loadSavedSettings();
+  };
+
+  // Save wage to storage when it changes
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(WAGE_KEY, hourlyWage.toString());
+  }, [hourlyWage, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(OVERNIGHT_KEY, overnightMode);
+  }, [overnightMode, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(OVERTIME_KEY, JSON.stringify(overtimeSettings));
+  }, [overtimeSettings, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(AUTO_BREAK_KEY, JSON.stringify(autoBreakRule));
+  }, [autoBreakRule, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(ROUNDING_KEY, JSON.stringify(roundingPolicy));
+  }, [roundingPolicy, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(JOBS_KEY, JSON.stringify(jobs));
+  }, [jobs, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(PAY_PERIOD_KEY, JSON.stringify(payPeriod));
+  }, [payPeriod, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(DEDUCTIONS_KEY, JSON.stringify(deductionProfile));
+  }, [deductionProfile, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(LOCALE_KEY, JSON.stringify(localeSettings));
+  }, [localeSettings, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(DOCUMENT_KEY, JSON.stringify(documentDetails));
+  }, [documentDetails, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(TEMPLATES_KEY, JSON.stringify(templateSettings));
+  }, [templateSettings, hasLoadedSettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    setLocalStorage(LEAVE_KEY, JSON.stringify(leaveSettings));
+  }, [leaveSettings, hasLoadedSettings]);
+
+  return {
+    hasLoadedSettings,
+    loadSavedSettings,
+    loadInitialSettings,
+    resetSettings,
+    payPeriod,
+    setPayPeriod,
+    hourlyWage,
+    setHourlyWage,
+    jobs,
+    setJobs,
+    overnightMode,
+    setOvernightMode,
+    autoBreakRule,
+    setAutoBreakRule,
+    roundingPolicy,
+    setRoundingPolicy,
+    overtimeSettings,
+    setOvertimeSettings,
+    activeClock,
+    saveActiveClock,
+    deductionProfile,
+    setDeductionProfile,
+    documentDetails,
+    setDocumentDetails,
+    templateSettings,
+    setTemplateSettings,
+    leaveSettings,
+    setLeaveSettings,
+    localeSettings,
+    setLocaleSettings,
+  };
+}
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+// The signed-in user, as the pages see it
+export interface Account {
+  id: string;
+  email: string;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const credentialsSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: z
+    .string()
+    .min(
+      MIN_PASSWORD_LENGTH,
+      `Use at least ${MIN_PASSWORD_LENGTH} characters for your password`,
+    ),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACKUP_KIND,
+  BACKUP_VERSION,
+  parseBackup,
+  serializeBackup,
+  type TimesheetBackup,
+} from "./backup";
+import { TimesheetDataError } from "./schema";
+import { parseDateKey } from "./week";
+
+const backup: TimesheetBackup = {
+  kind: BACKUP_KIND,
+  version: BACKUP_VERSION,
+  exportedAt: "2025-03-20T12:00:00.000Z",
+  weeks: {
+    "2025-03-10": [
+      {
+        date: parseDateKey("2025-03-10")!,
+        entries: [{ startTime: "09:00", endTime: "17:00", hours: 0 }],
+        totalHours: 8,
+        useDirectHours: false,
+      },
+    ],
+  },
+  settings: { timesheet_wage: "20" },
+};
+
+describe("parseBackup", () => {
+  it("reads back what it writes", () => {
+    expect(parseBackup(serializeBackup(backup))).toEqual(backup);
+  });
+
+  it("rejects files that aren't backups", () => {
+    expect(() => parseBackup("[]")).toThrow("not a timesheet backup");
+    expect(() => parseBackup('"timesheet-backup"')).toThrow(TimesheetDataError);
+    expect(() =>
+      parseBackup(JSON.stringify({ kind: BACKUP_KIND, weeks: [] })),
+    ).toThrow("does not contain any weeks");
+  });
+
+  it("rejects backups from a newer version", () => {
+    expect(() =>
+      parseBackup(
+        JSON.stringify({ kind: BACKUP_KIND, version: BACKUP_VERSION + 1 }),
+      ),
+    ).toThrow("newer version");
+  });
+
+  it("leaves out settings that aren't strings", () => {
+    const parsed = parseBackup(
+      JSON.stringify({
+        kind: BACKUP_KIND,
+        weeks: {},
+        settings: { timesheet_wage: "20", timesheet_jobs: [] },
+      }),
+    );
+    expect(parsed.settings).toEqual({ timesheet_wage: "20" });
+    expect(parsed.exportedAt).toBe("");
+  });
+});
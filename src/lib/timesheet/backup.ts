@@ -0,0 +1,244 @@
+import { DEFAULT_PAY_PERIOD_SETTINGS, type PayPeriodSettings } from "./period";
+import {
+  TimesheetDataError,
+  isRecord,
+  parseStoredPeriodPayload,
+  parseStoredSetting,
+  payPeriodSettingsSchema,
+  serializeDays,
+} from "./schema";
+import {
+  PAY_PERIOD_KEY,
+  TIMESHEET_PREFIX,
+  getLocalStorage,
+  getTimesheetKeys,
+  loadStoredDays,
+  mergeStoredDays,
+  removeLocalStorage,
+  setLocalStorage,
+} from "./storage";
+import type { DayEntry } from "./types";
+import { toDateKey } from "./week";
+
+export const BACKUP_KIND = "timesheet-backup";
+// v2: days are written with YYYY-MM-DD calendar dates
+export const BACKUP_VERSION = 2;
+
+// Every stored pay period keyed by its first day (YYYY-MM-DD), plus the wage
+// and all settings exactly as they are stored. The field is still called
+// `weeks` so older backups keep working.
+export interface TimesheetBackup {
+  kind: typeof BACKUP_KIND;
+  version: number;
+  exportedAt: string;
+  weeks: Record<string, DayEntry[]>;
+  settings: Record<string, string>;
+}
+
+// - "replace": wipe everything, then write the backup
+// - "merge": write the backup's weeks over matching ones and keep the rest
+export type RestoreMode = "replace" | "merge";
+
+export type WeekRestoreStatus =
+  | "added"
+  | "overwritten"
+  | "unchanged"
+  | "kept"
+  | "removed";
+
+export interface WeekRestorePlan {
+  weekKey: string;
+  status: WeekRestoreStatus;
+}
+
+const getStoredWeeks = (): Record<string, string> => {
+  const weeks: Record<string, string> = {};
+  getTimesheetKeys()
+    .filter((key) => key.startsWith(TIMESHEET_PREFIX))
+    .forEach((key) => {
+      const value = getLocalStorage(key);
+      if (value !== null) {
+        weeks[key.slice(TIMESHEET_PREFIX.length)] = value;
+      }
+    });
+  return weeks;
+};
+
+const getStoredSettings = (): Record<string, string> => {
+  const settings: Record<string, string> = {};
+  getTimesheetKeys()
+    .filter((key) => !key.startsWith(TIMESHEET_PREFIX))
+    .forEach((key) => {
+      const value = getLocalStorage(key);
+      if (value !== null) {
+        settings[key] = value;
+      }
+    });
+  return settings;
+};
+
+export const createBackup = (): TimesheetBackup => {
+  const weeks: Record<string, DayEntry[]> = {};
+  Object.entries(getStoredWeeks()).forEach(([weekKey, value]) => {
+    try {
+      weeks[weekKey] = parseStoredPeriodPayload(JSON.parse(value));
+    } catch (error) {
+      console.error(`Skipping unreadable week ${weekKey} in backup:`, error);
+    }
+  });
+
+  return {
+    kind: BACKUP_KIND,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    weeks,
+    settings: getStoredSettings(),
+  };
+};
+
+export const serializeBackup = (backup: TimesheetBackup): string =>
+  JSON.stringify(
+    {
+      ...backup,
+      weeks: Object.fromEntries(
+        Object.entries(backup.weeks).map(([weekKey, days]) => [
+          weekKey,
+          serializeDays(days),
+        ]),
+      ),
+    },
+    null,
+    2,
+  );
+
+// Throws a TimesheetDataError listing every invalid week when the file isn't
+// a usable timesheet backup. Weeks are upgraded to the current format.
+export const parseBackup = (content: string): TimesheetBackup => {
+  const data: unknown = JSON.parse(content);
+  if (!isRecord(data) || data.kind !== BACKUP_KIND) {
+    throw new TimesheetDataError("This file is not a timesheet backup.");
+  }
+  if (typeof data.version === "number" && data.version > BACKUP_VERSION) {
+    throw new TimesheetDataError(
+      `This backup was made by a newer version of the timesheet (v${data.version}).`,
+    );
+  }
+  if (!isRecord(data.weeks)) {
+    throw new TimesheetDataError("The backup does not contain any weeks.");
+  }
+
+  const weeks: Record<string, DayEntry[]> = {};
+  const issues: string[] = [];
+  Object.entries(data.weeks).forEach(([weekKey, week]) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(weekKey)) {
+      issues.push(`weeks.${weekKey}: Expected a YYYY-MM-DD week key`);
+      return;
+    }
+    try {
+      const days = parseStoredPeriodPayload(week);
+      // Older backups keyed each week by the UTC date of its first day, so
+      // the key is taken from the days themselves
+      weeks[toDateKey(days[0]!.date)] = days;
+    } catch (error) {
+      if (!(error instanceof TimesheetDataError)) throw error;
+      if (error.issues.length === 0) {
+        issues.push(`weeks.${weekKey}: ${error.message}`);
+      }
+      issues.push(...error.issues.map((issue) => `weeks.${weekKey}.${issue}`));
+    }
+  });
+  if (issues.length > 0) {
+    throw new TimesheetDataError("The backup contains invalid weeks.", issues);
+  }
+
+  const settings: Record<string, string> = {};
+  Object.entries(isRecord(data.settings) ? data.settings : {}).forEach(
+    ([key, value]) => {
+      if (typeof value === "string" && !key.startsWith(TIMESHEET_PREFIX)) {
+        settings[key] = value;
+      }
+    },
+  );
+
+  return {
+    kind: BACKUP_KIND,
+    version: BACKUP_VERSION,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    weeks,
+    settings,
+  };
+};
+
+// What restoring would do to each stored or backed up pay period, sorted by
+// date. Days are compared by date, so a backup made with a different pay
+// period setting is still matched against the right stored days.
+export const planRestore = (
+  backup: TimesheetBackup,
+  mode: RestoreMode,
+  payPeriod: PayPeriodSettings,
+): WeekRestorePlan[] => {
+  const backupDates = new Set<string>();
+  const plan: WeekRestorePlan[] = Object.entries(backup.weeks).map(
+    ([weekKey, days]) => {
+      days.forEach((day) => backupDates.add(toDateKey(day.date)));
+      const storedByDate = new Map(
+        loadStoredDays(days[0]!.date, days.at(-1)!.date, payPeriod).map(
+          (day) => [toDateKey(day.date), JSON.stringify(day)],
+        ),
+      );
+      let status: WeekRestoreStatus;
+      if (storedByDate.size === 0) {
+        status = "added";
+      } else {
+        status = days.every(
+          (day) =>
+            storedByDate.get(toDateKey(day.date)) === JSON.stringify(day),
+        )
+          ? "unchanged"
+          : "overwritten";
+      }
+      return { weekKey, status };
+    },
+  );
+
+  Object.entries(getStoredWeeks()).forEach(([weekKey, value]) => {
+    try {
+      const days = parseStoredPeriodPayload(JSON.parse(value));
+      if (!days.some((day) => backupDates.has(toDateKey(day.date)))) {
+        plan.push({ weekKey, status: mode === "replace" ? "removed" : "kept" });
+      }
+    } catch {
+      // Unreadable stored data isn't touched by a merge
+      if (mode === "replace") {
+        plan.push({ weekKey, status: "removed" });
+      }
+    }
+  });
+
+  return plan.sort((a, b) => a.weekKey.localeCompare(b.weekKey));
+};
+
+// Merging keeps the current wage and settings and only adds missing ones.
+// Restored days are stored under the pay period setting in effect afterwards.
+export const applyRestore = (
+  backup: TimesheetBackup,
+  mode: RestoreMode,
+): void => {
+  if (mode === "replace") {
+    getTimesheetKeys().forEach(removeLocalStorage);
+  }
+
+  Object.entries(backup.settings).forEach(([key, value]) => {
+    if (mode === "replace" || getLocalStorage(key) === null) {
+      setLocalStorage(key, value);
+    }
+  });
+
+  mergeStoredDays(
+    Object.values(backup.weeks).flat(),
+    parseStoredSetting(
+      getLocalStorage(PAY_PERIOD_KEY),
+      payPeriodSettingsSchema,
+    ) ?? DEFAULT_PAY_PERIOD_SETTINGS,
+  );
+};
@@ -0,0 +1,78 @@
+import type { DayEntry, TimeEntry } from "./types";
+import { toDateKey } from "./week";
+
+// A running clock-in, persisted until clock-out
+export interface ActiveClock {
+  startedAt: string; // ISO timestamp
+  jobId?: string;
+  keepRunning?: boolean; // Set once the long shift prompt has been dismissed
+}
+
+// Past this the shift is probably a forgotten clock-out, so ask about it
+export const MAX_SHIFT_HOURS = 16;
+
+// A time entry can't span a full day, since its end time would wrap around
+// to its start time
+export const MAX_ENTRY_MINUTES = 24 * 60 - 1;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Helper to format a date's local time as HH:MM
+export const toTimeValue = (date: Date): string =>
+  `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Helper to format a date for a datetime-local input
+export const toDateTimeValue = (date: Date): string =>
+  `${toDateKey(date)}T${toTimeValue(date)}`;
+
+// Elapsed time as H:MM:SS
+export const formatElapsed = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return `${hours}:${pad(minutes)}:${pad(totalSeconds % 60)}`;
+};
+
+// Whole minutes worked, or null when `end` isn't a valid clock-out time
+export const getClockMinutes = (
+  clock: ActiveClock,
+  end: Date,
+): number | null => {
+  const minutes = Math.floor(
+    (end.getTime() - new Date(clock.startedAt).getTime()) / 60000,
+  );
+  return minutes >= 0 && minutes <= MAX_ENTRY_MINUTES ? minutes : null;
+};
+
+// The entry a clock-out produces, on the day the clock was started. Shifts
+// past midnight end up as overnight entries.
+export const createClockEntry = (clock: ActiveClock, end: Date): TimeEntry => {
+  const start = new Date(clock.startedAt);
+  return {
+    startTime: toTimeValue(start),
+    endTime: toTimeValue(end),
+    hours: Math.round(((getClockMinutes(clock, end) ?? 0) / 60) * 100) / 100,
+    jobId: clock.jobId,
+  };
+};
+
+export const isEmptyEntry = (entry: TimeEntry): boolean =>
+  !entry.startTime && !entry.endTime && !entry.hours;
+
+// Add an entry to the day matching `date`, replacing the blank entry a new day
+// starts with
+export const addEntryToDate = (
+  days: DayEntry[],
+  date: Date,
+  entry: TimeEntry,
+): DayEntry[] => {
+  const dateKey = toDateKey(date);
+  return days.map((day) =>
+    toDateKey(day.date) === dateKey
+      ? {
+          ...day,
+          entries: [...day.entries.filter((e) => !isEmptyEntry(e)), entry],
+        }
+      : day,
+  );
+};
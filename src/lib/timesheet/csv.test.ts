@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTimesheetCsv,
+  guessCsvMapping,
+  parseCsv,
+  parseCsvRows,
+  type CsvColumnMapping,
+} from "./csv";
+import { DEFAULT_LOCALE_SETTINGS } from "./format";
+import type { DayEntry, Job } from "./types";
+import { parseDateKey } from "./week";
+
+const JOBS: Job[] = [{ id: "job-1", name: "Acme", rate: 30, color: "#000" }];
+
+const MAPPING: CsvColumnMapping = {
+  date: 0,
+  startTime: 1,
+  endTime: 2,
+  hours: 3,
+  mode: 4,
+  job: 5,
+  note: null,
+  tags: null,
+  dayType: null,
+  leaveHours: null,
+  dayNote: null,
+  dayTags: null,
+};
+
+const parseRow = (row: string[]) => parseCsvRows([row], MAPPING, JOBS, 2)[0]!;
+
+describe("parseCsv", () => {
+  it("reads quoted cells with commas, quotes and line breaks", () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\r\nlines"\r\n\r\nd\n')).toEqual(
+      [["a", "b, c", 'say "hi"', "two\r\nlines"], ["d"]],
+    );
+  });
+});
+
+describe("guessCsvMapping", () => {
+  it("matches columns by their header names", () => {
+    expect(
+      guessCsvMapping(["Work Date", "Clock In", "Clock Out", "Project"]),
+    ).toMatchObject({ date: 0, startTime: 1, endTime: 2, job: 3, hours: null });
+  });
+});
+
+describe("parseCsvRows", () => {
+  it("reads 12-hour times and US dates", () => {
+    const row = parseRow(["3/14/2025", "9:30 PM", "2:00 am", "", "", "acme"]);
+    expect(row.errors).toEqual([]);
+    expect(row.date).toEqual(parseDateKey("2025-03-14"));
+    expect(row.entry).toEqual({
+      startTime: "21:30",
+      endTime: "02:00",
+      hours: 0,
+      jobId: "job-1",
+    });
+  });
+
+  it("reads rows without times as direct hours", () => {
+    const row = parseRow(["2025-03-14", "", "", "7.5", "", ""]);
+    expect(row.useDirectHours).toBe(true);
+    expect(row.entry?.hours).toBe(7.5);
+  });
+
+  it("reports every problem with a row", () => {
+    expect(
+      parseRow(["2025-02-30", "25:00", "17:00", "", "", ""]).errors,
+    ).toEqual(['Invalid date "2025-02-30"', 'Invalid start time "25:00"']);
+    expect(
+      parseRow(["2025-02-28", "09:00", "17:00", "", "", "Other"]).errors,
+    ).toEqual(['Unknown job "Other"']);
+  });
+
+  it("refuses time and hours rows on the same day", () => {
+    const rows = parseCsvRows(
+      [
+        ["2025-03-14", "09:00", "12:00", "", "time", ""],
+        ["2025-03-14", "", "", "4", "hours", ""],
+      ],
+      MAPPING,
+      JOBS,
+      2,
+    );
+    expect(rows[1]?.errors).toEqual([
+      "Mixes time and hours entries on the same day",
+    ]);
+  });
+});
+
+describe("buildTimesheetCsv", () => {
+  it("reads its own export back, leave days included", () => {
+    const days: DayEntry[] = [
+      {
+        date: parseDateKey("2025-03-10")!,
+        entries: [{ startTime: "", endTime: "", hours: 0 }],
+        totalHours: 0,
+        useDirectHours: false,
+        dayType: "pto",
+        leaveHours: 8,
+        note: "Vacation",
+      },
+      {
+        date: parseDateKey("2025-03-11")!,
+        entries: [
+          { startTime: "22:00", endTime: "06:00", hours: 0, jobId: "job-1" },
+        ],
+        totalHours: 8,
+        useDirectHours: false,
+        tags: ["nights"],
+      },
+    ];
+    const csv = buildTimesheetCsv(
+      [{ days, dayEarnings: [0, 240] }],
+      days[0]!.date,
+      days[1]!.date,
+      JOBS,
+      DEFAULT_LOCALE_SETTINGS,
+    );
+    const [header = [], ...rows] = parseCsv(csv);
+    const imported = parseCsvRows(rows, guessCsvMapping(header), JOBS, 2);
+
+    expect(imported.map((row) => row.errors)).toEqual([[], []]);
+    expect(imported[0]).toMatchObject({
+      entry: null,
+      day: { dayType: "pto", leaveHours: 8, note: "Vacation" },
+    });
+    expect(imported[1]).toMatchObject({
+      entry: { startTime: "22:00", endTime: "06:00", jobId: "job-1" },
+      day: { tags: ["nights"] },
+    });
+  });
+});
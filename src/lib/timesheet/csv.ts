@@ -0,0 +1,448 @@
+import { formatWeekday, type LocaleSettings } from "./format";
+import { getEntrySpan } from "./hours";
+import { findJob } from "./jobs";
+import { DAY_TYPE_LABELS, getLeaveHours, getLeaveType } from "./leave";
+import { formatTags, parseTags } from "./notes";
+import type { DayEntry, DayType, Job, TimeEntry } from "./types";
+import { validateDay } from "./validation";
+import { parseDateKey, toDateKey } from "./week";
+
+export const CSV_HEADER = [
+  "Date",
+  "Weekday",
+  "Start",
+  "End",
+  "Hours",
+  "Mode",
+  "Job",
+  "Day Total",
+  "Day Type",
+  "Leave Hours",
+  "Day Earnings",
+  "Note",
+  "Tags",
+  "Day Note",
+  "Day Tags",
+  "Warnings",
+];
+
+export type CsvField =
+  | "date"
+  | "startTime"
+  | "endTime"
+  | "hours"
+  | "mode"
+  | "job"
+  | "note"
+  | "tags"
+  | "dayType"
+  | "leaveHours"
+  | "dayNote"
+  | "dayTags";
+
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  date: "Date",
+  startTime: "Start time",
+  endTime: "End time",
+  hours: "Hours",
+  mode: "Mode",
+  job: "Job",
+  note: "Note",
+  tags: "Tags",
+  dayType: "Day type",
+  leaveHours: "Leave hours",
+  dayNote: "Day note",
+  dayTags: "Day tags",
+};
+
+// Fields of a day set by an imported row. Fields whose column isn't mapped
+// are left out, so the day keeps what it had.
+export type CsvImportDay = Partial<
+  Pick<DayEntry, "dayType" | "leaveHours" | "note" | "tags">
+>;
+
+// A pay period of recalculated days with the earnings for each day
+export interface CsvPeriod {
+  days: DayEntry[];
+  dayEarnings: number[];
+}
+
+export interface CsvImportRow {
+  rowNumber: number; // 1-based line in the file, for error messages
+  date: Date | null;
+  entry: TimeEntry | null; // Null for leave rows without any time
+  useDirectHours: boolean;
+  day: CsvImportDay;
+  errors: string[];
+}
+
+const escapeCsvValue = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+
+// Parse CSV text into rows of cells, handling quoted cells with commas,
+// escaped quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+const formatHours = (hours: number): string => hours.toFixed(2);
+
+const hasEntryData = (entry: TimeEntry, useDirectHours: boolean): boolean =>
+  useDirectHours
+    ? (entry.hours ?? 0) > 0
+    : entry.startTime !== "" || entry.endTime !== "";
+
+// One row per time entry for every day between `from` and `to` (inclusive),
+// with any problems found in the entry. Leave days without entries get one
+// row; other days without any entered time are left out.
+export const buildTimesheetCsv = (
+  periods: CsvPeriod[],
+  from: Date,
+  to: Date,
+  jobs: Job[],
+  localeSettings: LocaleSettings,
+): string => {
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const rows: string[][] = [CSV_HEADER];
+
+  periods.forEach(({ days, dayEarnings }) => {
+    days.forEach((day, dayIndex) => {
+      const dateKey = toDateKey(day.date);
+      if (dateKey < fromKey || dateKey > toKey) {
+        return;
+      }
+
+      const issues = validateDay(day);
+      const dayCells = [
+        formatHours(day.totalHours),
+        DAY_TYPE_LABELS[day.dayType ?? "worked"],
+        getLeaveType(day) ? formatHours(getLeaveHours(day)) : "",
+        (dayEarnings[dayIndex] ?? 0).toFixed(2),
+      ];
+      const hasEntries = day.entries.some((entry) =>
+        hasEntryData(entry, day.useDirectHours),
+      );
+      if (!hasEntries && getLeaveType(day)) {
+        rows.push([
+          dateKey,
+          formatWeekday(day.date, localeSettings),
+          "",
+          "",
+          "",
+          "",
+          "",
+          ...dayCells,
+          "",
+          "",
+          day.note ?? "",
+          formatTags(day.tags),
+          "",
+        ]);
+      }
+      day.entries.forEach((entry, entryIndex) => {
+        if (!hasEntryData(entry, day.useDirectHours)) {
+          return;
+        }
+        const span = getEntrySpan(entry, day.date);
+        const entryHours = day.useDirectHours
+          ? (entry.hours ?? 0)
+          : span
+            ? (span.beforeMidnight + span.afterMidnight) / 60
+            : 0;
+        rows.push([
+          dateKey,
+          formatWeekday(day.date, localeSettings),
+          day.useDirectHours ? "" : entry.startTime,
+          day.useDirectHours ? "" : entry.endTime,
+          formatHours(entryHours),
+          day.useDirectHours ? "hours" : "time",
+          findJob(jobs, entry.jobId ?? "")?.name ?? "",
+          ...dayCells,
+          entry.note ?? "",
+          formatTags(entry.tags),
+          day.note ?? "",
+          formatTags(day.tags),
+          issues
+            .filter((issue) => issue.entryIndex === entryIndex)
+            .map((issue) => issue.message)
+            .join("; "),
+        ]);
+      });
+    });
+  });
+
+  return toCsv(rows);
+};
+
+const normalizeHeader = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z]/g, "");
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  date: ["date", "day", "workdate"],
+  startTime: ["start", "starttime", "in", "timein", "clockin"],
+  endTime: ["end", "endtime", "out", "timeout", "clockout"],
+  hours: ["hours", "hrs", "duration"],
+  mode: ["mode", "type", "entrytype"],
+  job: ["job", "project", "client"],
+  note: ["note", "notes", "description", "memo"],
+  tags: ["tags", "tag", "labels"],
+  dayType: ["daytype", "leavetype"],
+  leaveHours: ["leavehours"],
+  dayNote: ["daynote", "daynotes"],
+  dayTags: ["daytags", "daytag"],
+};
+
+// Match columns to fields by their header names
+export const guessCsvMapping = (header: string[]): CsvColumnMapping => {
+  const normalized = header.map(normalizeHeader);
+  const mapping = {} as CsvColumnMapping;
+  (Object.keys(HEADER_ALIASES) as CsvField[]).forEach((field) => {
+    const index = normalized.findIndex((name) =>
+      HEADER_ALIASES[field].includes(name),
+    );
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+// Accepts the day type names of the export as well as "pto", "unpaid"...
+// A blank day type is a worked day.
+const parseDayType = (value: string): DayType | null => {
+  const name = normalizeHeader(value);
+  if (name === "") {
+    return "worked";
+  }
+  return (
+    (Object.keys(DAY_TYPE_LABELS) as DayType[]).find(
+      (dayType) =>
+        dayType === name || normalizeHeader(DAY_TYPE_LABELS[dayType]) === name,
+    ) ?? null
+  );
+};
+
+// Accepts 24-hour "HH:MM" as well as "9:30 AM" style times
+const parseCsvTime = (value: string): string | null => {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec(
+    value.trim(),
+  );
+  if (!match) {
+    return null;
+  }
+  let hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, "");
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+};
+
+// Accepts YYYY-MM-DD as well as US-style M/D/YYYY dates
+const parseCsvDate = (value: string): Date | null => {
+  const isoDate = parseDateKey(value);
+  if (isoDate) {
+    return isoDate;
+  }
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const date = new Date(
+    Number(match[3]),
+    Number(match[1]) - 1,
+    Number(match[2]),
+  );
+  return date.getMonth() === Number(match[1]) - 1 ? date : null;
+};
+
+// Validate every data row against the column mapping. Rows with errors are
+// kept so they can be shown in the preview, but should not be imported.
+export const parseCsvRows = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  jobs: Job[],
+  firstRowNumber: number,
+): CsvImportRow[] => {
+  const cell = (row: string[], field: CsvField): string => {
+    const index = mapping[field];
+    return index === null ? "" : (row[index] ?? "").trim();
+  };
+  const dayModes = new Map<string, boolean>();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const rowNumber = firstRowNumber + index;
+
+    const dateValue = cell(row, "date");
+    const date = parseCsvDate(dateValue);
+    if (mapping.date === null) {
+      errors.push("No column is mapped to the date");
+    } else if (!date) {
+      errors.push(`Invalid date "${dateValue}"`);
+    }
+
+    const day: CsvImportDay = {};
+    const dayTypeValue = cell(row, "dayType");
+    const dayType = parseDayType(dayTypeValue);
+    if (!dayType) {
+      errors.push(`Unknown day type "${dayTypeValue}"`);
+    } else if (mapping.dayType !== null) {
+      day.dayType = dayType === "worked" ? undefined : dayType;
+      day.leaveHours = undefined;
+    }
+    const isLeaveDay = dayType !== null && dayType !== "worked";
+    if (isLeaveDay && mapping.leaveHours !== null) {
+      const leaveHoursValue = cell(row, "leaveHours");
+      const leaveHours =
+        leaveHoursValue === "" ? 0 : parseFloat(leaveHoursValue);
+      if (isNaN(leaveHours) || leaveHours < 0 || leaveHours > 24) {
+        errors.push("Leave hours must be between 0 and 24");
+      } else {
+        day.leaveHours = leaveHours;
+      }
+    }
+    if (mapping.dayNote !== null) {
+      day.note = cell(row, "dayNote") || undefined;
+    }
+    if (mapping.dayTags !== null) {
+      const dayTags = parseTags(cell(row, "dayTags"));
+      day.tags = dayTags.length > 0 ? dayTags : undefined;
+    }
+
+    const startValue = cell(row, "startTime");
+    const endValue = cell(row, "endTime");
+    const hoursValue = cell(row, "hours");
+    const modeValue = cell(row, "mode").toLowerCase();
+    // The export writes leave days without any time as a row of their own
+    const isLeaveOnly = isLeaveDay && !startValue && !endValue && !hoursValue;
+
+    let useDirectHours: boolean;
+    if (isLeaveOnly) {
+      useDirectHours = false;
+    } else if (modeValue === "hours" || modeValue === "direct") {
+      useDirectHours = true;
+    } else if (modeValue === "time" || modeValue === "") {
+      useDirectHours = modeValue === "" && !startValue && !endValue;
+    } else {
+      errors.push(`Unknown mode "${modeValue}", expected "time" or "hours"`);
+      useDirectHours = false;
+    }
+
+    let entry: TimeEntry | null = null;
+    if (useDirectHours) {
+      const hours = parseFloat(hoursValue);
+      if (hoursValue === "" || isNaN(hours)) {
+        errors.push("Missing or invalid hours");
+      } else if (hours < 0 || hours > 24) {
+        errors.push("Hours must be between 0 and 24");
+      } else {
+        entry = { startTime: "", endTime: "", hours };
+      }
+    } else if (!isLeaveOnly) {
+      const startTime = parseCsvTime(startValue);
+      const endTime = parseCsvTime(endValue);
+      if (!startTime) {
+        errors.push(`Invalid start time "${startValue}"`);
+      }
+      if (!endTime) {
+        errors.push(`Invalid end time "${endValue}"`);
+      }
+      if (startTime && endTime) {
+        entry = { startTime, endTime, hours: 0 };
+      }
+    }
+
+    const jobName = cell(row, "job");
+    if (entry && jobName) {
+      const job = jobs.find(
+        ({ name }) => name.trim().toLowerCase() === jobName.toLowerCase(),
+      );
+      if (job) {
+        entry.jobId = job.id;
+      } else {
+        errors.push(`Unknown job "${jobName}"`);
+      }
+    }
+
+    const note = cell(row, "note");
+    const tags = parseTags(cell(row, "tags"));
+    if (entry && note) {
+      entry.note = note;
+    }
+    if (entry && tags.length > 0) {
+      entry.tags = tags;
+    }
+
+    // A day is either in time entry or direct hours mode, not both
+    if (date && entry && errors.length === 0) {
+      const dateKey = toDateKey(date);
+      const dayMode = dayModes.get(dateKey);
+      if (dayMode === undefined) {
+        dayModes.set(dateKey, useDirectHours);
+      } else if (dayMode !== useDirectHours) {
+        errors.push("Mixes time and hours entries on the same day");
+      }
+    }
+
+    return {
+      rowNumber,
+      date,
+      entry: errors.length === 0 ? entry : null,
+      useDirectHours,
+      day,
+      errors,
+    };
+  });
+};
@@ -0,0 +1,152 @@
+// One row of a tax table: income above `from` (annual) is taxed at `rate`
+// percent, up to where the next bracket starts
+export interface TaxBracket {
+  from: number;
+  rate: number;
+}
+
+export interface TaxTable {
+  standardDeduction: number; // Annual income that isn't taxed
+  brackets: TaxBracket[];
+}
+
+export type DeductionType = "fixed" | "percent";
+
+// A recurring payroll deduction, taken every pay period
+export interface PayrollDeduction {
+  id: string;
+  name: string;
+  type: DeductionType;
+  amount: number; // Currency per period, or percent of gross pay
+  preTax: boolean; // Pre-tax deductions lower the wages income tax is withheld on
+}
+
+export interface DeductionProfile {
+  enabled: boolean;
+  federalTax: TaxTable;
+  stateTax: TaxTable;
+  socialSecurityRate: number; // Percent of gross pay
+  medicareRate: number; // Percent of gross pay
+  deductions: PayrollDeduction[];
+}
+
+export interface DeductionLine {
+  label: string;
+  amount: number;
+}
+
+export interface NetPayEstimate {
+  grossPay: number;
+  preTaxDeductions: DeductionLine[];
+  taxes: DeductionLine[];
+  postTaxDeductions: DeductionLine[];
+  netPay: number;
+}
+
+// 2024 federal brackets for a single filer. These are only a starting point
+// and can be edited like any other table.
+export const DEFAULT_DEDUCTION_PROFILE: DeductionProfile = {
+  enabled: false,
+  federalTax: {
+    standardDeduction: 14600,
+    brackets: [
+      { from: 0, rate: 10 },
+      { from: 11600, rate: 12 },
+      { from: 47150, rate: 22 },
+      { from: 100525, rate: 24 },
+      { from: 191950, rate: 32 },
+      { from: 243725, rate: 35 },
+      { from: 609350, rate: 37 },
+    ],
+  },
+  stateTax: {
+    standardDeduction: 0,
+    brackets: [{ from: 0, rate: 0 }],
+  },
+  socialSecurityRate: 6.2,
+  medicareRate: 1.45,
+  deductions: [],
+};
+
+export const createDeduction = (
+  existingDeductions: PayrollDeduction[],
+): PayrollDeduction => ({
+  id: crypto.randomUUID(),
+  name: `Deduction ${existingDeductions.length + 1}`,
+  type: "fixed",
+  amount: 0,
+  preTax: true,
+});
+
+// Annual tax on `income` after the table's standard deduction
+export const calculateBracketTax = (
+  income: number,
+  table: TaxTable,
+): number => {
+  const taxable = Math.max(0, income - table.standardDeduction);
+  const brackets = [...table.brackets].sort((a, b) => a.from - b.from);
+  return brackets.reduce((tax, bracket, index) => {
+    const upTo = brackets[index + 1]?.from ?? Infinity;
+    const taxedInBracket = Math.min(taxable, upTo) - bracket.from;
+    return tax + (Math.max(0, taxedInBracket) * bracket.rate) / 100;
+  }, 0);
+};
+
+const getDeductionAmount = (
+  deduction: PayrollDeduction,
+  grossPay: number,
+): number =>
+  deduction.type === "percent"
+    ? (grossPay * deduction.amount) / 100
+    : deduction.amount;
+
+// Estimate take-home pay for one pay period. Income tax is withheld as if
+// every period of the year paid the same, the way payroll annualizes it.
+// Social Security and Medicare are charged on the full gross pay, and no
+// deduction can take more than what's left.
+export const estimateNetPay = (
+  grossPay: number,
+  profile: DeductionProfile,
+  periodsPerYear: number,
+): NetPayEstimate => {
+  let remaining = grossPay;
+  const takeFrom = (label: string, amount: number): DeductionLine => {
+    const taken = Math.min(Math.max(0, amount), remaining);
+    remaining -= taken;
+    return { label, amount: taken };
+  };
+
+  const preTaxDeductions = profile.deductions
+    .filter((deduction) => deduction.preTax)
+    .map((deduction) =>
+      takeFrom(deduction.name, getDeductionAmount(deduction, grossPay)),
+    );
+  const annualTaxableWages = remaining * periodsPerYear;
+  const taxes = [
+    takeFrom(
+      "Federal income tax",
+      calculateBracketTax(annualTaxableWages, profile.federalTax) /
+        periodsPerYear,
+    ),
+    takeFrom(
+      "State income tax",
+      calculateBracketTax(annualTaxableWages, profile.stateTax) /
+        periodsPerYear,
+    ),
+    takeFrom("Social Security", (grossPay * profile.socialSecurityRate) / 100),
+    takeFrom("Medicare", (grossPay * profile.medicareRate) / 100),
+  ];
+  const postTaxDeductions = profile.deductions
+    .filter((deduction) => !deduction.preTax)
+    .map((deduction) =>
+      takeFrom(deduction.name, getDeductionAmount(deduction, grossPay)),
+    );
+
+  return {
+    grossPay,
+    preTaxDeductions,
+    taxes,
+    postTaxDeductions,
+    netPay: remaining,
+  };
+};
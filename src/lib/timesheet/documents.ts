@@ -0,0 +1,293 @@
+import type { PeriodEarnings } from "./earnings";
+import {
+  formatCurrency,
+  formatDate,
+  formatHours,
+  formatTime,
+  formatWeekday,
+  type LocaleSettings,
+} from "./format";
+import { getJobName, getJobRate, type JobTotal } from "./jobs";
+import type { DayEntry, Job } from "./types";
+import { addDays, getDateRangeDisplay } from "./week";
+
+export type DocumentKind = "timesheet" | "invoice";
+
+// Who the timesheet or invoice is from and for, kept between sessions
+export interface DocumentDetails {
+  name: string; // Employee or contractor
+  client: string; // Employer or client
+  invoicePrefix: string;
+  nextInvoiceNumber: number;
+  paymentTermsDays: number;
+  notes: string;
+}
+
+export const DEFAULT_DOCUMENT_DETAILS: DocumentDetails = {
+  name: "",
+  client: "",
+  invoicePrefix: "INV-",
+  nextInvoiceNumber: 1,
+  paymentTermsDays: 30,
+  notes: "",
+};
+
+export interface InvoiceLine {
+  number: number;
+  description: string;
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+export const formatInvoiceNumber = (details: DocumentDetails): string =>
+  `${details.invoicePrefix}${String(details.nextInvoiceNumber).padStart(4, "0")}`;
+
+export const getDueDate = (issueDate: Date, paymentTermsDays: number): Date =>
+  addDays(issueDate, paymentTermsDays);
+
+// One numbered line per job with hours. Overtime premiums are already part of
+// each job's pay, so the rate shown is the average for the period.
+export const buildInvoiceLines = (
+  jobTotals: JobTotal[],
+  jobs: Job[],
+  hourlyWage: number,
+): InvoiceLine[] =>
+  jobTotals
+    .filter((total) => total.hours > 0)
+    .map((total, index) => {
+      const baseRate = getJobRate(jobs, total.jobId, hourlyWage);
+      const includesOvertime = total.pay > total.hours * baseRate + 0.005;
+      return {
+        number: index + 1,
+        description:
+          (jobs.length > 0 ? getJobName(jobs, total.jobId) : "Hours worked") +
+          (includesOvertime ? " (incl. overtime)" : ""),
+        hours: total.hours,
+        rate: total.pay / total.hours,
+        amount: total.pay,
+      };
+    });
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Wrap a document body in a standalone page that prints on its own
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { margin: 16mm; }
+  body { font-family: system-ui, sans-serif; color: #111827; font-size: 12px; margin: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .muted { color: #6b7280; }
+  .header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 20px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .number { text-align: right; white-space: nowrap; }
+  .totals td { font-weight: 600; border-bottom: none; }
+  .signatures { display: flex; gap: 48px; margin-top: 48px; }
+  .signature { flex: 1; border-top: 1px solid #111827; padding-top: 4px; }
+  tr { page-break-inside: avoid; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const renderParty = (label: string, value: string): string =>
+  value
+    ? `<div><div class="muted">${label}</div><div>${escapeHtml(value)}</div></div>`
+    : "";
+
+const describeEntries = (
+  day: DayEntry,
+  localeSettings: LocaleSettings,
+): string =>
+  day.entries
+    .filter((entry) =>
+      day.useDirectHours
+        ? (entry.hours ?? 0) > 0
+        : entry.startTime && entry.endTime,
+    )
+    .map((entry) =>
+      day.useDirectHours
+        ? `${formatHours(entry.hours ?? 0, localeSettings)} h`
+        : `${formatTime(entry.startTime, localeSettings)} – ${formatTime(entry.endTime, localeSettings)}`,
+    )
+    .join("<br>");
+
+const describeJobs = (day: DayEntry, jobs: Job[]): string =>
+  Object.entries(day.jobHours ?? {})
+    .filter(([, hours]) => hours > 0)
+    .map(([jobId]) => escapeHtml(getJobName(jobs, jobId)))
+    .join(", ");
+
+export interface TimesheetDocument {
+  details: DocumentDetails;
+  periodStart: Date;
+  periodEnd: Date;
+  days: DayEntry[];
+  earnings: PeriodEarnings;
+  jobs: Job[];
+  showPay: boolean;
+  localeSettings: LocaleSettings;
+}
+
+// A timesheet for one pay period with a signature block for approval
+export const renderTimesheetHtml = ({
+  details,
+  periodStart,
+  periodEnd,
+  days,
+  earnings,
+  jobs,
+  showPay,
+  localeSettings,
+}: TimesheetDocument): string => {
+  const range = getDateRangeDisplay(periodStart, periodEnd, localeSettings);
+  const { period } = earnings;
+  const rows = days
+    .map(
+      (day) => `<tr>
+  <td>${escapeHtml(formatWeekday(day.date, localeSettings))}, ${escapeHtml(formatDate(day.date, localeSettings))}</td>
+  <td>${describeEntries(day, localeSettings)}</td>
+  ${jobs.length > 0 ? `<td>${describeJobs(day, jobs)}</td>` : ""}
+  <td class="number">${(day.breakHours ?? 0) > 0 ? formatHours(day.breakHours ?? 0, localeSettings) : ""}</td>
+  <td class="number">${day.totalHours > 0 ? formatHours(day.totalHours, localeSettings) : ""}</td>
+</tr>`,
+    )
+    .join("\n");
+  const overtimeSummary = [
+    period.overtimeHours > 0
+      ? `Overtime: ${formatHours(period.overtimeHours, localeSettings)} h`
+      : "",
+    period.doubleTimeHours > 0
+      ? `Double time: ${formatHours(period.doubleTimeHours, localeSettings)} h`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return renderPage(
+    `Timesheet ${range}`,
+    `<div class="header">
+  <div>
+    <h1>Timesheet</h1>
+    <div class="muted">${escapeHtml(range)}</div>
+  </div>
+  <div>
+    ${renderParty("Employee", details.name)}
+    ${renderParty("Employer / client", details.client)}
+  </div>
+</div>
+<table>
+  <thead>
+    <tr>
+      <th>Date</th>
+      <th>Time</th>
+      ${jobs.length > 0 ? "<th>Job</th>" : ""}
+      <th class="number">Unpaid breaks (h)</th>
+      <th class="number">Hours</th>
+    </tr>
+  </thead>
+  <tbody>
+${rows}
+    <tr class="totals">
+      <td colspan="${jobs.length > 0 ? 4 : 3}">Total</td>
+      <td class="number">${formatHours(period.totalHours, localeSettings)}</td>
+    </tr>
+  </tbody>
+</table>
+${overtimeSummary ? `<p>Regular: ${formatHours(period.regularHours, localeSettings)} h · ${overtimeSummary}</p>` : ""}
+${showPay ? `<p><strong>Gross pay: ${escapeHtml(formatCurrency(period.totalPay, localeSettings))}</strong></p>` : ""}
+${details.notes ? `<p>${escapeHtml(details.notes)}</p>` : ""}
+<div class="signatures">
+  <div class="signature">Employee signature / date</div>
+  <div class="signature">Approved by / date</div>
+</div>`,
+  );
+};
+
+export interface InvoiceDocument {
+  details: DocumentDetails;
+  issueDate: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  lines: InvoiceLine[];
+  localeSettings: LocaleSettings;
+}
+
+// An invoice billing the period's hours, numbered from the document details
+export const renderInvoiceHtml = ({
+  details,
+  issueDate,
+  periodStart,
+  periodEnd,
+  lines,
+  localeSettings,
+}: InvoiceDocument): string => {
+  const invoiceNumber = formatInvoiceNumber(details);
+  const money = (amount: number) =>
+    escapeHtml(formatCurrency(amount, localeSettings));
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  const rows = lines
+    .map(
+      (line) => `<tr>
+  <td>${line.number}</td>
+  <td>${escapeHtml(line.description)}</td>
+  <td class="number">${formatHours(line.hours, localeSettings)}</td>
+  <td class="number">${money(line.rate)}</td>
+  <td class="number">${money(line.amount)}</td>
+</tr>`,
+    )
+    .join("\n");
+
+  return renderPage(
+    `Invoice ${invoiceNumber}`,
+    `<div class="header">
+  <div>
+    <h1>Invoice ${escapeHtml(invoiceNumber)}</h1>
+    <div class="muted">Services ${escapeHtml(getDateRangeDisplay(periodStart, periodEnd, localeSettings))}</div>
+  </div>
+  <div>
+    <div><span class="muted">Issued:</span> ${escapeHtml(formatDate(issueDate, localeSettings))}</div>
+    <div><span class="muted">Due:</span> ${escapeHtml(formatDate(getDueDate(issueDate, details.paymentTermsDays), localeSettings))}</div>
+    <div><span class="muted">Terms:</span> ${details.paymentTermsDays > 0 ? `Net ${details.paymentTermsDays}` : "Due on receipt"}</div>
+  </div>
+</div>
+<div class="header">
+  ${renderParty("From", details.name)}
+  ${renderParty("Bill to", details.client)}
+</div>
+<table>
+  <thead>
+    <tr>
+      <th>#</th>
+      <th>Description</th>
+      <th class="number">Hours</th>
+      <th class="number">Rate</th>
+      <th class="number">Amount</th>
+    </tr>
+  </thead>
+  <tbody>
+${rows}
+    <tr class="totals">
+      <td colspan="4">Total due</td>
+      <td class="number">${money(total)}</td>
+    </tr>
+  </tbody>
+</table>
+${details.notes ? `<p>${escapeHtml(details.notes)}</p>` : ""}`,
+  );
+};
@@ -0,0 +1,17 @@
+// Helper to save generated content as a file through a temporary link
+export const downloadFile = (
+  content: string,
+  filename: string,
+  type: string,
+): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,96 @@
+import {
+  calculateDayJobTotals,
+  getBlendedRate,
+  sumJobTotals,
+  type JobTotal,
+} from "./jobs";
+import {
+  DEFAULT_LEAVE_RULES,
+  getCountedLeaveHours,
+  getLeaveHours,
+  getLeaveType,
+  type LeaveRule,
+  type LeaveType,
+} from "./leave";
+import {
+  calculateOvertime,
+  sumBreakdowns,
+  type EarningsBreakdown,
+  type OvertimeRules,
+} from "./overtime";
+import { splitIntoWorkweeks } from "./period";
+import type { DayEntry, Job } from "./types";
+import { daysBetween, getWeekStart } from "./week";
+
+export interface PeriodEarnings {
+  days: EarningsBreakdown[];
+  period: EarningsBreakdown;
+  dayJobTotals: JobTotal[][];
+  periodJobTotals: JobTotal[];
+}
+
+// Earnings for a pay period of already-recalculated days. Overtime is paid on
+// each day's blended rate across jobs, and weekly thresholds and the seventh
+// day rule apply per workweek. `precedingDays` are the days of the first
+// workweek that fall before the period, so a workweek split across two pay
+// periods still counts all of its hours. Leave is paid at the hourly wage
+// times its type's multiplier.
+export const calculatePeriodEarnings = (
+  periodDays: DayEntry[],
+  rules: OvertimeRules,
+  jobs: Job[],
+  hourlyWage: number,
+  weekStartDay: number,
+  precedingDays: DayEntry[] = [],
+  leaveRules: Record<LeaveType, LeaveRule> = DEFAULT_LEAVE_RULES,
+): PeriodEarnings => {
+  const workweekDays = splitIntoWorkweeks(
+    [...precedingDays, ...periodDays],
+    weekStartDay,
+  ).flatMap((workweek) => {
+    // Slot each day by its position in the workweek so missing days count as
+    // days off
+    const weekStart = getWeekStart(workweek[0]!.date, weekStartDay);
+    const slots = workweek.map((day) => daysBetween(weekStart, day.date));
+    const dailyHours = Array.from({ length: 7 }, () => 0);
+    const dailyRates = Array.from({ length: 7 }, () => hourlyWage);
+    const countedHours = Array.from({ length: 7 }, () => 0);
+    workweek.forEach((day, index) => {
+      dailyHours[slots[index]!] = day.totalHours;
+      dailyRates[slots[index]!] = getBlendedRate(day, jobs, hourlyWage);
+      countedHours[slots[index]!] = getCountedLeaveHours(day, leaveRules);
+    });
+    const { days } = calculateOvertime(
+      dailyHours,
+      rules,
+      dailyRates,
+      countedHours,
+    );
+    return workweek.map((day, index) => {
+      const earnings = days[slots[index]!]!;
+      const leaveType = getLeaveType(day);
+      const leavePay = leaveType
+        ? getLeaveHours(day) * hourlyWage * leaveRules[leaveType].payMultiplier
+        : 0;
+      // Unpaid leave isn't listed with the pay
+      const leaveHours = leavePay > 0 ? getLeaveHours(day) : 0;
+      return {
+        ...earnings,
+        leaveHours,
+        leavePay,
+        totalPay: earnings.totalPay + leavePay,
+      };
+    });
+  });
+
+  const days = workweekDays.slice(precedingDays.length);
+  const dayJobTotals = periodDays.map((day, dayIndex) =>
+    calculateDayJobTotals(day, days[dayIndex], jobs, hourlyWage),
+  );
+  return {
+    days,
+    period: sumBreakdowns(days),
+    dayJobTotals,
+    periodJobTotals: sumJobTotals(dayJobTotals),
+  };
+};
@@ -0,0 +1,146 @@
+// - "locale": month names in the order the locale uses, e.g. "Mar 10, 2025"
+// - "mdy" / "dmy" / "ymd": numeric, e.g. 03/10/2025, 10/03/2025, 2025-03-10
+export type DateFormat = "locale" | "mdy" | "dmy" | "ymd";
+
+export type HourCycle = "12" | "24";
+
+// How money, dates and times are shown. `locale` also picks the language of
+// weekday and month names.
+export interface LocaleSettings {
+  currency: string; // ISO 4217 code
+  locale: string; // BCP 47 tag
+  dateFormat: DateFormat;
+  hourCycle: HourCycle;
+}
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  currency: "USD",
+  locale: "en-US",
+  dateFormat: "locale",
+  hourCycle: "12",
+};
+
+export const CURRENCY_OPTIONS = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CHF",
+  "JPY",
+  "INR",
+  "MXN",
+];
+
+export const LOCALE_OPTIONS: Record<string, string> = {
+  "en-US": "English (US)",
+  "en-GB": "English (UK)",
+  "en-CA": "English (Canada)",
+  "fr-CA": "Français (Canada)",
+  "en-AU": "English (Australia)",
+  "de-DE": "Deutsch",
+  "fr-FR": "Français",
+  "es-ES": "Español",
+  "it-IT": "Italiano",
+  "nl-NL": "Nederlands",
+  "ja-JP": "日本語",
+};
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  locale: "Locale default",
+  mdy: "MM/DD/YYYY",
+  dmy: "DD/MM/YYYY",
+  ymd: "YYYY-MM-DD",
+};
+
+export const formatCurrency = (
+  amount: number,
+  settings: LocaleSettings,
+): string => {
+  return new Intl.NumberFormat(settings.locale, {
+    style: "currency",
+    currency: settings.currency,
+  }).format(amount);
+};
+
+// Helper to get the symbol shown next to money inputs, e.g. "$" or "€"
+export const getCurrencySymbol = (settings: LocaleSettings): string =>
+  new Intl.NumberFormat(settings.locale, {
+    style: "currency",
+    currency: settings.currency,
+  })
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value ?? settings.currency;
+
+// Format hours with two decimals and the locale's separators, e.g. "7,50"
+export const formatHours = (hours: number, settings: LocaleSettings): string =>
+  new Intl.NumberFormat(settings.locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(hours);
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Format a calendar day, optionally without its year. "ymd" always shows the
+// year since it would be ambiguous otherwise.
+export const formatDate = (
+  date: Date,
+  settings: LocaleSettings,
+  withYear = true,
+): string => {
+  const year = String(date.getFullYear());
+  const month = pad(date.getMonth() + 1);
+  const day = pad(date.getDate());
+  switch (settings.dateFormat) {
+    case "locale":
+      return date.toLocaleDateString(settings.locale, {
+        month: "short",
+        day: "numeric",
+        ...(withYear && { year: "numeric" }),
+      });
+    case "mdy":
+      return withYear ? `${month}/${day}/${year}` : `${month}/${day}`;
+    case "dmy":
+      return withYear ? `${day}/${month}/${year}` : `${day}/${month}`;
+    case "ymd":
+      return `${year}-${month}-${day}`;
+  }
+};
+
+// A date that's safe to put in a file name
+export const formatFileDate = (date: Date, settings: LocaleSettings): string =>
+  formatDate(date, settings)
+    .replace(/[\s/\\:,.]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+export const formatWeekday = (date: Date, settings: LocaleSettings): string =>
+  date.toLocaleDateString(settings.locale, { weekday: "long" });
+
+// Format an "HH:MM" time in the chosen hour cycle
+export const formatTime = (time: string, settings: LocaleSettings): string => {
+  const [hours, minutes] = time.split(":").map(Number);
+  if (
+    hours === undefined ||
+    minutes === undefined ||
+    isNaN(hours) ||
+    isNaN(minutes)
+  ) {
+    return time;
+  }
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(
+    settings.locale,
+    {
+      hour: "numeric",
+      minute: "2-digit",
+      hourCycle: settings.hourCycle === "12" ? "h12" : "h23",
+    },
+  );
+};
+
+// Format a moment as date and time, e.g. for when a backup was made
+export const formatDateTime = (date: Date, settings: LocaleSettings): string =>
+  `${formatDate(date, settings)} ${formatTime(
+    `${date.getHours()}:${date.getMinutes()}`,
+    settings,
+  )}`;
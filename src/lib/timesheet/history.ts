@@ -0,0 +1,69 @@
+import type { DayEntry } from "./types";
+
+// Edits remembered for each pay period
+export const MAX_HISTORY = 100;
+// Edits to the same field this close together undo as one, so a typed time
+// doesn't take an undo per keystroke
+export const MERGE_WINDOW_MS = 1000;
+
+// A period's days before each edit (oldest first) and after each undo
+export interface PeriodHistory {
+  past: DayEntry[][];
+  future: DayEntry[][];
+  lastEdit?: { mergeKey: string; at: number };
+}
+
+export const EMPTY_HISTORY: PeriodHistory = { past: [], future: [] };
+
+// Remember the days as they were before an edit. A new edit can't be redone
+// past, so it drops anything that was undone.
+export const recordEdit = (
+  history: PeriodHistory,
+  previous: DayEntry[],
+  mergeKey?: string,
+  now = Date.now(),
+): PeriodHistory => {
+  const continuesLastEdit =
+    mergeKey !== undefined &&
+    history.lastEdit?.mergeKey === mergeKey &&
+    now - history.lastEdit.at < MERGE_WINDOW_MS;
+  return {
+    past: continuesLastEdit
+      ? history.past
+      : [...history.past, previous].slice(-MAX_HISTORY),
+    future: [],
+    lastEdit: mergeKey === undefined ? undefined : { mergeKey, at: now },
+  };
+};
+
+// Null when there's nothing to undo
+export const undoEdit = (
+  history: PeriodHistory,
+  current: DayEntry[],
+): { history: PeriodHistory; days: DayEntry[] } | null => {
+  const days = history.past.at(-1);
+  if (!days) return null;
+  return {
+    days,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, current],
+    },
+  };
+};
+
+// Null when there's nothing to redo
+export const redoEdit = (
+  history: PeriodHistory,
+  current: DayEntry[],
+): { history: PeriodHistory; days: DayEntry[] } | null => {
+  const days = history.future.at(-1);
+  if (!days) return null;
+  return {
+    days,
+    history: {
+      past: [...history.past, current].slice(-MAX_HISTORY),
+      future: history.future.slice(0, -1),
+    },
+  };
+};
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_AUTO_BREAK_RULE,
+  calculateDayHours,
+  getEntrySpan,
+  recalculateWeek,
+  type HoursSettings,
+} from "./hours";
+import { DEFAULT_ROUNDING_POLICY } from "./rounding";
+import type { DayEntry, TimeEntry } from "./types";
+import { parseDateKey } from "./week";
+
+const SETTINGS: HoursSettings = {
+  overnightMode: "start-day",
+  autoBreakRule: DEFAULT_AUTO_BREAK_RULE,
+  rounding: DEFAULT_ROUNDING_POLICY,
+};
+
+const shift = (startTime: string, endTime: string, jobId?: string) => ({
+  startTime,
+  endTime,
+  hours: 0,
+  ...(jobId && { jobId }),
+});
+
+const createDay = (
+  date: string,
+  entries: TimeEntry[],
+  fields: Partial<DayEntry> = {},
+): DayEntry => ({
+  date: parseDateKey(date)!,
+  entries,
+  totalHours: 0,
+  useDirectHours: false,
+  ...fields,
+});
+
+describe("getEntrySpan", () => {
+  it("returns null without both times", () => {
+    expect(getEntrySpan(shift("09:00", ""))).toBeNull();
+    expect(getEntrySpan(shift("9am", "17:00"))).toBeNull();
+  });
+
+  it("splits an overnight shift at midnight", () => {
+    expect(getEntrySpan(shift("22:00", "06:00"))).toEqual({
+      beforeMidnight: 120,
+      afterMidnight: 360,
+      overnight: true,
+    });
+  });
+
+  it("counts the hour skipped when clocks spring forward", () => {
+    const span = getEntrySpan(
+      shift("00:00", "08:00"),
+      parseDateKey("2025-03-09")!,
+    );
+    expect(span?.beforeMidnight).toBe(7 * 60);
+  });
+
+  it("counts the hour repeated when clocks fall back", () => {
+    const span = getEntrySpan(
+      shift("22:00", "06:00"),
+      parseDateKey("2025-11-01")!,
+    );
+    expect(span).toEqual({
+      beforeMidnight: 120,
+      afterMidnight: 7 * 60,
+      overnight: true,
+    });
+  });
+});
+
+describe("calculateDayHours", () => {
+  it("moves hours after midnight to the next day when split", () => {
+    const { own, carryOut } = calculateDayHours(
+      createDay("2025-06-02", [shift("20:00", "04:00")]),
+      { ...SETTINGS, overnightMode: "split" },
+    );
+    expect(own.grossHours).toBe(4);
+    expect(carryOut.grossHours).toBe(4);
+  });
+
+  it("splits break intervals at midnight along with the shift", () => {
+    const { own, carryOut } = calculateDayHours(
+      createDay("2025-06-02", [shift("20:00", "04:00")], {
+        breaks: {
+          fixedMinutes: 0,
+          intervals: [{ startTime: "23:30", endTime: "00:30" }],
+        },
+      }),
+      { ...SETTINGS, overnightMode: "split" },
+    );
+    expect(own.breakHours).toBe(0.5);
+    expect(carryOut.breakHours).toBe(0.5);
+  });
+
+  it("splits a fixed break at midnight by the minutes worked", () => {
+    const day = createDay("2025-06-02", [shift("23:30", "07:30")], {
+      breaks: { fixedMinutes: 60, intervals: [] },
+    });
+    const { own, carryOut } = calculateDayHours(day, {
+      ...SETTINGS,
+      overnightMode: "split",
+    });
+    expect(own.breakHours).toBe(0.0625);
+    expect(carryOut.breakHours).toBe(0.9375);
+
+    const nextDay = createDay("2025-06-03", []);
+    const total = (overnightMode: "split" | "start-day") =>
+      recalculateWeek([day, nextDay], { ...SETTINGS, overnightMode }).reduce(
+        (sum, { totalHours }) => sum + totalHours,
+        0,
+      );
+    expect(total("split")).toBe(7);
+    expect(total("start-day")).toBe(7);
+  });
+
+  it("deducts the automatic break only from long shifts", () => {
+    const settings = {
+      ...SETTINGS,
+      autoBreakRule: { enabled: true, afterHours: 6, minutes: 30 },
+    };
+    expect(
+      calculateDayHours(
+        createDay("2025-06-02", [shift("09:00", "17:00")]),
+        settings,
+      ).own.breakHours,
+    ).toBe(0.5);
+    expect(
+      calculateDayHours(
+        createDay("2025-06-02", [shift("09:00", "13:00")]),
+        settings,
+      ).own.breakHours,
+    ).toBe(0);
+  });
+
+  it("rounds each punch with a punch rounding policy", () => {
+    const { own } = calculateDayHours(
+      createDay("2025-06-02", [shift("08:53", "17:08")]),
+      {
+        ...SETTINGS,
+        rounding: { mode: "nearest", increment: 15, applyTo: "punch" },
+      },
+    );
+    expect(own.grossHours).toBe(8.25);
+  });
+});
+
+describe("recalculateWeek", () => {
+  it("carries split overnight hours into the next day", () => {
+    const [first, second] = recalculateWeek(
+      [
+        createDay("2025-06-02", [shift("22:00", "02:00")]),
+        createDay("2025-06-03", [shift("09:00", "11:00")]),
+      ],
+      { ...SETTINGS, overnightMode: "split" },
+    );
+    expect(first?.totalHours).toBe(2);
+    expect(first?.carryOutHours).toBe(2);
+    expect(second?.carryInHours).toBe(2);
+    expect(second?.totalHours).toBe(4);
+  });
+
+  it("shares unpaid breaks across jobs by their hours", () => {
+    const [day] = recalculateWeek(
+      [
+        createDay(
+          "2025-06-02",
+          [shift("08:00", "14:00", "a"), shift("14:00", "16:00", "b")],
+          {
+            breaks: { fixedMinutes: 60, intervals: [] },
+          },
+        ),
+      ],
+      SETTINGS,
+    );
+    expect(day?.totalHours).toBe(7);
+    expect(day?.jobHours?.a).toBeCloseTo(5.25);
+    expect(day?.jobHours?.b).toBeCloseTo(1.75);
+  });
+
+  it("keeps the total before rounding when rounding is on", () => {
+    const [day] = recalculateWeek(
+      [createDay("2025-06-02", [shift("09:00", "16:50")])],
+      {
+        ...SETTINGS,
+        rounding: { mode: "nearest", increment: 15, applyTo: "day" },
+      },
+    );
+    expect(day?.totalHours).toBe(7.75);
+    expect(day?.unroundedHours).toBeCloseTo(7.8333, 4);
+  });
+});
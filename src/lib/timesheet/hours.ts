@@ -0,0 +1,376 @@
+import {
+  DEFAULT_ROUNDING_POLICY,
+  isRoundingEnabled,
+  roundMinutes,
+  type RoundingPolicy,
+} from "./rounding";
+import type {
+  AutoBreakRule,
+  BreakInterval,
+  DayEntry,
+  OvernightMode,
+  TimeEntry,
+} from "./types";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface EntrySpan {
+  beforeMidnight: number; // Minutes worked on the day the shift started
+  afterMidnight: number; // Minutes worked after rolling past midnight
+  overnight: boolean;
+}
+
+// Settings that change how a day's paid hours are worked out
+export interface HoursSettings {
+  overnightMode: OvernightMode;
+  autoBreakRule: AutoBreakRule;
+  rounding: RoundingPolicy;
+}
+
+// Hours that an overnight shift moves onto the following day
+export interface CarryOver {
+  grossHours: number;
+  breakHours: number;
+  grossByJob: Record<string, number>;
+}
+
+export const NO_CARRY_OVER: CarryOver = {
+  grossHours: 0,
+  breakHours: 0,
+  grossByJob: {},
+};
+
+const addJobHours = (
+  totals: Record<string, number>,
+  jobId: string | undefined,
+  hours: number,
+) => {
+  if (hours > 0) {
+    const key = jobId ?? "";
+    totals[key] = (totals[key] ?? 0) + hours;
+  }
+};
+
+export const DEFAULT_AUTO_BREAK_RULE: AutoBreakRule = {
+  enabled: false,
+  afterHours: 6,
+  minutes: 30,
+};
+
+// Parse an "HH:MM" string into minutes since midnight
+export const parseTimeToMinutes = (time: string): number | null => {
+  const parts = time.split(":");
+  if (parts.length !== 2) {
+    return null; // Malformed time string
+  }
+
+  // After length check, elements are guaranteed to be strings
+  const hour = parseInt(parts[0]!, 10);
+  const minute = parseInt(parts[1]!, 10);
+
+  if (isNaN(hour) || isNaN(minute)) {
+    return null; // Parts are not numbers
+  }
+
+  return hour * 60 + minute;
+};
+
+// Real minutes from the start of `date` until the wall clock reads `minutes`
+// past it, so the hour skipped or repeated by a DST change is counted. Without
+// a date every day is assumed to last 24 hours.
+const toElapsedMinutes = (date: Date | undefined, minutes: number): number => {
+  if (!date) {
+    return minutes;
+  }
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const day = date.getDate();
+  return (
+    (new Date(year, month, day, 0, minutes).getTime() -
+      new Date(year, month, day).getTime()) /
+    60000
+  );
+};
+
+// Work out how long a time entry lasts on `date`. An end time earlier than the
+// start time means the shift rolled past midnight into the next day.
+export const getEntrySpan = (
+  entry: TimeEntry,
+  date?: Date,
+): EntrySpan | null => {
+  if (!entry.startTime || !entry.endTime) {
+    return null;
+  }
+
+  const startMinutes = parseTimeToMinutes(entry.startTime);
+  const endMinutes = parseTimeToMinutes(entry.endTime);
+  if (startMinutes === null || endMinutes === null) {
+    return null;
+  }
+
+  const overnight = endMinutes < startMinutes;
+  const start = toElapsedMinutes(date, startMinutes);
+  const midnight = toElapsedMinutes(date, MINUTES_PER_DAY);
+  const end = toElapsedMinutes(
+    date,
+    endMinutes + (overnight ? MINUTES_PER_DAY : 0),
+  );
+  return {
+    beforeMidnight: Math.max(0, Math.min(end, midnight) - start),
+    afterMidnight: Math.max(0, end - Math.max(start, midnight)),
+    overnight,
+  };
+};
+
+const formatMinutes = (minutes: number): string => {
+  const wrapped =
+    ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`;
+};
+
+// The entry with its start and end times rounded, when punches are rounded.
+// A time rounded up to midnight wraps around to 00:00.
+export const roundEntry = (
+  entry: TimeEntry,
+  policy: RoundingPolicy,
+): TimeEntry => {
+  const start = parseTimeToMinutes(entry.startTime);
+  const end = parseTimeToMinutes(entry.endTime);
+  if (
+    !isRoundingEnabled(policy) ||
+    policy.applyTo !== "punch" ||
+    start === null ||
+    end === null
+  ) {
+    return entry;
+  }
+  return {
+    ...entry,
+    startTime: formatMinutes(roundMinutes(start, policy)),
+    endTime: formatMinutes(roundMinutes(end, policy)),
+  };
+};
+
+const scaleJobHours = (totals: Record<string, number>, ratio: number) =>
+  Object.keys(totals).forEach((jobId) => {
+    totals[jobId] = (totals[jobId] ?? 0) * ratio;
+  });
+
+export const isOvernightEntry = (entry: TimeEntry): boolean =>
+  getEntrySpan(entry)?.overnight ?? false;
+
+// Place an interval on a two-day timeline (0 = midnight at the start of the
+// day) so that overnight ranges stay contiguous. `dayOffset` moves it onto
+// the following day.
+const toTimeline = (
+  interval: TimeEntry | BreakInterval,
+  date: Date | undefined,
+  dayOffset = 0,
+): [number, number] | null => {
+  const start = parseTimeToMinutes(interval.startTime);
+  const end = parseTimeToMinutes(interval.endTime);
+  if (!getEntrySpan(interval) || start === null || end === null) {
+    return null;
+  }
+  const offset = dayOffset * MINUTES_PER_DAY;
+  return [
+    toElapsedMinutes(date, start + offset),
+    toElapsedMinutes(date, end + offset + (end < start ? MINUTES_PER_DAY : 0)),
+  ];
+};
+
+// Minutes of a break that fall inside a shift, split at midnight. A break in
+// the early hours may belong to the tail of an overnight shift, so it is also
+// tried one day later.
+const getBreakOverlap = (
+  shift: TimeEntry,
+  breakInterval: BreakInterval,
+  date?: Date,
+): { beforeMidnight: number; afterMidnight: number } => {
+  const shiftRange = toTimeline(shift, date);
+  if (!shiftRange) {
+    return { beforeMidnight: 0, afterMidnight: 0 };
+  }
+
+  const midnight = toElapsedMinutes(date, MINUTES_PER_DAY);
+  let beforeMidnight = 0;
+  let afterMidnight = 0;
+  for (const dayOffset of [0, 1]) {
+    const breakRange = toTimeline(breakInterval, date, dayOffset);
+    if (!breakRange) {
+      continue;
+    }
+    const start = Math.max(shiftRange[0], breakRange[0]);
+    const end = Math.min(shiftRange[1], breakRange[1]);
+    if (end <= start) {
+      continue;
+    }
+    beforeMidnight += Math.max(0, Math.min(end, midnight) - start);
+    afterMidnight += Math.max(0, end - Math.max(start, midnight));
+  }
+  return { beforeMidnight, afterMidnight };
+};
+
+const hasRecordedBreaks = (day: DayEntry): boolean =>
+  (day.breaks?.fixedMinutes ?? 0) > 0 ||
+  (day.breaks?.intervals.some((interval) => getEntrySpan(interval)) ?? false);
+
+// Gross and unpaid break hours for a single day's own entries, plus whatever
+// rolls over to the next day when overnight shifts are split at midnight.
+// Rounding applies to time entries only, since direct hours are already the
+// hours to be paid.
+export const calculateDayHours = (
+  day: DayEntry,
+  settings: HoursSettings,
+): { own: CarryOver; carryOut: CarryOver } => {
+  const { autoBreakRule, overnightMode, rounding } = settings;
+  const autoDeduct = autoBreakRule.enabled && !hasRecordedBreaks(day);
+  const fixedMinutes = day.breaks?.fixedMinutes ?? 0;
+
+  if (day.useDirectHours) {
+    let grossHours = 0;
+    let autoMinutes = 0;
+    const grossByJob: Record<string, number> = {};
+    day.entries.forEach((entry) => {
+      const hours = entry.hours ?? 0;
+      if (isNaN(hours) || hours <= 0) {
+        return;
+      }
+      grossHours += hours;
+      addJobHours(grossByJob, entry.jobId, hours);
+      if (autoDeduct && hours > autoBreakRule.afterHours) {
+        autoMinutes += autoBreakRule.minutes;
+      }
+    });
+    return {
+      own: {
+        grossHours,
+        breakHours: Math.min(grossHours, (fixedMinutes + autoMinutes) / 60),
+        grossByJob,
+      },
+      carryOut: NO_CARRY_OVER,
+    };
+  }
+
+  let beforeGross = 0;
+  let afterGross = 0;
+  let beforeBreaks = 0;
+  let afterBreaks = 0;
+  // The fixed and automatic breaks have no time of day of their own
+  let sharedBreaks = fixedMinutes;
+  const beforeByJob: Record<string, number> = {};
+  const afterByJob: Record<string, number> = {};
+
+  day.entries.forEach((rawEntry) => {
+    const entry = roundEntry(rawEntry, rounding);
+    const span = getEntrySpan(entry, day.date);
+    if (!span) {
+      return;
+    }
+    beforeGross += span.beforeMidnight;
+    afterGross += span.afterMidnight;
+    addJobHours(beforeByJob, entry.jobId, span.beforeMidnight / 60);
+    addJobHours(afterByJob, entry.jobId, span.afterMidnight / 60);
+
+    day.breaks?.intervals.forEach((breakInterval) => {
+      const overlap = getBreakOverlap(entry, breakInterval, day.date);
+      beforeBreaks += overlap.beforeMidnight;
+      afterBreaks += overlap.afterMidnight;
+    });
+
+    if (
+      autoDeduct &&
+      span.beforeMidnight + span.afterMidnight > autoBreakRule.afterHours * 60
+    ) {
+      sharedBreaks += autoBreakRule.minutes;
+    }
+  });
+
+  // Day rounding keeps the split at midnight and between jobs in proportion
+  if (isRoundingEnabled(rounding) && rounding.applyTo === "day") {
+    const worked = beforeGross + afterGross;
+    const ratio = worked > 0 ? roundMinutes(worked, rounding) / worked : 0;
+    beforeGross *= ratio;
+    afterGross *= ratio;
+    scaleJobHours(beforeByJob, ratio);
+    scaleJobHours(afterByJob, ratio);
+  }
+
+  if (overnightMode === "split") {
+    // Breaks without a time are split at midnight by the minutes worked
+    const worked = beforeGross + afterGross;
+    const sharedBefore = worked > 0 ? (sharedBreaks * beforeGross) / worked : 0;
+    beforeBreaks += sharedBefore;
+    afterBreaks += sharedBreaks - sharedBefore;
+    return {
+      own: {
+        grossHours: beforeGross / 60,
+        breakHours: Math.min(beforeGross, beforeBreaks) / 60,
+        grossByJob: beforeByJob,
+      },
+      carryOut: {
+        grossHours: afterGross / 60,
+        breakHours: Math.min(afterGross, afterBreaks) / 60,
+        grossByJob: afterByJob,
+      },
+    };
+  }
+
+  const gross = beforeGross + afterGross;
+  Object.entries(afterByJob).forEach(([jobId, hours]) =>
+    addJobHours(beforeByJob, jobId, hours),
+  );
+  return {
+    own: {
+      grossHours: gross / 60,
+      breakHours:
+        Math.min(gross, beforeBreaks + afterBreaks + sharedBreaks) / 60,
+      grossByJob: beforeByJob,
+    },
+    carryOut: NO_CARRY_OVER,
+  };
+};
+
+// Recalculate every day's total in order so that overnight hours flow into
+// the next day. `carryIn` is what the day before the first one rolled over.
+// Unpaid breaks are shared across jobs in proportion to their gross hours.
+// With rounding on, each day also gets its total without rounding.
+export const recalculateWeek = (
+  weekData: DayEntry[],
+  settings: HoursSettings,
+  carryIn: CarryOver = NO_CARRY_OVER,
+): DayEntry[] => {
+  const unrounded = isRoundingEnabled(settings.rounding)
+    ? recalculateWeek(
+        weekData,
+        { ...settings, rounding: DEFAULT_ROUNDING_POLICY },
+        carryIn,
+      )
+    : null;
+  let carry = carryIn;
+  return weekData.map((day, dayIndex) => {
+    const { own, carryOut } = calculateDayHours(day, settings);
+    const grossHours = own.grossHours + carry.grossHours;
+    const breakHours = own.breakHours + carry.breakHours;
+    const carryInHours = carry.grossHours - carry.breakHours;
+    const paidRatio =
+      grossHours > 0 ? (grossHours - breakHours) / grossHours : 0;
+    const jobHours: Record<string, number> = {};
+    [own.grossByJob, carry.grossByJob].forEach((grossByJob) =>
+      Object.entries(grossByJob).forEach(([jobId, hours]) =>
+        addJobHours(jobHours, jobId, hours * paidRatio),
+      ),
+    );
+    carry = carryOut;
+    return {
+      ...day,
+      grossHours,
+      breakHours,
+      jobHours,
+      carryInHours,
+      carryOutHours: carryOut.grossHours - carryOut.breakHours,
+      totalHours: grossHours - breakHours,
+      unroundedHours: unrounded?.[dayIndex]?.totalHours,
+    };
+  });
+};
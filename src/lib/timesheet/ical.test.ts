@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignEntryIds,
+  buildIcsImportRows,
+  buildTimesheetIcs,
+  parseIcs,
+} from "./ical";
+import type { DayEntry } from "./types";
+import { parseDateKey } from "./week";
+
+const calendar = (...lines: string[]) =>
+  ["BEGIN:VCALENDAR", ...lines, "END:VCALENDAR"].join("\r\n");
+
+const FILTER = {
+  from: parseDateKey("2025-03-01")!,
+  to: parseDateKey("2025-03-31")!,
+  keyword: "",
+};
+
+const createDay = (date: string, startTime: string, endTime: string) => ({
+  date: parseDateKey(date)!,
+  entries: [{ startTime, endTime, hours: 0 }],
+  totalHours: 0,
+  useDirectHours: false,
+});
+
+describe("parseIcs", () => {
+  it("reads folded lines, escaped text and durations", () => {
+    const [event] = parseIcs(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:shift-1",
+        "SUMMARY:Front desk\\, lobby",
+        "DESCRIPTION:Cover for a",
+        "  colleague",
+        "CATEGORIES:work,nights",
+        "DTSTART:20250310T090000",
+        "DURATION:PT8H30M",
+        "BEGIN:VALARM",
+        "DESCRIPTION:Reminder",
+        "END:VALARM",
+        "END:VEVENT",
+      ),
+    );
+    expect(event).toMatchObject({
+      uid: "shift-1",
+      summary: "Front desk, lobby",
+      description: "Cover for a colleague",
+      categories: ["work", "nights"],
+      start: new Date(2025, 2, 10, 9),
+      end: new Date(2025, 2, 10, 17, 30),
+      allDay: false,
+    });
+  });
+
+  it("converts UTC and TZID times to this device's zone", () => {
+    const [utc, berlin] = parseIcs(
+      calendar(
+        "BEGIN:VEVENT",
+        "DTSTART:20250310T130000Z",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "DTSTART;TZID=Europe/Berlin:20250310T140000",
+        "END:VEVENT",
+      ),
+    );
+    expect(utc?.start).toEqual(new Date(2025, 2, 10, 9));
+    expect(berlin?.start).toEqual(new Date(2025, 2, 10, 9));
+  });
+
+  it("warns about time zones it doesn't know", () => {
+    const [event] = parseIcs(
+      calendar(
+        "BEGIN:VEVENT",
+        "DTSTART;TZID=Nowhere/Special:20250310T090000",
+        "END:VEVENT",
+      ),
+    );
+    expect(event?.start).toEqual(new Date(2025, 2, 10, 9));
+    expect(event?.warnings).toEqual([
+      'Unknown time zone "Nowhere/Special", times read as local',
+    ]);
+  });
+});
+
+describe("buildIcsImportRows", () => {
+  const events = parseIcs(
+    calendar(
+      "BEGIN:VEVENT",
+      "UID:a",
+      "SUMMARY:Work",
+      "DTSTART:20250310T220000",
+      "DTEND:20250311T060000",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:b",
+      "SUMMARY:Dentist",
+      "DTSTART;VALUE=DATE:20250312",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:c",
+      "SUMMARY:Standup",
+      "RRULE:FREQ=DAILY",
+      "DTSTART:20250313T090000",
+      "DTEND:20250313T091500",
+      "END:VEVENT",
+    ),
+  );
+
+  it("turns events into entries on the day they start", () => {
+    const rows = buildIcsImportRows(events, FILTER, [], []);
+    expect(rows.map((row) => [row.entry, row.errors, row.warnings])).toEqual([
+      [{ id: "a", startTime: "22:00", endTime: "06:00", hours: 0 }, [], []],
+      [null, ["All-day event"], []],
+      [
+        {
+          id: "c",
+          startTime: "09:00",
+          endTime: "09:15",
+          hours: 0,
+          note: "Standup",
+        },
+        [],
+        ["Repeats, only the first time is imported"],
+      ],
+    ]);
+  });
+
+  it("filters by keyword and date range", () => {
+    expect(
+      buildIcsImportRows(events, { ...FILTER, keyword: "stand" }, [], []),
+    ).toHaveLength(1);
+    expect(
+      buildIcsImportRows(
+        events,
+        { ...FILTER, to: parseDateKey("2025-03-11")! },
+        [],
+        [],
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("marks shifts already in the timesheet as duplicates", () => {
+    const rows = buildIcsImportRows(
+      events,
+      FILTER,
+      [createDay("2025-03-10", "22:00", "06:00")],
+      [],
+    );
+    expect(rows[0]?.duplicate).toBe(true);
+  });
+
+  it("leaves off ids the timesheet already has", () => {
+    const existing: DayEntry = createDay("2025-03-20", "08:00", "16:00");
+    existing.entries = [{ ...existing.entries[0]!, id: "a" }];
+    const rows = buildIcsImportRows(events, FILTER, [existing], []);
+    expect(rows[0]?.entry).toEqual({
+      startTime: "22:00",
+      endTime: "06:00",
+      hours: 0,
+    });
+  });
+});
+
+describe("buildTimesheetIcs", () => {
+  it("keeps each entry's UID from one export to the next", () => {
+    const days: DayEntry[] = assignEntryIds([
+      createDay("2025-03-10", "22:00", "06:00"),
+    ]);
+    const uid = (ics: string) =>
+      ics.split("\r\n").find((line) => line.startsWith("UID:"));
+    const first = buildTimesheetIcs(days, [], "America/New_York");
+    const second = buildTimesheetIcs(
+      assignEntryIds(days),
+      [],
+      "America/New_York",
+    );
+    expect(uid(first)).toBe(`UID:${days[0]?.entries[0]?.id}@timesheet`);
+    expect(uid(second)).toBe(uid(first));
+  });
+
+  it("round-trips shifts through its own file", () => {
+    const ics = buildTimesheetIcs(
+      assignEntryIds([createDay("2025-03-08", "22:00", "06:00")]),
+      [],
+      "America/New_York",
+    );
+    expect(ics).toContain("BEGIN:VTIMEZONE");
+    // The shift runs into the night the clocks spring forward
+    const [event] = parseIcs(ics);
+    expect(event?.start).toEqual(new Date(2025, 2, 8, 22));
+    expect(event?.end).toEqual(new Date(2025, 2, 9, 6));
+  });
+
+  it("keeps entry ids through an export and import", () => {
+    const days = assignEntryIds([createDay("2025-03-10", "22:00", "06:00")]);
+    const ics = buildTimesheetIcs(days, [], "America/New_York");
+    const [row] = buildIcsImportRows(parseIcs(ics), FILTER, [], []);
+    expect(row?.entry?.id).toBe(days[0]?.entries[0]?.id);
+    // Exported again, the imported entry updates the same calendar event
+    expect(
+      buildTimesheetIcs(
+        [{ ...days[0]!, entries: [row!.entry!] }],
+        [],
+        "America/New_York",
+      ),
+    ).toContain(`UID:${days[0]?.entries[0]?.id}@timesheet`);
+  });
+});
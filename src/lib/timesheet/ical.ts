@@ -0,0 +1,611 @@
+import { MAX_ENTRY_MINUTES, isEmptyEntry, toTimeValue } from "./clock";
+import { parseTimeToMinutes } from "./hours";
+import { findJob } from "./jobs";
+import type { DayEntry, Job, TimeEntry } from "./types";
+import { addDays, toDateKey } from "./week";
+
+const PRODUCT_ID = "-//Time Sheet Calculator//Timesheet//EN";
+// The title of exported entries without a job. Imported events with this
+// title get no note.
+const DEFAULT_SUMMARY = "Work";
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// The IANA name of this device's time zone, e.g. "Europe/Berlin". Times in
+// the timesheet are wall-clock times in this zone.
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Wall-clock time as YYYYMMDDTHHMMSS
+const formatLocalDateTime = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+const formatUtcDateTime = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const formatOffset = (minutes: number): string =>
+  `${minutes < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 bytes continue on the next line after a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  let folded = "";
+  let width = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (width + size > 75) {
+      folded += "\r\n ";
+      width = 1;
+    }
+    folded += char;
+    width += size;
+  }
+  return folded;
+};
+
+// This device's offset from UTC in minutes at `time`
+const getDeviceOffset = (time: number): number =>
+  -new Date(time).getTimezoneOffset();
+
+// Instants between `from` and `to` where the device's UTC offset changes,
+// found day by day and then to the minute
+const findOffsetChanges = (from: number, to: number): number[] => {
+  const changes: number[] = [];
+  for (let time = from; time < to; time += DAY) {
+    let low = time;
+    let high = Math.min(time + DAY, to);
+    if (getDeviceOffset(low) === getDeviceOffset(high)) {
+      continue;
+    }
+    while (high - low > MINUTE) {
+      const middle = low + Math.floor((high - low) / (2 * MINUTE)) * MINUTE;
+      if (getDeviceOffset(middle) === getDeviceOffset(low)) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    changes.push(high);
+  }
+  return changes;
+};
+
+// A VTIMEZONE with one observance per offset change between `from` and `to`,
+// so calendars place the events right whether or not they know the zone
+const buildTimeZone = (timeZone: string, from: Date, to: Date): string[] => {
+  const year = from.getFullYear();
+  const standardOffset = Math.min(
+    getDeviceOffset(new Date(year, 0, 1).getTime()),
+    getDeviceOffset(new Date(year, 6, 1).getTime()),
+  );
+  const observance = (time: number, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${kind}`,
+      // The onset is written in the wall-clock time before the change
+      `DTSTART:${formatUtcDateTime(new Date(time + offsetFrom * MINUTE)).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+  const start = from.getTime();
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observance(start, getDeviceOffset(start), getDeviceOffset(start)),
+    ...findOffsetChanges(start, to.getTime()).flatMap((time) =>
+      observance(time, getDeviceOffset(time - MINUTE), getDeviceOffset(time)),
+    ),
+    "END:VTIMEZONE",
+  ];
+};
+
+// When a time entry starts and ends. An end time before the start time is on
+// the next day.
+const getShiftTimes = (
+  date: Date,
+  entry: TimeEntry,
+): { start: Date; end: Date } | null => {
+  const startMinutes = parseTimeToMinutes(entry.startTime);
+  const endMinutes = parseTimeToMinutes(entry.endTime);
+  if (startMinutes === null || endMinutes === null) {
+    return null;
+  }
+  const atMinutes = (minutes: number) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, minutes);
+  return {
+    start: atMinutes(startMinutes),
+    end: atMinutes(endMinutes + (endMinutes < startMinutes ? 24 * 60 : 0)),
+  };
+};
+
+// Appended to entry ids in event UIDs, and taken off again on import
+const UID_SUFFIX = "@timesheet";
+
+// Give every timed entry an id, so it keeps the same event UID each time it
+// is exported. Days whose entries all have one are returned as they are.
+export const assignEntryIds = (days: DayEntry[]): DayEntry[] =>
+  days.map((day) =>
+    day.useDirectHours ||
+    day.entries.every((entry) => entry.id ?? isEmptyEntry(entry))
+      ? day
+      : {
+          ...day,
+          entries: day.entries.map((entry) =>
+            (entry.id ?? isEmptyEntry(entry))
+              ? entry
+              : { ...entry, id: crypto.randomUUID() },
+          ),
+        },
+  );
+
+// One event per time entry in `days`, in this device's time zone. Entries
+// need an id from `assignEntryIds` for calendars to update their events on
+// the next export instead of adding them again. Days in
+// direct hours mode have no times to put in a calendar and are left out.
+export const buildTimesheetIcs = (
+  days: DayEntry[],
+  jobs: Job[],
+  timeZone: string = getDeviceTimeZone(),
+  now: Date = new Date(),
+): string => {
+  const shifts = days
+    .filter((day) => !day.useDirectHours)
+    .flatMap((day) =>
+      day.entries.flatMap((entry) => {
+        const times = getShiftTimes(day.date, entry);
+        return times && times.end > times.start
+          ? [{ day, entry, ...times }]
+          : [];
+      }),
+    );
+
+  const events = shifts.flatMap(({ entry, start, end }) => [
+    "BEGIN:VEVENT",
+    `UID:${entry.id ?? crypto.randomUUID()}${UID_SUFFIX}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `DTSTART;TZID=${timeZone}:${formatLocalDateTime(start)}`,
+    `DTEND;TZID=${timeZone}:${formatLocalDateTime(end)}`,
+    `SUMMARY:${escapeText(findJob(jobs, entry.jobId ?? "")?.name ?? DEFAULT_SUMMARY)}`,
+    ...(entry.note ? [`DESCRIPTION:${escapeText(entry.note)}`] : []),
+    ...(entry.tags?.length
+      ? [`CATEGORIES:${entry.tags.map(escapeText).join(",")}`]
+      : []),
+    "END:VEVENT",
+  ]);
+
+  const first = shifts[0];
+  const last = shifts[shifts.length - 1];
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      `X-WR-TIMEZONE:${timeZone}`,
+      ...(first && last
+        ? buildTimeZone(timeZone, first.day.date, addDays(last.day.date, 2))
+        : []),
+      ...events,
+      "END:VCALENDAR",
+    ]
+      .map(foldLine)
+      .join("\r\n") + "\r\n"
+  );
+};
+
+// A calendar event with its times read into this device's time zone
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  categories: string[];
+  start: Date | null;
+  end: Date | null;
+  allDay: boolean;
+  timeZone: string | null; // The start's zone, null for local times
+  repeats: boolean; // Has an RRULE. Only the first occurrence is imported.
+  cancelled: boolean;
+  warnings: string[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let index = 0; index < line.length && colon < 0; index++) {
+    if (line[index] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[index] === ":" && !inQuotes) {
+      colon = index;
+    }
+  }
+  if (colon < 0) {
+    return null;
+  }
+  const [name = "", ...params] = line.slice(0, colon).split(";");
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key = "", ...value] = param.split("=");
+        return [key.toUpperCase(), value.join("=").replace(/^"|"$/g, "")];
+      }),
+    ),
+    value: line.slice(colon + 1),
+  };
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char,
+  );
+
+// Split on commas that aren't escaped
+const splitList = (value: string): string[] =>
+  value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean);
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+// How far `timeZone` is ahead of UTC at `time`, in milliseconds. Throws a
+// RangeError for zones the browser doesn't know.
+const getZoneOffset = (timeZone: string, time: number): number => {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormats.set(timeZone, format);
+  }
+  const parts = format.formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return (
+    Date.UTC(
+      part("year"),
+      part("month") - 1,
+      part("day"),
+      part("hour"),
+      part("minute"),
+      part("second"),
+    ) -
+    Math.floor(time / 1000) * 1000
+  );
+};
+
+// The instant a wall-clock time in `timeZone` refers to. `wallTime` is the
+// wall clock read as if it were UTC.
+const fromZonedTime = (wallTime: number, timeZone: string): Date => {
+  const guess = wallTime - getZoneOffset(timeZone, wallTime);
+  return new Date(wallTime - getZoneOffset(timeZone, guess));
+};
+
+// A DATE or DATE-TIME value. UTC times and times with a TZID are converted
+// to this device's time zone; floating times are read as they are.
+const parseIcsTime = (
+  property: IcsProperty,
+): {
+  date: Date;
+  allDay: boolean;
+  timeZone?: string;
+  warning?: string;
+} | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    property.value.trim(),
+  );
+  if (!match) {
+    return null;
+  }
+  const [year = 0, month = 1, day = 1, hour = 0, minute = 0, second = 0] = match
+    .slice(1, 7)
+    .map((value) => Number(value ?? 0));
+  const fields = [year, month - 1, day, hour, minute, second] as const;
+  if (!match[4] || property.params.VALUE === "DATE") {
+    return { date: new Date(year, month - 1, day), allDay: true };
+  }
+  if (match[7]) {
+    return {
+      date: new Date(Date.UTC(...fields)),
+      allDay: false,
+      timeZone: "UTC",
+    };
+  }
+  const timeZone = property.params.TZID;
+  if (timeZone) {
+    try {
+      return {
+        date: fromZonedTime(Date.UTC(...fields), timeZone),
+        allDay: false,
+        timeZone,
+      };
+    } catch {
+      return {
+        date: new Date(...fields),
+        allDay: false,
+        warning: `Unknown time zone "${timeZone}", times read as local`,
+      };
+    }
+  }
+  return { date: new Date(...fields), allDay: false };
+};
+
+// An ISO 8601 duration like PT8H30M, in milliseconds
+const parseDuration = (value: string): number | null => {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim(),
+    );
+  if (!match) {
+    return null;
+  }
+  const [weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0] = match
+    .slice(2)
+    .map((part) => Number(part ?? 0));
+  const total =
+    ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  return match[1] === "-" ? -total : total;
+};
+
+const createEvent = (): IcsEvent => ({
+  uid: "",
+  summary: "",
+  description: "",
+  categories: [],
+  start: null,
+  end: null,
+  allDay: false,
+  timeZone: null,
+  repeats: false,
+  cancelled: false,
+  warnings: [],
+});
+
+// Every VEVENT in an iCalendar file. Alarms and other parts nested in an
+// event are skipped.
+export const parseIcs = (text: string): IcsEvent[] => {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter(Boolean);
+  const events: IcsEvent[] = [];
+  let event: IcsEvent | null = null;
+  let duration: number | null = null;
+  let depth = 0; // Components opened inside the current event
+
+  lines.forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) {
+      return;
+    }
+    const value = property.value.toUpperCase();
+    if (property.name === "BEGIN") {
+      if (event) {
+        depth++;
+      } else if (value === "VEVENT") {
+        event = createEvent();
+        duration = null;
+      }
+      return;
+    }
+    if (!event) {
+      return;
+    }
+    if (property.name === "END") {
+      if (depth > 0) {
+        depth--;
+      } else if (value === "VEVENT") {
+        if (!event.end && event.start && duration !== null) {
+          event.end = new Date(event.start.getTime() + duration);
+        }
+        events.push(event);
+        event = null;
+      }
+      return;
+    }
+    if (depth > 0) {
+      return;
+    }
+
+    switch (property.name) {
+      case "UID":
+        event.uid = property.value;
+        break;
+      case "SUMMARY":
+        event.summary = unescapeText(property.value).trim();
+        break;
+      case "DESCRIPTION":
+        event.description = unescapeText(property.value).trim();
+        break;
+      case "CATEGORIES":
+        event.categories.push(...splitList(property.value));
+        break;
+      case "STATUS":
+        event.cancelled = value === "CANCELLED";
+        break;
+      case "RRULE":
+        event.repeats = true;
+        break;
+      case "DURATION":
+        duration = parseDuration(property.value);
+        break;
+      case "DTSTART":
+      case "DTEND": {
+        const time = parseIcsTime(property);
+        if (time?.warning && !event.warnings.includes(time.warning)) {
+          event.warnings.push(time.warning);
+        }
+        if (property.name === "DTSTART") {
+          event.start = time?.date ?? null;
+          event.allDay = time?.allDay ?? false;
+          event.timeZone = time?.timeZone ?? null;
+        } else {
+          event.end = time?.date ?? null;
+        }
+        break;
+      }
+    }
+  });
+  return events;
+};
+
+export interface IcsImportFilter {
+  from: Date;
+  to: Date; // Inclusive
+  keyword: string; // Matched against the title, description and categories
+}
+
+// An event as a time entry on the day it starts. Rows with errors
+// or marked as duplicates are shown in the preview but not imported.
+export interface IcsImportRow {
+  key: string;
+  date: Date;
+  summary: string;
+  entry: TimeEntry | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean; // Already in the timesheet or earlier in the file
+}
+
+const isSameShift = (a: TimeEntry, b: TimeEntry): boolean =>
+  parseTimeToMinutes(a.startTime) === parseTimeToMinutes(b.startTime) &&
+  parseTimeToMinutes(a.endTime) === parseTimeToMinutes(b.endTime);
+
+// Events starting in the filter's range that match its keyword, checked
+// against `existingDays` for entries with the same times. An event whose
+// title is a job's name is assigned to that job.
+export const buildIcsImportRows = (
+  events: IcsEvent[],
+  filter: IcsImportFilter,
+  existingDays: DayEntry[],
+  jobs: Job[],
+): IcsImportRow[] => {
+  const from = filter.from.getTime();
+  const until = addDays(filter.to, 1);
+  const keyword = filter.keyword.trim().toLowerCase();
+  const existingByDate = new Map(
+    existingDays.map((day) => [toDateKey(day.date), day]),
+  );
+  const rows = events
+    .filter(
+      (event): event is IcsEvent & { start: Date } =>
+        !!event.start &&
+        !event.cancelled &&
+        event.start.getTime() >= from &&
+        event.start < until &&
+        (!keyword ||
+          [event.summary, event.description, ...event.categories].some((text) =>
+            text.toLowerCase().includes(keyword),
+          )),
+    )
+    .map((event) => {
+      const { start } = event;
+      const length = event.end ? event.end.getTime() - start.getTime() : 0;
+      const errors: string[] = [];
+      if (event.allDay) {
+        errors.push("All-day event");
+      } else if (!event.end) {
+        errors.push("No end time");
+      } else if (length <= 0) {
+        errors.push("Ends before it starts");
+      } else if (length > MAX_ENTRY_MINUTES * MINUTE) {
+        errors.push("Longer than a day");
+      }
+      const date = addDays(start, 0);
+      const existingDay = existingByDate.get(toDateKey(date));
+      if (
+        existingDay?.useDirectHours &&
+        existingDay.entries.some((entry) => !isEmptyEntry(entry))
+      ) {
+        errors.push("The day has hours entered without times");
+      }
+
+      const job = jobs.find(
+        ({ name }) => name.trim().toLowerCase() === event.summary.toLowerCase(),
+      );
+      const note =
+        event.description ||
+        (job || event.summary === DEFAULT_SUMMARY ? "" : event.summary);
+      const id = event.uid.endsWith(UID_SUFFIX)
+        ? event.uid.slice(0, -UID_SUFFIX.length)
+        : event.uid;
+      const entry: TimeEntry = {
+        ...(id && { id }),
+        startTime: toTimeValue(start),
+        endTime: toTimeValue(new Date(start.getTime() + length)),
+        hours: 0,
+        ...(job && { jobId: job.id }),
+        ...(note && { note }),
+        ...(event.categories.length > 0 && { tags: event.categories }),
+      };
+      return {
+        key: `${event.uid}-${start.getTime()}`,
+        date,
+        summary: event.summary,
+        entry: errors.length === 0 ? entry : null,
+        errors,
+        warnings: event.repeats
+          ? [...event.warnings, "Repeats, only the first time is imported"]
+          : event.warnings,
+        duplicate: false,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.date.getTime() - b.date.getTime() ||
+        (a.entry?.startTime ?? "").localeCompare(b.entry?.startTime ?? ""),
+    );
+
+  // Compared once sorted, so the first of two identical events is kept
+  const imported = new Map<string, TimeEntry[]>();
+  // An id already in the timesheet, like a moved shift's, is left off so no
+  // two entries export with the same UID
+  const usedIds = new Set(
+    existingDays.flatMap((day) => day.entries.map((entry) => entry.id)),
+  );
+  return rows.map((row) => {
+    if (!row.entry) {
+      return row;
+    }
+    const dateKey = toDateKey(row.date);
+    const dayEntries = [
+      ...(existingByDate.get(dateKey)?.entries ?? []),
+      ...(imported.get(dateKey) ?? []),
+    ];
+    if (dayEntries.some((entry) => isSameShift(entry, row.entry!))) {
+      return { ...row, duplicate: true };
+    }
+    const { id, ...rest } = row.entry;
+    const entry = id && !usedIds.has(id) ? row.entry : rest;
+    usedIds.add(id);
+    imported.set(dateKey, [...(imported.get(dateKey) ?? []), entry]);
+    return { ...row, entry };
+  });
+};
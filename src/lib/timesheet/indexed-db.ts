@@ -0,0 +1,128 @@
+import {
+  SETTINGS_PREFIX,
+  localStorageAdapter,
+  setDeviceStorage,
+  type StorageAdapter,
+} from "./storage";
+
+const DB_NAME = "timesheet";
+const DB_VERSION = 1;
+const STORE_NAME = "entries";
+// Set once everything in localStorage has been moved over. It doesn't start
+// with the timesheet prefix, so it's never backed up or synced.
+const MIGRATED_KEY = "migrated-from-local-storage";
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    const fail = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  return requestToPromise(request);
+};
+
+// Move every timesheet key out of localStorage in one transaction. The keys
+// are only removed from localStorage once IndexedDB has them, so a failed
+// migration leaves everything where it was and is tried again next time.
+const migrateLocalStorage = async (
+  db: IDBDatabase,
+  values: Map<string, string>,
+): Promise<void> => {
+  const keys = localStorageAdapter
+    .keys()
+    .filter((key) => key.startsWith(SETTINGS_PREFIX));
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  const store = transaction.objectStore(STORE_NAME);
+  keys.forEach((key) => {
+    const value = localStorageAdapter.getItem(key);
+    if (value !== null && !values.has(key)) {
+      store.put(value, key);
+      values.set(key, value);
+    }
+  });
+  store.put("true", MIGRATED_KEY);
+  await transactionToPromise(transaction);
+  values.set(MIGRATED_KEY, "true");
+  keys.forEach((key) => localStorageAdapter.removeItem(key));
+};
+
+// Everything is read into memory when the database opens, so reads stay
+// synchronous. Writes update memory at once and reach IndexedDB in the
+// background, in the order they were made.
+const openIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+  const [keys, storedValues] = await Promise.all([
+    // Only string keys are ever written
+    requestToPromise(store.getAllKeys() as IDBRequest<string[]>),
+    requestToPromise(store.getAll() as IDBRequest<string[]>),
+  ]);
+  const values = new Map(
+    keys.map((key, index) => [key, storedValues[index] ?? ""]),
+  );
+  if (!values.has(MIGRATED_KEY)) {
+    await migrateLocalStorage(db, values);
+  }
+
+  const write = (key: string, value: string | null) => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const objectStore = transaction.objectStore(STORE_NAME);
+    if (value === null) {
+      objectStore.delete(key);
+    } else {
+      objectStore.put(value, key);
+    }
+    transactionToPromise(transaction).catch((error) =>
+      console.error(`Error saving ${key} to IndexedDB:`, error),
+    );
+  };
+
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      if (values.get(key) === value) return;
+      values.set(key, value);
+      write(key, value);
+    },
+    removeItem: (key) => {
+      if (!values.delete(key)) return;
+      write(key, null);
+    },
+    keys: () => Array.from(values.keys()),
+  };
+};
+
+let deviceStorage: Promise<StorageAdapter> | null = null;
+
+// Open this browser's storage once per page load and make it the one
+// everything reads from: IndexedDB where it's available, localStorage
+// otherwise (e.g. some private browsing modes).
+export const openDeviceStorage = (): Promise<StorageAdapter> => {
+  deviceStorage ??= (
+    typeof indexedDB !== "undefined"
+      ? openIndexedDbAdapter().catch((error) => {
+          console.error("IndexedDB unavailable, using localStorage:", error);
+          return localStorageAdapter;
+        })
+      : Promise.resolve(localStorageAdapter)
+  ).then((adapter) => {
+    setDeviceStorage(adapter);
+    return adapter;
+  });
+  return deviceStorage;
+};
@@ -0,0 +1,98 @@
+import type { EarningsBreakdown } from "./overtime";
+import type { DayEntry, Job } from "./types";
+
+// Key used for hours that aren't tagged with a job
+export const UNASSIGNED_JOB_ID = "";
+
+export const JOB_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#d97706",
+  "#dc2626",
+  "#9333ea",
+  "#0891b2",
+];
+
+export interface JobTotal {
+  jobId: string;
+  hours: number;
+  pay: number;
+}
+
+export const createJob = (existingJobs: Job[], rate: number): Job => ({
+  id: crypto.randomUUID(),
+  name: `Job ${existingJobs.length + 1}`,
+  rate,
+  color: JOB_COLORS[existingJobs.length % JOB_COLORS.length]!,
+});
+
+// Jobs that were deleted from the catalog fall back to the default wage
+export const findJob = (jobs: Job[], jobId: string): Job | undefined =>
+  jobs.find((job) => job.id === jobId);
+
+export const getJobRate = (
+  jobs: Job[],
+  jobId: string,
+  hourlyWage: number,
+): number => findJob(jobs, jobId)?.rate ?? hourlyWage;
+
+export const getJobName = (jobs: Job[], jobId: string): string =>
+  findJob(jobs, jobId)?.name ?? "Unassigned";
+
+// Straight-time pay for a day divided by its hours, used as the base rate
+// when overtime is worked across jobs with different rates
+export const getBlendedRate = (
+  day: DayEntry,
+  jobs: Job[],
+  hourlyWage: number,
+): number => {
+  const entries = Object.entries(day.jobHours ?? {});
+  const hours = entries.reduce((total, [, jobHours]) => total + jobHours, 0);
+  if (hours <= 0) {
+    return hourlyWage;
+  }
+  const pay = entries.reduce(
+    (total, [jobId, jobHours]) =>
+      total + jobHours * getJobRate(jobs, jobId, hourlyWage),
+    0,
+  );
+  return pay / hours;
+};
+
+// Hours and pay per job for one day. Overtime premiums are shared across jobs
+// in proportion to each job's straight-time pay.
+export const calculateDayJobTotals = (
+  day: DayEntry,
+  dayEarnings: EarningsBreakdown | undefined,
+  jobs: Job[],
+  hourlyWage: number,
+): JobTotal[] => {
+  // Hours tagged with a deleted job are grouped with the untagged ones
+  const straight = sumJobTotals([
+    Object.entries(day.jobHours ?? {}).map(([jobId, hours]) => ({
+      jobId: findJob(jobs, jobId) ? jobId : UNASSIGNED_JOB_ID,
+      hours,
+      pay: hours * getJobRate(jobs, jobId, hourlyWage),
+    })),
+  ]);
+  const straightPay = straight.reduce((total, job) => total + job.pay, 0);
+  // Leave pay isn't earned on any job
+  const totalPay = dayEarnings
+    ? dayEarnings.totalPay - dayEarnings.leavePay
+    : straightPay;
+  const premiumRatio = straightPay > 0 ? totalPay / straightPay : 1;
+  return straight.map((job) => ({ ...job, pay: job.pay * premiumRatio }));
+};
+
+export const sumJobTotals = (totals: JobTotal[][]): JobTotal[] => {
+  const byJob = new Map<string, JobTotal>();
+  totals.flat().forEach((total) => {
+    const existing = byJob.get(total.jobId);
+    byJob.set(total.jobId, {
+      jobId: total.jobId,
+      hours: (existing?.hours ?? 0) + total.hours,
+      pay: (existing?.pay ?? 0) + total.pay,
+    });
+  });
+  return Array.from(byJob.values());
+};
@@ -0,0 +1,201 @@
+import type { DayEntry, DayType } from "./types";
+import { addDays, getWeekStart, parseDateKey, toDateKey } from "./week";
+
+export type LeaveType = Exclude<DayType, "worked">;
+
+// How a type of leave is paid. Hours that count toward overtime push worked
+// hours past the thresholds sooner without being paid as overtime themselves.
+export interface LeaveRule {
+  payMultiplier: number; // Times the hourly wage, 0 for unpaid
+  countsTowardOvertime: boolean;
+}
+
+// - "per-hour": `rate` PTO hours for every hour worked
+// - "per-week": `rate` PTO hours for every workweek
+export type AccrualMethod = "per-hour" | "per-week";
+
+export interface PtoAccrual {
+  enabled: boolean;
+  method: AccrualMethod;
+  rate: number;
+  startDate: string | null; // YYYY-MM-DD, or null for the first stored day
+  startingBalance: number; // PTO hours on the start date
+  maxBalance: number | null; // Nothing more is accrued at this balance
+}
+
+// A day off marked on new pay periods. Yearly holidays fall on the same month
+// and day every year.
+export interface Holiday {
+  id: string;
+  name: string;
+  date: string; // YYYY-MM-DD
+  repeatsYearly: boolean;
+}
+
+export interface LeaveSettings {
+  defaultHours: number; // Filled in when a day is marked as leave
+  rules: Record<LeaveType, LeaveRule>;
+  accrual: PtoAccrual;
+  holidays: Holiday[];
+}
+
+// PTO earned and taken in one workweek
+export interface PtoWeek {
+  weekStart: Date;
+  accrued: number;
+  used: number;
+  balance: number; // At the end of the week
+}
+
+export const DAY_TYPE_LABELS: Record<DayType, string> = {
+  worked: "Worked",
+  pto: "PTO",
+  sick: "Sick",
+  holiday: "Holiday",
+  unpaid: "Unpaid leave",
+};
+
+export const DEFAULT_LEAVE_RULES: Record<LeaveType, LeaveRule> = {
+  pto: { payMultiplier: 1, countsTowardOvertime: false },
+  sick: { payMultiplier: 1, countsTowardOvertime: false },
+  holiday: { payMultiplier: 1, countsTowardOvertime: false },
+  unpaid: { payMultiplier: 0, countsTowardOvertime: false },
+};
+
+export const DEFAULT_LEAVE_SETTINGS: LeaveSettings = {
+  defaultHours: 8,
+  rules: DEFAULT_LEAVE_RULES,
+  accrual: {
+    enabled: false,
+    method: "per-hour",
+    rate: 0.0333, // One hour for every 30 worked
+    startDate: null,
+    startingBalance: 0,
+    maxBalance: null,
+  },
+  holidays: [],
+};
+
+export const getLeaveType = (day: DayEntry): LeaveType | null =>
+  day.dayType && day.dayType !== "worked" ? day.dayType : null;
+
+export const getLeaveHours = (day: DayEntry): number =>
+  getLeaveType(day) ? Math.max(0, day.leaveHours ?? 0) : 0;
+
+// Leave hours of `day` that count toward overtime thresholds
+export const getCountedLeaveHours = (
+  day: DayEntry,
+  rules: Record<LeaveType, LeaveRule>,
+): number => {
+  const leaveType = getLeaveType(day);
+  return leaveType && rules[leaveType].countsTowardOvertime
+    ? getLeaveHours(day)
+    : 0;
+};
+
+// Leave hours per type across `days`, leaving out types with none
+export const sumLeaveHours = (
+  days: DayEntry[],
+): { leaveType: LeaveType; hours: number }[] =>
+  (Object.keys(DEFAULT_LEAVE_RULES) as LeaveType[])
+    .map((leaveType) => ({
+      leaveType,
+      hours: days
+        .filter((day) => getLeaveType(day) === leaveType)
+        .reduce((total, day) => total + getLeaveHours(day), 0),
+    }))
+    .filter(({ hours }) => hours > 0);
+
+export const createHoliday = (date: Date): Holiday => ({
+  id: crypto.randomUUID(),
+  name: "Holiday",
+  date: toDateKey(date),
+  repeatsYearly: true,
+});
+
+export const findHoliday = (
+  date: Date,
+  holidays: Holiday[],
+): Holiday | undefined => {
+  const dateKey = toDateKey(date);
+  return holidays.find((holiday) =>
+    holiday.repeatsYearly
+      ? holiday.date.slice(5) === dateKey.slice(5)
+      : holiday.date === dateKey,
+  );
+};
+
+// Mark the days of a new period that are holidays, named after the holiday.
+// Shifts a schedule template put on them are cleared.
+export const markHolidays = (
+  days: DayEntry[],
+  settings: LeaveSettings,
+): DayEntry[] =>
+  days.map((day) => {
+    const holiday = findHoliday(day.date, settings.holidays);
+    if (!holiday) {
+      return day;
+    }
+    return {
+      ...day,
+      entries: [{ startTime: "", endTime: "", hours: 0 }],
+      useDirectHours: false,
+      dayType: "holiday",
+      leaveHours: settings.defaultHours,
+      note: day.note ?? holiday.name,
+    };
+  });
+
+// PTO accrued and used per workweek, from the accrual's start date through
+// the week containing `through`. `days` are every stored day.
+export const calculatePtoLedger = (
+  days: DayEntry[],
+  accrual: PtoAccrual,
+  weekStartDay: number,
+  through: Date,
+): PtoWeek[] => {
+  const start =
+    (accrual.startDate ? parseDateKey(accrual.startDate) : null) ??
+    days.reduce<Date | null>(
+      (first, day) => (!first || day.date < first ? day.date : first),
+      null,
+    );
+  if (!start) {
+    return [];
+  }
+
+  const fromKey = toDateKey(start);
+  const weekTotals = new Map<string, { worked: number; used: number }>();
+  days.forEach((day) => {
+    if (toDateKey(day.date) < fromKey) {
+      return;
+    }
+    const weekKey = toDateKey(getWeekStart(day.date, weekStartDay));
+    const totals = weekTotals.get(weekKey) ?? { worked: 0, used: 0 };
+    totals.worked += day.totalHours;
+    totals.used += day.dayType === "pto" ? getLeaveHours(day) : 0;
+    weekTotals.set(weekKey, totals);
+  });
+
+  const weeks: PtoWeek[] = [];
+  let balance = accrual.startingBalance;
+  for (
+    let weekStart = getWeekStart(start, weekStartDay);
+    weekStart <= through;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    const { worked, used } = weekTotals.get(toDateKey(weekStart)) ?? {
+      worked: 0,
+      used: 0,
+    };
+    const earned =
+      accrual.method === "per-week" ? accrual.rate : worked * accrual.rate;
+    const accrued =
+      accrual.maxBalance === null
+        ? earned
+        : Math.max(0, Math.min(earned, accrual.maxBalance - balance));
+    balance += accrued - used;
+    weeks.push({ weekStart, accrued, used, balance });
+  }
+  return weeks;
+};
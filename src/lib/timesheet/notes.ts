@@ -0,0 +1,21 @@
+// Tags are typed as a comma separated list. A leading "#" is optional, and
+// the same tag is only kept once whatever its case.
+export const parseTags = (text: string): string[] => {
+  const tags = new Map<string, string>();
+  text.split(",").forEach((part) => {
+    const tag = part.trim().replace(/^#+/, "").trim();
+    if (tag && !tags.has(tag.toLowerCase())) {
+      tags.set(tag.toLowerCase(), tag);
+    }
+  });
+  return Array.from(tags.values());
+};
+
+export const formatTags = (tags: string[] | undefined): string =>
+  (tags ?? []).join(", ");
+
+// The note and tags that time entries and days can both have
+export interface Notes {
+  note?: string;
+  tags?: string[];
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { OVERTIME_PRESETS, calculateOvertime } from "./overtime";
+
+describe("calculateOvertime", () => {
+  it("pays hours past 40 a week as overtime under the federal rules", () => {
+    const { days, week } = calculateOvertime(
+      [10, 10, 10, 10, 5],
+      OVERTIME_PRESETS.flsa,
+      20,
+    );
+    expect(week.regularHours).toBe(40);
+    expect(week.overtimeHours).toBe(5);
+    expect(days[4]?.overtimeHours).toBe(5);
+    expect(week.totalPay).toBe(40 * 20 + 5 * 30);
+  });
+
+  it("applies daily overtime and double time before the weekly threshold", () => {
+    const { days, week } = calculateOvertime(
+      [13, 8, 8, 8, 8],
+      OVERTIME_PRESETS.california,
+      10,
+    );
+    expect(days[0]).toMatchObject({
+      regularHours: 8,
+      overtimeHours: 4,
+      doubleTimeHours: 1,
+    });
+    // 8 regular hours on each of the first four days reach 32, so only 8
+    // of the fifth day's hours are left under 40
+    expect(week.regularHours).toBe(40);
+    expect(week.overtimeHours).toBe(4);
+  });
+
+  it("pays the seventh consecutive day as overtime, then double time", () => {
+    const { days } = calculateOvertime(
+      [4, 4, 4, 4, 4, 4, 10],
+      OVERTIME_PRESETS.california,
+      10,
+    );
+    expect(days[6]).toMatchObject({
+      regularHours: 0,
+      overtimeHours: 8,
+      doubleTimeHours: 2,
+    });
+  });
+
+  it("counts leave toward thresholds without paying it", () => {
+    const { days } = calculateOvertime(
+      [0, 10],
+      { ...OVERTIME_PRESETS.flsa, weeklyThreshold: 8 },
+      10,
+      [8, 0],
+    );
+    expect(days[0]?.totalHours).toBe(0);
+    expect(days[1]?.overtimeHours).toBe(10);
+  });
+
+  it("uses each day's own rate when given one per day", () => {
+    const { week } = calculateOvertime([2, 3], OVERTIME_PRESETS.none, [10, 20]);
+    expect(week.totalPay).toBe(80);
+  });
+});
@@ -0,0 +1,195 @@
+export interface OvertimeRules {
+  weeklyThreshold: number | null; // Regular hours per week before overtime
+  dailyOvertimeThreshold: number | null; // Hours per day before overtime
+  dailyDoubleTimeThreshold: number | null; // Hours per day before double time
+  seventhDayRule: boolean; // Seventh consecutive day: overtime up to 8h, double time after
+  overtimeMultiplier: number;
+  doubleTimeMultiplier: number;
+}
+
+export type OvertimePreset = "none" | "flsa" | "california" | "custom";
+
+export interface OvertimeSettings {
+  preset: OvertimePreset;
+  rules: OvertimeRules;
+}
+
+export interface EarningsBreakdown {
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  regularPay: number;
+  overtimePay: number;
+  doubleTimePay: number;
+  leaveHours: number; // Paid leave, not part of totalHours
+  leavePay: number;
+  totalHours: number;
+  totalPay: number; // Including leave pay
+}
+
+export const OVERTIME_PRESETS: Record<
+  Exclude<OvertimePreset, "custom">,
+  OvertimeRules
+> = {
+  none: {
+    weeklyThreshold: null,
+    dailyOvertimeThreshold: null,
+    dailyDoubleTimeThreshold: null,
+    seventhDayRule: false,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
+  },
+  flsa: {
+    weeklyThreshold: 40,
+    dailyOvertimeThreshold: null,
+    dailyDoubleTimeThreshold: null,
+    seventhDayRule: false,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
+  },
+  california: {
+    weeklyThreshold: 40,
+    dailyOvertimeThreshold: 8,
+    dailyDoubleTimeThreshold: 12,
+    seventhDayRule: true,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
+  },
+};
+
+export const OVERTIME_PRESET_LABELS: Record<OvertimePreset, string> = {
+  none: "No overtime",
+  flsa: "Federal (40h/week)",
+  california: "California (8h/12h daily)",
+  custom: "Custom",
+};
+
+export const DEFAULT_OVERTIME_SETTINGS: OvertimeSettings = {
+  preset: "none",
+  rules: OVERTIME_PRESETS.none,
+};
+
+const SEVENTH_DAY_OVERTIME_LIMIT = 8;
+
+const createBreakdown = (
+  regularHours: number,
+  overtimeHours: number,
+  doubleTimeHours: number,
+  rules: OvertimeRules,
+  hourlyWage: number,
+): EarningsBreakdown => {
+  const regularPay = regularHours * hourlyWage;
+  const overtimePay = overtimeHours * hourlyWage * rules.overtimeMultiplier;
+  const doubleTimePay =
+    doubleTimeHours * hourlyWage * rules.doubleTimeMultiplier;
+  return {
+    regularHours,
+    overtimeHours,
+    doubleTimeHours,
+    regularPay,
+    overtimePay,
+    doubleTimePay,
+    leaveHours: 0,
+    leavePay: 0,
+    totalHours: regularHours + overtimeHours + doubleTimeHours,
+    totalPay: regularPay + overtimePay + doubleTimePay,
+  };
+};
+
+export const sumBreakdowns = (
+  breakdowns: EarningsBreakdown[],
+): EarningsBreakdown =>
+  breakdowns.reduce(
+    (total, day) => ({
+      regularHours: total.regularHours + day.regularHours,
+      overtimeHours: total.overtimeHours + day.overtimeHours,
+      doubleTimeHours: total.doubleTimeHours + day.doubleTimeHours,
+      regularPay: total.regularPay + day.regularPay,
+      overtimePay: total.overtimePay + day.overtimePay,
+      doubleTimePay: total.doubleTimePay + day.doubleTimePay,
+      leaveHours: total.leaveHours + day.leaveHours,
+      leavePay: total.leavePay + day.leavePay,
+      totalHours: total.totalHours + day.totalHours,
+      totalPay: total.totalPay + day.totalPay,
+    }),
+    {
+      regularHours: 0,
+      overtimeHours: 0,
+      doubleTimeHours: 0,
+      regularPay: 0,
+      overtimePay: 0,
+      doubleTimePay: 0,
+      leaveHours: 0,
+      leavePay: 0,
+      totalHours: 0,
+      totalPay: 0,
+    },
+  );
+
+// Split each day's hours into regular, overtime and double time. Daily and
+// seventh-day rules are applied first; only the remaining regular hours count
+// toward the weekly threshold so that no hour is paid a premium twice.
+// `hourlyWage` is either one rate for every day or each day's blended rate.
+// `countedHours` are leave hours that count toward the thresholds. They fill
+// the day's regular hours first and are never paid here.
+export const calculateOvertime = (
+  dailyHours: number[],
+  rules: OvertimeRules,
+  hourlyWage: number | number[],
+  countedHours: number[] = [],
+): { days: EarningsBreakdown[]; week: EarningsBreakdown } => {
+  let weeklyRegularHours = 0;
+
+  const days = dailyHours.map((rawHours, dayIndex) => {
+    const rate = Array.isArray(hourlyWage)
+      ? (hourlyWage[dayIndex] ?? 0)
+      : hourlyWage;
+    const counted = Math.max(0, countedHours[dayIndex] ?? 0);
+    const hours = Math.max(0, rawHours) + counted;
+    let regular = hours;
+    let overtime = 0;
+    let doubleTime = 0;
+
+    const isSeventhConsecutiveDay =
+      rules.seventhDayRule &&
+      dayIndex === 6 &&
+      rawHours > 0 &&
+      dailyHours.slice(0, 6).every((dayHours) => dayHours > 0);
+
+    if (isSeventhConsecutiveDay) {
+      regular = 0;
+      overtime = Math.min(hours, SEVENTH_DAY_OVERTIME_LIMIT);
+      doubleTime = hours - overtime;
+    } else {
+      if (rules.dailyDoubleTimeThreshold !== null) {
+        doubleTime = Math.max(0, hours - rules.dailyDoubleTimeThreshold);
+      }
+      if (rules.dailyOvertimeThreshold !== null) {
+        regular = Math.min(hours, rules.dailyOvertimeThreshold);
+      }
+      regular = Math.min(regular, hours - doubleTime);
+      overtime = hours - regular - doubleTime;
+    }
+
+    if (rules.weeklyThreshold !== null) {
+      const remainingRegular = Math.max(
+        0,
+        rules.weeklyThreshold - weeklyRegularHours,
+      );
+      const weeklyExcess = Math.max(0, regular - remainingRegular);
+      regular -= weeklyExcess;
+      overtime += weeklyExcess;
+    }
+    weeklyRegularHours += regular;
+
+    const countedRegular = Math.min(regular, counted);
+    const countedOvertime = Math.min(overtime, counted - countedRegular);
+    regular -= countedRegular;
+    overtime -= countedOvertime;
+    doubleTime -= counted - countedRegular - countedOvertime;
+
+    return createBreakdown(regular, overtime, doubleTime, rules, rate);
+  });
+
+  return { days, week: sumBreakdowns(days) };
+};
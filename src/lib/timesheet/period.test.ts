@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PAY_PERIOD_SETTINGS,
+  createPeriodDays,
+  getNextPeriodStart,
+  getPeriodEnd,
+  getPeriodStart,
+  type PayPeriodSettings,
+} from "./period";
+import { parseDateKey, toDateKey } from "./week";
+
+const settings = (fields: Partial<PayPeriodSettings>): PayPeriodSettings => ({
+  ...DEFAULT_PAY_PERIOD_SETTINGS,
+  ...fields,
+});
+
+const periodOf = (date: string, payPeriod: PayPeriodSettings) => {
+  const start = getPeriodStart(parseDateKey(date)!, payPeriod);
+  return [toDateKey(start), toDateKey(getPeriodEnd(start, payPeriod))];
+};
+
+describe("getPeriodStart", () => {
+  it("starts weekly periods on the week start day", () => {
+    expect(periodOf("2025-06-05", settings({ type: "weekly" }))).toEqual([
+      "2025-06-02",
+      "2025-06-08",
+    ]);
+    expect(
+      periodOf("2025-06-05", settings({ type: "weekly", weekStartDay: 0 })),
+    ).toEqual(["2025-06-01", "2025-06-07"]);
+  });
+
+  it("counts biweekly periods from the anchor, before and after it", () => {
+    const biweekly = settings({ type: "biweekly", anchorDate: "2025-01-06" });
+    expect(periodOf("2025-01-21", biweekly)).toEqual([
+      "2025-01-20",
+      "2025-02-02",
+    ]);
+    expect(periodOf("2024-12-30", biweekly)).toEqual([
+      "2024-12-23",
+      "2025-01-05",
+    ]);
+  });
+
+  it("splits semi-monthly periods on the 16th", () => {
+    const semiMonthly = settings({ type: "semi-monthly" });
+    expect(periodOf("2025-02-15", semiMonthly)).toEqual([
+      "2025-02-01",
+      "2025-02-15",
+    ]);
+    expect(periodOf("2025-02-16", semiMonthly)).toEqual([
+      "2025-02-16",
+      "2025-02-28",
+    ]);
+  });
+
+  it("repeats custom periods of any length", () => {
+    expect(
+      periodOf(
+        "2025-01-25",
+        settings({
+          type: "custom",
+          anchorDate: "2025-01-01",
+          customLengthDays: 10,
+        }),
+      ),
+    ).toEqual(["2025-01-21", "2025-01-30"]);
+  });
+
+  it("gives the next monthly period across the year end", () => {
+    expect(
+      toDateKey(
+        getNextPeriodStart(
+          parseDateKey("2025-12-01")!,
+          settings({ type: "monthly" }),
+        ),
+      ),
+    ).toBe("2026-01-01");
+  });
+});
+
+describe("createPeriodDays", () => {
+  it("fills the period with empty days around the stored ones", () => {
+    const days = createPeriodDays(
+      parseDateKey("2025-03-03")!,
+      settings({ type: "weekly" }),
+      [
+        {
+          date: parseDateKey("2025-03-05")!,
+          entries: [{ startTime: "09:00", endTime: "17:00", hours: 0 }],
+          totalHours: 8,
+          useDirectHours: false,
+        },
+      ],
+    );
+    expect(days.map((day) => day.totalHours)).toEqual([0, 0, 8, 0, 0, 0, 0]);
+    // Spans the DST change on 2025-03-09 without skipping or doubling a day
+    expect(toDateKey(days[6]!.date)).toBe("2025-03-09");
+  });
+});
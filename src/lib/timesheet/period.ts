@@ -0,0 +1,173 @@
+import type { LocaleSettings } from "./format";
+import type { DayEntry } from "./types";
+import {
+  addDays,
+  createEmptyDays,
+  daysBetween,
+  getDateRangeDisplay,
+  getWeekStart,
+  parseDateKey,
+  toDateKey,
+} from "./week";
+
+export type PayPeriodType =
+  | "weekly"
+  | "biweekly"
+  | "semi-monthly"
+  | "monthly"
+  | "custom";
+
+export interface PayPeriodSettings {
+  type: PayPeriodType;
+  weekStartDay: number; // First day of the workweek, 0 = Sunday ... 6 = Saturday
+  anchorDate: string; // YYYY-MM-DD start of any one period (biweekly and custom)
+  customLengthDays: number; // Period length for the custom type
+}
+
+export const PAY_PERIOD_LABELS: Record<PayPeriodType, string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  "semi-monthly": "Twice a month (1st & 16th)",
+  monthly: "Monthly",
+  custom: "Custom length",
+};
+
+export const MAX_CUSTOM_PERIOD_DAYS = 31;
+
+export const DEFAULT_PAY_PERIOD_SETTINGS: PayPeriodSettings = {
+  type: "weekly",
+  weekStartDay: 1,
+  anchorDate: "2024-01-01", // A Monday
+  customLengthDays: 14,
+};
+
+const getAnchor = (settings: PayPeriodSettings): Date =>
+  parseDateKey(settings.anchorDate) ??
+  parseDateKey(DEFAULT_PAY_PERIOD_SETTINGS.anchorDate)!;
+
+// Start of the repeating period that contains `date`, counted from `anchor`
+const getRepeatingPeriodStart = (
+  date: Date,
+  anchor: Date,
+  lengthDays: number,
+): Date => {
+  const offset = daysBetween(anchor, date);
+  return addDays(
+    anchor,
+    offset - (((offset % lengthDays) + lengthDays) % lengthDays),
+  );
+};
+
+// First day of the pay period containing a date
+export const getPeriodStart = (
+  date: Date,
+  settings: PayPeriodSettings,
+): Date => {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  switch (settings.type) {
+    case "weekly":
+      return getWeekStart(day, settings.weekStartDay);
+    case "biweekly":
+      return getRepeatingPeriodStart(
+        day,
+        getWeekStart(getAnchor(settings), settings.weekStartDay),
+        14,
+      );
+    case "semi-monthly":
+      return new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate() < 16 ? 1 : 16,
+      );
+    case "monthly":
+      return new Date(day.getFullYear(), day.getMonth(), 1);
+    case "custom":
+      return getRepeatingPeriodStart(
+        day,
+        getAnchor(settings),
+        settings.customLengthDays,
+      );
+  }
+};
+
+// First day of the following pay period
+export const getNextPeriodStart = (
+  periodStart: Date,
+  settings: PayPeriodSettings,
+): Date => {
+  switch (settings.type) {
+    case "weekly":
+      return addDays(periodStart, 7);
+    case "biweekly":
+      return addDays(periodStart, 14);
+    case "semi-monthly":
+      return periodStart.getDate() < 16
+        ? new Date(periodStart.getFullYear(), periodStart.getMonth(), 16)
+        : new Date(periodStart.getFullYear(), periodStart.getMonth() + 1, 1);
+    case "monthly":
+      return new Date(periodStart.getFullYear(), periodStart.getMonth() + 1, 1);
+    case "custom":
+      return addDays(periodStart, settings.customLengthDays);
+  }
+};
+
+// Last day of the pay period (inclusive)
+export const getPeriodEnd = (
+  periodStart: Date,
+  settings: PayPeriodSettings,
+): Date => addDays(getNextPeriodStart(periodStart, settings), -1);
+
+// How many pay periods fall in a year, for annualizing per-period amounts
+export const getPeriodsPerYear = (settings: PayPeriodSettings): number => {
+  switch (settings.type) {
+    case "weekly":
+      return 52;
+    case "biweekly":
+      return 26;
+    case "semi-monthly":
+      return 24;
+    case "monthly":
+      return 12;
+    case "custom":
+      return 365 / settings.customLengthDays;
+  }
+};
+
+export const getPeriodRangeDisplay = (
+  periodStart: Date,
+  settings: PayPeriodSettings,
+  localeSettings: LocaleSettings,
+): string =>
+  getDateRangeDisplay(
+    periodStart,
+    getPeriodEnd(periodStart, settings),
+    localeSettings,
+  );
+
+// Every day of the pay period, using stored days where there are any
+export const createPeriodDays = (
+  periodStart: Date,
+  settings: PayPeriodSettings,
+  storedDays: DayEntry[] = [],
+): DayEntry[] => {
+  const storedByDate = new Map(
+    storedDays.map((day) => [toDateKey(day.date), day]),
+  );
+  return createEmptyDays(periodStart, getPeriodEnd(periodStart, settings)).map(
+    (day) => storedByDate.get(toDateKey(day.date)) ?? day,
+  );
+};
+
+// Group consecutive days into workweeks starting on `weekStartDay`. The first
+// and last groups may be partial when the period doesn't align with weeks.
+export const splitIntoWorkweeks = <T extends { date: Date }>(
+  days: T[],
+  weekStartDay: number,
+): T[][] => {
+  const workweeks = new Map<string, T[]>();
+  days.forEach((day) => {
+    const weekKey = toDateKey(getWeekStart(day.date, weekStartDay));
+    workweeks.set(weekKey, [...(workweeks.get(weekKey) ?? []), day]);
+  });
+  return Array.from(workweeks.values());
+};
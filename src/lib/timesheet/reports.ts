@@ -0,0 +1,242 @@
+import { calculatePeriodEarnings } from "./earnings";
+import { formatDate, type LocaleSettings } from "./format";
+import { recalculateWeek, type HoursSettings } from "./hours";
+import type { LeaveRule, LeaveType } from "./leave";
+import {
+  sumBreakdowns,
+  type EarningsBreakdown,
+  type OvertimeRules,
+} from "./overtime";
+import type { DayEntry, Job } from "./types";
+import { addDays, createEmptyDays, getWeekStart, toDateKey } from "./week";
+
+export type ReportGranularity = "month" | "quarter" | "year";
+
+export const REPORT_GRANULARITY_LABELS: Record<ReportGranularity, string> = {
+  month: "Monthly",
+  quarter: "Quarterly",
+  year: "Yearly",
+};
+
+// One recalculated day with its share of the earnings
+export interface ReportDay {
+  date: Date;
+  hours: number;
+  breakHours: number;
+  earnings: EarningsBreakdown;
+}
+
+export interface ReportRow {
+  key: string;
+  label: string;
+  start: Date;
+  end: Date; // Inclusive
+  hours: number;
+  breakHours: number;
+  earnings: EarningsBreakdown;
+  daysWorked: number;
+  weeksWorked: number;
+  averageHoursPerDay: number; // Per day worked
+  averageHoursPerWeek: number; // Per workweek with any hours
+}
+
+// Recalculate every stored day as one continuous timeline, so overnight hours
+// carry across period boundaries and overtime is counted per workweek
+export const buildReportDays = (
+  storedDays: DayEntry[],
+  hoursSettings: HoursSettings,
+  rules: OvertimeRules,
+  jobs: Job[],
+  hourlyWage: number,
+  weekStartDay: number,
+  leaveRules: Record<LeaveType, LeaveRule>,
+): ReportDay[] => {
+  const firstDay = storedDays[0];
+  const lastDay = storedDays.at(-1);
+  if (!firstDay || !lastDay) {
+    return [];
+  }
+
+  const storedByDate = new Map(
+    storedDays.map((day) => [toDateKey(day.date), day]),
+  );
+  const days = recalculateWeek(
+    createEmptyDays(firstDay.date, lastDay.date).map(
+      (day) => storedByDate.get(toDateKey(day.date)) ?? day,
+    ),
+    hoursSettings,
+  );
+  const { days: earnings } = calculatePeriodEarnings(
+    days,
+    rules,
+    jobs,
+    hourlyWage,
+    weekStartDay,
+    [],
+    leaveRules,
+  );
+
+  return days.map((day, dayIndex) => ({
+    date: day.date,
+    hours: day.totalHours,
+    breakHours: day.breakHours ?? 0,
+    earnings: earnings[dayIndex]!,
+  }));
+};
+
+const getGroupStart = (date: Date, granularity: ReportGranularity): Date => {
+  switch (granularity) {
+    case "month":
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    case "quarter":
+      return new Date(
+        date.getFullYear(),
+        date.getMonth() - (date.getMonth() % 3),
+        1,
+      );
+    case "year":
+      return new Date(date.getFullYear(), 0, 1);
+  }
+};
+
+const getGroupEnd = (start: Date, granularity: ReportGranularity): Date => {
+  const months = { month: 1, quarter: 3, year: 12 }[granularity];
+  return new Date(start.getFullYear(), start.getMonth() + months, 0);
+};
+
+const getGroupLabel = (
+  start: Date,
+  granularity: ReportGranularity,
+  localeSettings: LocaleSettings,
+): string => {
+  switch (granularity) {
+    case "month":
+      return start.toLocaleDateString(localeSettings.locale, {
+        month: "long",
+        year: "numeric",
+      });
+    case "quarter":
+      return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+    case "year":
+      return String(start.getFullYear());
+  }
+};
+
+const summarize = (
+  key: string,
+  label: string,
+  start: Date,
+  end: Date,
+  days: ReportDay[],
+  weekStartDay: number,
+): ReportRow => {
+  const workedDays = days.filter((day) => day.hours > 0);
+  const hours = days.reduce((total, day) => total + day.hours, 0);
+  const weeksWorked = new Set(
+    workedDays.map((day) => toDateKey(getWeekStart(day.date, weekStartDay))),
+  ).size;
+  return {
+    key,
+    label,
+    start,
+    end,
+    hours,
+    breakHours: days.reduce((total, day) => total + day.breakHours, 0),
+    earnings: sumBreakdowns(days.map((day) => day.earnings)),
+    daysWorked: workedDays.length,
+    weeksWorked,
+    averageHoursPerDay: workedDays.length ? hours / workedDays.length : 0,
+    averageHoursPerWeek: weeksWorked ? hours / weeksWorked : 0,
+  };
+};
+
+// Totals per month, quarter or year, newest first. Only groups with hours
+// worked are included.
+export const buildReportRows = (
+  days: ReportDay[],
+  granularity: ReportGranularity,
+  weekStartDay: number,
+  localeSettings: LocaleSettings,
+): ReportRow[] => {
+  const groups = new Map<string, { start: Date; days: ReportDay[] }>();
+  days.forEach((day) => {
+    const start = getGroupStart(day.date, granularity);
+    const key = toDateKey(start);
+    const group = groups.get(key) ?? { start, days: [] };
+    group.days.push(day);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) =>
+      summarize(
+        key,
+        getGroupLabel(group.start, granularity, localeSettings),
+        group.start,
+        getGroupEnd(group.start, granularity),
+        group.days,
+        weekStartDay,
+      ),
+    )
+    .filter((row) => row.hours > 0)
+    .sort((a, b) => b.start.getTime() - a.start.getTime());
+};
+
+// Totals for each workweek with hours that overlaps `row`, counting only its
+// days inside the row's range
+export const buildReportWeekRows = (
+  days: ReportDay[],
+  row: ReportRow,
+  weekStartDay: number,
+  localeSettings: LocaleSettings,
+): ReportRow[] => {
+  const fromKey = toDateKey(row.start);
+  const toKey = toDateKey(row.end);
+  const weeks = new Map<string, { start: Date; days: ReportDay[] }>();
+  days.forEach((day) => {
+    const dateKey = toDateKey(day.date);
+    if (dateKey < fromKey || dateKey > toKey) {
+      return;
+    }
+    const start = getWeekStart(day.date, weekStartDay);
+    const key = toDateKey(start);
+    const week = weeks.get(key) ?? { start, days: [] };
+    week.days.push(day);
+    weeks.set(key, week);
+  });
+
+  return Array.from(weeks.entries())
+    .map(([key, week]) =>
+      summarize(
+        key,
+        `Week of ${formatDate(week.start, localeSettings, false)}`,
+        week.start,
+        addDays(week.start, 6),
+        week.days,
+        weekStartDay,
+      ),
+    )
+    .filter((week) => week.hours > 0);
+};
+
+// Year-to-date totals through `today`
+export const buildYearToDate = (
+  days: ReportDay[],
+  today: Date,
+  weekStartDay: number,
+): ReportRow => {
+  const start = new Date(today.getFullYear(), 0, 1);
+  const fromKey = toDateKey(start);
+  const toKey = toDateKey(today);
+  return summarize(
+    `ytd-${today.getFullYear()}`,
+    `${today.getFullYear()} year to date`,
+    start,
+    today,
+    days.filter((day) => {
+      const dateKey = toDateKey(day.date);
+      return dateKey >= fromKey && dateKey <= toKey;
+    }),
+    weekStartDay,
+  );
+};
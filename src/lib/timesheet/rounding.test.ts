@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { roundMinutes, type RoundingPolicy } from "./rounding";
+
+const policy = (
+  mode: RoundingPolicy["mode"],
+  increment = 15,
+): RoundingPolicy => ({ mode, increment, applyTo: "punch" });
+
+describe("roundMinutes", () => {
+  it("leaves minutes alone when rounding is off", () => {
+    expect(roundMinutes(487, policy("none"))).toBe(487);
+  });
+
+  it("rounds to the nearest, next or previous increment", () => {
+    expect(roundMinutes(487, policy("nearest"))).toBe(480);
+    expect(roundMinutes(488, policy("nearest"))).toBe(495);
+    expect(roundMinutes(481, policy("up"))).toBe(495);
+    expect(roundMinutes(494, policy("down"))).toBe(480);
+    expect(roundMinutes(483, policy("nearest", 6))).toBe(486);
+  });
+
+  it("rounds down up to 7 minutes past a quarter hour", () => {
+    expect(roundMinutes(487, policy("seven-minute"))).toBe(480);
+    expect(roundMinutes(488, policy("seven-minute"))).toBe(495);
+  });
+});
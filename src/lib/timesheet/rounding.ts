@@ -0,0 +1,54 @@
+// How worked time is rounded before it's paid
+// - "none": exact minutes
+// - "nearest", "up", "down": to a multiple of `increment` minutes
+// - "seven-minute": to the nearest quarter hour, so up to 7 minutes past
+//   rounds down and 8 or more rounds up
+export type RoundingMode = "none" | "nearest" | "up" | "down" | "seven-minute";
+
+// - "punch": every start and end time is rounded
+// - "day": each day's worked time is rounded once
+export type RoundingTarget = "punch" | "day";
+
+export interface RoundingPolicy {
+  mode: RoundingMode;
+  increment: number; // Minutes, ignored by "none" and "seven-minute"
+  applyTo: RoundingTarget;
+}
+
+export const ROUNDING_INCREMENTS = [1, 5, 6, 10, 15];
+
+export const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  none: "No rounding",
+  nearest: "Nearest",
+  up: "Up",
+  down: "Down",
+  "seven-minute": "7-minute rule",
+};
+
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = {
+  mode: "none",
+  increment: 15,
+  applyTo: "punch",
+};
+
+export const isRoundingEnabled = (policy: RoundingPolicy): boolean =>
+  policy.mode !== "none";
+
+export const roundMinutes = (
+  minutes: number,
+  policy: RoundingPolicy,
+): number => {
+  const increment = policy.increment;
+  switch (policy.mode) {
+    case "none":
+      return minutes;
+    case "nearest":
+      return Math.round(minutes / increment) * increment;
+    case "up":
+      return Math.ceil(minutes / increment) * increment;
+    case "down":
+      return Math.floor(minutes / increment) * increment;
+    case "seven-minute":
+      return Math.floor((minutes + 7) / 15) * 15;
+  }
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  PERIOD_EXPORT_VERSION,
+  STORED_PERIOD_VERSION,
+  TimesheetDataError,
+  parsePeriodExport,
+  parseStoredPeriodPayload,
+  serializeStoredPeriod,
+} from "./schema";
+import { parseDateKey, toDateKey } from "./week";
+
+describe("parseStoredPeriodPayload", () => {
+  it("upgrades a bare v0 array of days, filling in missing fields", () => {
+    const [day] = parseStoredPeriodPayload([
+      {
+        date: "2025-03-10T05:00:00.000Z",
+        entries: [{ startTime: "09:00", endTime: "17:00" }],
+        totalHours: "8",
+      },
+    ]);
+    expect(day).toMatchObject({
+      entries: [{ startTime: "09:00", endTime: "17:00", hours: 0 }],
+      totalHours: 8,
+      useDirectHours: false,
+    });
+    expect(toDateKey(day!.date)).toBe("2025-03-10");
+  });
+
+  it("reads back what it stores", () => {
+    const days = [
+      {
+        date: parseDateKey("2025-03-10")!,
+        entries: [{ startTime: "22:00", endTime: "06:00", hours: 0 }],
+        totalHours: 8,
+        useDirectHours: false,
+      },
+    ];
+    const stored: unknown = JSON.parse(serializeStoredPeriod(days));
+    expect(stored).toMatchObject({ version: STORED_PERIOD_VERSION });
+    expect(parseStoredPeriodPayload(stored)).toEqual(days);
+  });
+
+  it("refuses data from a newer version", () => {
+    expect(() =>
+      parseStoredPeriodPayload({
+        version: STORED_PERIOD_VERSION + 1,
+        days: [],
+      }),
+    ).toThrow(TimesheetDataError);
+  });
+
+  it("lists where invalid data goes wrong", () => {
+    try {
+      parseStoredPeriodPayload({
+        version: STORED_PERIOD_VERSION,
+        days: [{ date: "2025-03-10", entries: [], totalHours: 0 }],
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(TimesheetDataError);
+      expect((error as TimesheetDataError).issues).toEqual([
+        "days[0].entries: A day needs at least one entry",
+        "days[0].useDirectHours: Required",
+      ]);
+    }
+  });
+});
+
+describe("parsePeriodExport", () => {
+  it("upgrades a v0 week export into a pay period", () => {
+    const data = parsePeriodExport({
+      selectedMonday: "2025-03-10T04:00:00.000Z",
+      weekData: [
+        {
+          date: "2025-03-10T04:00:00.000Z",
+          entries: [{ startTime: "", endTime: "", hours: 7 }],
+          totalHours: 7,
+          useDirectHours: true,
+        },
+      ],
+    });
+    expect(data.version).toBe(PERIOD_EXPORT_VERSION);
+    expect(toDateKey(data.periodStart)).toBe("2025-03-10");
+    expect(data.days[0]?.totalHours).toBe(7);
+  });
+
+  it("keeps the settings saved with v2 exports", () => {
+    const data = parsePeriodExport({
+      version: 2,
+      periodStart: "2025-03-10T04:00:00.000Z",
+      days: [
+        {
+          date: "2025-03-10T04:00:00.000Z",
+          entries: [{ startTime: "09:00", endTime: "17:00", hours: 0 }],
+          totalHours: 8,
+          useDirectHours: false,
+        },
+      ],
+      overnightMode: "split",
+    });
+    expect(data.overnightMode).toBe("split");
+  });
+});
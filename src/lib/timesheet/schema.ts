@@ -0,0 +1,470 @@
+import { z, type ZodError } from "zod";
+import { MAX_CUSTOM_PERIOD_DAYS } from "./period";
+import type { DayEntry } from "./types";
+import { parseDateKey, toDateKey, toNearestLocalDay } from "./week";
+
+// Thrown when stored or imported data doesn't match the schema. `issues`
+// holds one readable message per invalid field.
+export class TimesheetDataError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "TimesheetDataError";
+  }
+}
+
+const timeString = z
+  .string()
+  .regex(/^(\d{1,2}:\d{2})?$/, "Expected a time like 09:30 or nothing");
+
+// Calendar days are written as YYYY-MM-DD and read as local dates. Older
+// data holds timestamps, which are read as the nearest local day.
+const timestamp = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Expected a timestamp");
+
+const localDate = z.preprocess(
+  (value) =>
+    typeof value === "string" ? (parseDateKey(value) ?? value) : value,
+  z.coerce
+    .date({ errorMap: () => ({ message: "Expected a date" }) })
+    .refine((date) => !isNaN(date.getTime()), "Expected a date")
+    .transform(toNearestLocalDay),
+);
+
+export const timeEntrySchema = z.object({
+  id: z.string().optional(),
+  startTime: timeString,
+  endTime: timeString,
+  hours: z.number().min(0, "Hours can't be negative").optional(),
+  jobId: z.string().optional(),
+  note: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export const breakIntervalSchema = z.object({
+  startTime: timeString,
+  endTime: timeString,
+});
+
+export const dayBreaksSchema = z.object({
+  fixedMinutes: z.number().min(0),
+  intervals: z.array(breakIntervalSchema),
+});
+
+export const dayEntrySchema = z.object({
+  date: localDate,
+  entries: z.array(timeEntrySchema).min(1, "A day needs at least one entry"),
+  totalHours: z.number(),
+  unroundedHours: z.number().optional(),
+  useDirectHours: z.boolean(),
+  breaks: dayBreaksSchema.optional(),
+  dayType: z.enum(["worked", "pto", "sick", "holiday", "unpaid"]).optional(),
+  leaveHours: z.number().min(0).max(24).optional(),
+  note: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  grossHours: z.number().optional(),
+  breakHours: z.number().optional(),
+  jobHours: z.record(z.number()).optional(),
+  carryInHours: z.number().optional(),
+  carryOutHours: z.number().optional(),
+});
+
+export const overnightModeSchema = z.enum(["start-day", "split"]);
+
+export const autoBreakRuleSchema = z.object({
+  enabled: z.boolean(),
+  afterHours: z.number().min(0),
+  minutes: z.number().min(0),
+});
+
+export const roundingPolicySchema = z.object({
+  mode: z.enum(["none", "nearest", "up", "down", "seven-minute"]),
+  increment: z.number().int().min(1).max(60),
+  applyTo: z.enum(["punch", "day"]),
+});
+
+export const overtimeSettingsSchema = z.object({
+  preset: z.enum(["none", "flsa", "california", "custom"]),
+  rules: z.object({
+    weeklyThreshold: z.number().min(0).nullable(),
+    dailyOvertimeThreshold: z.number().min(0).nullable(),
+    dailyDoubleTimeThreshold: z.number().min(0).nullable(),
+    seventhDayRule: z.boolean(),
+    overtimeMultiplier: z.number().min(1),
+    doubleTimeMultiplier: z.number().min(1),
+  }),
+});
+
+export const jobSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  rate: z.number().min(0),
+  color: z.string(),
+});
+
+export const jobsSchema = z.array(jobSchema);
+
+export const payPeriodSettingsSchema = z.object({
+  type: z.enum(["weekly", "biweekly", "semi-monthly", "monthly", "custom"]),
+  weekStartDay: z.number().int().min(0).max(6),
+  anchorDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  customLengthDays: z.number().int().min(1).max(MAX_CUSTOM_PERIOD_DAYS),
+});
+
+const taxTableSchema = z.object({
+  standardDeduction: z.number().min(0),
+  brackets: z.array(
+    z.object({
+      from: z.number().min(0),
+      rate: z.number().min(0).max(100),
+    }),
+  ),
+});
+
+export const deductionProfileSchema = z.object({
+  enabled: z.boolean(),
+  federalTax: taxTableSchema,
+  stateTax: taxTableSchema,
+  socialSecurityRate: z.number().min(0).max(100),
+  medicareRate: z.number().min(0).max(100),
+  deductions: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      type: z.enum(["fixed", "percent"]),
+      amount: z.number().min(0),
+      preTax: z.boolean(),
+    }),
+  ),
+});
+
+export const localeSettingsSchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/, "Expected a currency code like USD"),
+  locale: z.string().refine((locale) => {
+    try {
+      return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+      return false;
+    }
+  }, "Expected a supported locale"),
+  dateFormat: z.enum(["locale", "mdy", "dmy", "ymd"]),
+  hourCycle: z.enum(["12", "24"]),
+});
+
+export const documentDetailsSchema = z.object({
+  name: z.string(),
+  client: z.string(),
+  invoicePrefix: z.string(),
+  nextInvoiceNumber: z.number().int().min(1),
+  paymentTermsDays: z.number().int().min(0),
+  notes: z.string(),
+});
+
+export const templateSettingsSchema = z.object({
+  templates: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      days: z.array(
+        z.object({
+          weekday: z.number().int().min(0).max(6),
+          useDirectHours: z.boolean(),
+          entries: z.array(timeEntrySchema),
+          breaks: dayBreaksSchema.optional(),
+        }),
+      ),
+    }),
+  ),
+  defaultTemplateId: z.string().nullable(),
+  applyMode: z.enum(["merge", "replace"]),
+});
+
+const leaveRuleSchema = z.object({
+  payMultiplier: z.number().min(0),
+  countsTowardOvertime: z.boolean(),
+});
+
+export const leaveSettingsSchema = z.object({
+  defaultHours: z.number().min(0).max(24),
+  rules: z.object({
+    pto: leaveRuleSchema,
+    sick: leaveRuleSchema,
+    holiday: leaveRuleSchema,
+    unpaid: leaveRuleSchema,
+  }),
+  accrual: z.object({
+    enabled: z.boolean(),
+    method: z.enum(["per-hour", "per-week"]),
+    rate: z.number().min(0),
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2024-01-31")
+      .nullable(),
+    startingBalance: z.number(),
+    maxBalance: z.number().min(0).nullable(),
+  }),
+  holidays: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      date: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2024-01-31"),
+      repeatsYearly: z.boolean(),
+    }),
+  ),
+});
+
+export const activeClockSchema = z.object({
+  startedAt: timestamp,
+  jobId: z.string().optional(),
+  keepRunning: z.boolean().optional(),
+});
+
+export const syncedRecordSchema = z.object({
+  key: z.string(),
+  value: z.string().nullable(),
+  revision: z.number().int().min(1),
+  updatedAt: timestamp,
+});
+
+export const syncedRecordsSchema = z.array(syncedRecordSchema);
+
+export const saveRecordRequestSchema = z.object({
+  value: z.string().nullable(),
+  baseRevision: z.number().int().min(0),
+});
+
+export const saveRecordResponseSchema = z.object({
+  record: syncedRecordSchema.nullable(),
+});
+
+export const syncStateSchema = z.object({
+  enabled: z.boolean(),
+  userId: z.string().nullable(),
+  lastSyncedAt: timestamp.nullable(),
+  records: z.record(
+    z.object({
+      revision: z.number().int().min(1),
+      base: z.string().nullable(),
+    }),
+  ),
+  pending: z.record(timestamp),
+});
+
+const storedPeriodSchema = z.object({
+  version: z.number(),
+  days: z.array(dayEntrySchema).min(1, "A pay period needs at least one day"),
+});
+
+const periodExportSchema = z.object({
+  version: z.number(),
+  periodStart: localDate,
+  days: z.array(dayEntrySchema).min(1, "A pay period needs at least one day"),
+  payPeriod: payPeriodSettingsSchema.optional(),
+  overnightMode: overnightModeSchema.optional(),
+  autoBreakRule: autoBreakRuleSchema.optional(),
+  roundingPolicy: roundingPolicySchema.optional(),
+  overtimeSettings: overtimeSettingsSchema.optional(),
+  jobs: jobsSchema.optional(),
+  localeSettings: localeSettingsSchema.optional(),
+  leaveSettings: leaveSettingsSchema.optional(),
+  hourlyWage: z.number().min(0).optional(), // Only in share links with pay
+});
+
+export type PeriodExport = z.infer<typeof periodExportSchema>;
+
+// Turn zod issues into messages like `days[2].entries[0].startTime: ...`
+export const formatIssues = (error: ZodError): string[] =>
+  error.issues.map((issue) => {
+    const path = issue.path
+      .map((part, index) =>
+        typeof part === "number"
+          ? `[${part}]`
+          : index === 0
+            ? part
+            : `.${part}`,
+      )
+      .join("");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+
+// Older data is checked field by field before the schema sees it, so the
+// migrations only rely on what they test for
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The fields of an object, or none for anything else
+const toRecord = (value: unknown): Record<string, unknown> =>
+  isRecord(value) ? value : {};
+
+// Fill in fields that older versions didn't always write
+const normalizeLegacyEntry = (entry: unknown): unknown => {
+  const fields = toRecord(entry);
+  return {
+    ...fields,
+    startTime: fields.startTime ?? "",
+    endTime: fields.endTime ?? "",
+    hours: typeof fields.hours === "number" ? fields.hours : 0,
+  };
+};
+
+const normalizeLegacyDay = (day: unknown): unknown => {
+  const fields = toRecord(day);
+  return {
+    ...fields,
+    entries: Array.isArray(fields.entries)
+      ? fields.entries.map(normalizeLegacyEntry)
+      : [{ startTime: "", endTime: "", hours: 0 }],
+    totalHours:
+      typeof fields.totalHours === "number" ||
+      typeof fields.totalHours === "string"
+        ? parseFloat(String(fields.totalHours)) || 0
+        : 0,
+    useDirectHours: fields.useDirectHours ?? false,
+  };
+};
+
+type Migration = (data: unknown) => unknown;
+
+// Each chain entry upgrades data at version `index` to `index + 1`
+const STORED_PERIOD_MIGRATIONS: Migration[] = [
+  // v0 -> v1: a bare array of days becomes `{ version, days }`
+  (data) => ({
+    version: 1,
+    days: Array.isArray(data) ? data.map(normalizeLegacyDay) : data,
+  }),
+  // v1 -> v2: dates became YYYY-MM-DD calendar days, which the schema reads
+  // alongside the older timestamps
+  (data) => ({ ...toRecord(data), version: 2 }),
+];
+
+const PERIOD_EXPORT_MIGRATIONS: Migration[] = [
+  // v0 -> v1: unversioned exports, possibly without `hours`/`useDirectHours`
+  (data) => {
+    const fields = toRecord(data);
+    return {
+      ...fields,
+      version: 1,
+      weekData: Array.isArray(fields.weekData)
+        ? fields.weekData.map(normalizeLegacyDay)
+        : fields.weekData,
+    };
+  },
+  // v1 -> v2: single weeks became pay periods
+  (data) => {
+    const { selectedMonday, weekData, ...fields } = toRecord(data);
+    return {
+      ...fields,
+      version: 2,
+      periodStart: selectedMonday,
+      days: weekData,
+    };
+  },
+  // v2 -> v3: dates became YYYY-MM-DD calendar days
+  (data) => ({ ...toRecord(data), version: 3 }),
+];
+
+export const STORED_PERIOD_VERSION = STORED_PERIOD_MIGRATIONS.length;
+export const PERIOD_EXPORT_VERSION = PERIOD_EXPORT_MIGRATIONS.length;
+
+const migrate = (data: unknown, migrations: Migration[]): unknown => {
+  const version =
+    !Array.isArray(data) &&
+    typeof data === "object" &&
+    data !== null &&
+    "version" in data &&
+    typeof data.version === "number"
+      ? data.version
+      : 0;
+
+  if (version > migrations.length) {
+    throw new TimesheetDataError(
+      `This data was saved by a newer version of the timesheet (v${version}).`,
+    );
+  }
+
+  return migrations
+    .slice(version)
+    .reduce((migrated, migration) => migration(migrated), data);
+};
+
+// Upgrade and validate a pay period read from localStorage
+export const parseStoredPeriodPayload = (data: unknown): DayEntry[] => {
+  const result = storedPeriodSchema.safeParse(
+    migrate(data, STORED_PERIOD_MIGRATIONS),
+  );
+  if (!result.success) {
+    throw new TimesheetDataError(
+      "Stored pay period data is invalid.",
+      formatIssues(result.error),
+    );
+  }
+  return result.data.days;
+};
+
+// Days as written to storage and files, with plain calendar dates so they
+// read back as the same days in any time zone
+export const serializeDays = (
+  days: DayEntry[],
+): (Omit<DayEntry, "date"> & { date: string })[] =>
+  days.map((day) => ({ ...day, date: toDateKey(day.date) }));
+
+export const serializeStoredPeriod = (weekData: DayEntry[]): string =>
+  JSON.stringify({
+    version: STORED_PERIOD_VERSION,
+    days: serializeDays(weekData),
+  });
+
+// Upgrade and validate an imported pay period export
+export const parsePeriodExport = (data: unknown): PeriodExport => {
+  const result = periodExportSchema.safeParse(
+    migrate(data, PERIOD_EXPORT_MIGRATIONS),
+  );
+  if (!result.success) {
+    throw new TimesheetDataError(
+      "The file is not a valid timesheet export.",
+      formatIssues(result.error),
+    );
+  }
+  return result.data;
+};
+
+// Validate a stored setting, returning null (and logging why) when it's
+// missing or doesn't match
+export const parseStoredSetting = <T>(
+  storedValue: string | null,
+  schema: z.ZodType<T>,
+): T | null => {
+  if (!storedValue) {
+    return null;
+  }
+  try {
+    const result = schema.safeParse(JSON.parse(storedValue));
+    if (result.success) {
+      return result.data;
+    }
+    console.error(
+      "Ignoring invalid stored setting:",
+      formatIssues(result.error),
+    );
+  } catch (error) {
+    console.error("Error parsing setting from localStorage:", error);
+  }
+  return null;
+};
+
+// The error message followed by the first few invalid fields, for alerts
+export const describeDataError = (
+  error: TimesheetDataError,
+  maxIssues = 10,
+): string => {
+  const lines = error.issues.slice(0, maxIssues);
+  if (error.issues.length > maxIssues) {
+    lines.push(`...and ${error.issues.length - maxIssues} more`);
+  }
+  return [error.message, ...lines].join("\n");
+};
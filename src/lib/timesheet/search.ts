@@ -0,0 +1,87 @@
+import { isEmptyEntry } from "./clock";
+import { getEntrySpan } from "./hours";
+import { findJob } from "./jobs";
+import type { DayEntry, Job, TimeEntry } from "./types";
+
+// An entry whose note, tags or job matched. `entry` is null when the day's
+// own note or tags matched and it has no entries.
+export interface SearchMatch {
+  day: DayEntry;
+  entryIndex: number | null;
+  entry: TimeEntry | null;
+  hours: number; // Worked hours, before breaks and rounding
+}
+
+export interface SearchQuery {
+  words: string[]; // Each must appear in a note or the job name
+  tags: string[]; // Each must be a tag of the entry or its day
+}
+
+// Words starting with "#" search tags, everything else searches text
+export const parseSearchQuery = (query: string): SearchQuery => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return {
+    words: terms.filter((term) => !term.startsWith("#")),
+    tags: terms
+      .filter((term) => term.startsWith("#"))
+      .map((term) => term.slice(1))
+      .filter(Boolean),
+  };
+};
+
+const getEntryHours = (day: DayEntry, entry: TimeEntry): number => {
+  if (day.useDirectHours) {
+    return Math.max(0, entry.hours ?? 0);
+  }
+  const span = getEntrySpan(entry, day.date);
+  return span ? (span.beforeMidnight + span.afterMidnight) / 60 : 0;
+};
+
+const matches = (
+  query: SearchQuery,
+  texts: (string | undefined)[],
+  tags: string[],
+): boolean => {
+  const text = texts.join("\n").toLowerCase();
+  const lowerTags = tags.map((tag) => tag.toLowerCase());
+  return (
+    query.words.every((word) => text.includes(word)) &&
+    query.tags.every((tag) => lowerTags.includes(tag))
+  );
+};
+
+// Matches in the order of `days`. An empty query matches nothing.
+export const searchDays = (
+  days: DayEntry[],
+  query: SearchQuery,
+  jobs: Job[],
+): SearchMatch[] => {
+  if (query.words.length === 0 && query.tags.length === 0) {
+    return [];
+  }
+  return days.flatMap((day): SearchMatch[] => {
+    const dayTags = day.tags ?? [];
+    const entries = day.entries
+      .map((entry, entryIndex) => ({ entry, entryIndex }))
+      .filter(({ entry }) => !isEmptyEntry(entry));
+    if (entries.length === 0) {
+      return matches(query, [day.note], dayTags)
+        ? [{ day, entryIndex: null, entry: null, hours: 0 }]
+        : [];
+    }
+    return entries
+      .filter(({ entry }) =>
+        matches(
+          query,
+          [entry.note, day.note, findJob(jobs, entry.jobId ?? "")?.name],
+          [...(entry.tags ?? []), ...dayTags],
+        ),
+      )
+      .map(({ entry, entryIndex }) => ({
+        day,
+        entryIndex,
+        entry,
+        hours: getEntryHours(day, entry),
+      }));
+  });
+};
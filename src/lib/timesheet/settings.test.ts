@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { DEFAULT_LEAVE_SETTINGS } from "./leave";
+import { DEFAULT_PAY_PERIOD_SETTINGS } from "./period";
+import {
+  leaveSettingsSchema,
+  parseStoredSetting,
+  payPeriodSettingsSchema,
+} from "./schema";
+import { DEFAULT_STORED_SETTINGS, resetStoredSettings } from "./settings";
+import {
+  CLOCK_KEY,
+  LEAVE_KEY,
+  PAY_PERIOD_KEY,
+  WAGE_KEY,
+  getLocalStorage,
+  localStorageAdapter,
+  setStorageAdapter,
+  type StorageAdapter,
+} from "./storage";
+
+const createMemoryStorage = (items: Record<string, string>): StorageAdapter => {
+  const stored = new Map(Object.entries(items));
+  return {
+    getItem: (key) => stored.get(key) ?? null,
+    setItem: (key, value) => void stored.set(key, value),
+    removeItem: (key) => void stored.delete(key),
+    keys: () => Array.from(stored.keys()),
+  };
+};
+
+afterEach(() => setStorageAdapter(localStorageAdapter));
+
+describe("resetStoredSettings", () => {
+  it("writes every default over the stored settings", () => {
+    setStorageAdapter(
+      createMemoryStorage({
+        [WAGE_KEY]: "25",
+        [PAY_PERIOD_KEY]: JSON.stringify({
+          ...DEFAULT_PAY_PERIOD_SETTINGS,
+          type: "monthly",
+        }),
+        [CLOCK_KEY]: JSON.stringify({ startedAt: "2025-06-02T09:00:00Z" }),
+        "timesheet-data-2025-06-02": "[]",
+      }),
+    );
+    resetStoredSettings();
+
+    Object.entries(DEFAULT_STORED_SETTINGS).forEach(([key, value]) =>
+      expect(getLocalStorage(key)).toBe(value),
+    );
+    expect(
+      parseStoredSetting(
+        getLocalStorage(PAY_PERIOD_KEY),
+        payPeriodSettingsSchema,
+      ),
+    ).toEqual(DEFAULT_PAY_PERIOD_SETTINGS);
+    expect(
+      parseStoredSetting(getLocalStorage(LEAVE_KEY), leaveSettingsSchema),
+    ).toEqual(DEFAULT_LEAVE_SETTINGS);
+    expect(getLocalStorage(CLOCK_KEY)).toBeNull();
+    // Pay periods are left to the caller
+    expect(getLocalStorage("timesheet-data-2025-06-02")).toBe("[]");
+  });
+});
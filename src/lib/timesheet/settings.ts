@@ -0,0 +1,53 @@
+import { DEFAULT_DEDUCTION_PROFILE } from "./deductions";
+import { DEFAULT_DOCUMENT_DETAILS } from "./documents";
+import { DEFAULT_LOCALE_SETTINGS } from "./format";
+import { DEFAULT_AUTO_BREAK_RULE } from "./hours";
+import { DEFAULT_LEAVE_SETTINGS } from "./leave";
+import { DEFAULT_OVERTIME_SETTINGS } from "./overtime";
+import { DEFAULT_PAY_PERIOD_SETTINGS } from "./period";
+import { DEFAULT_ROUNDING_POLICY } from "./rounding";
+import {
+  AUTO_BREAK_KEY,
+  CLOCK_KEY,
+  DEDUCTIONS_KEY,
+  DOCUMENT_KEY,
+  JOBS_KEY,
+  LEAVE_KEY,
+  LOCALE_KEY,
+  OVERNIGHT_KEY,
+  OVERTIME_KEY,
+  PAY_PERIOD_KEY,
+  ROUNDING_KEY,
+  TEMPLATES_KEY,
+  WAGE_KEY,
+  removeLocalStorage,
+  setLocalStorage,
+} from "./storage";
+import { DEFAULT_TEMPLATE_SETTINGS } from "./templates";
+
+// The wage and every setting as the timesheet page saves them before anything
+// is changed, by storage key
+export const DEFAULT_STORED_SETTINGS: Record<string, string> = {
+  [WAGE_KEY]: "0",
+  [OVERNIGHT_KEY]: "start-day",
+  [OVERTIME_KEY]: JSON.stringify(DEFAULT_OVERTIME_SETTINGS),
+  [AUTO_BREAK_KEY]: JSON.stringify(DEFAULT_AUTO_BREAK_RULE),
+  [ROUNDING_KEY]: JSON.stringify(DEFAULT_ROUNDING_POLICY),
+  [JOBS_KEY]: JSON.stringify([]),
+  [PAY_PERIOD_KEY]: JSON.stringify(DEFAULT_PAY_PERIOD_SETTINGS),
+  [DEDUCTIONS_KEY]: JSON.stringify(DEFAULT_DEDUCTION_PROFILE),
+  [LOCALE_KEY]: JSON.stringify(DEFAULT_LOCALE_SETTINGS),
+  [DOCUMENT_KEY]: JSON.stringify(DEFAULT_DOCUMENT_DETAILS),
+  [TEMPLATES_KEY]: JSON.stringify(DEFAULT_TEMPLATE_SETTINGS),
+  [LEAVE_KEY]: JSON.stringify(DEFAULT_LEAVE_SETTINGS),
+};
+
+// Write the defaults over every stored setting and stop the running clock.
+// The page saves settings whenever they change, so writing the defaults is
+// what keeps a reset from being undone by the next save.
+export const resetStoredSettings = (): void => {
+  Object.entries(DEFAULT_STORED_SETTINGS).forEach(([key, value]) =>
+    setLocalStorage(key, value),
+  );
+  removeLocalStorage(CLOCK_KEY);
+};
@@ -0,0 +1,64 @@
+import {
+  TimesheetDataError,
+  parsePeriodExport,
+  type PeriodExport,
+} from "./schema";
+
+// Opened with the encoded period after the "#", which browsers never send
+// to the server
+export const SHARE_PATH = "/timesheet/shared";
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+    char.charCodeAt(0),
+  );
+
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes]).stream().pipeThrough(stream),
+    ).arrayBuffer(),
+  );
+
+// A period export (see downloadJSON), compressed into URL-safe text
+export const encodeSharedPeriod = async (data: object): Promise<string> =>
+  toBase64Url(
+    await transform(
+      new TextEncoder().encode(JSON.stringify(data)),
+      new CompressionStream("deflate-raw"),
+    ),
+  );
+
+export const createShareUrl = async (data: object): Promise<string> =>
+  `${window.location.origin}${SHARE_PATH}#${await encodeSharedPeriod(data)}`;
+
+// Throws a TimesheetDataError when the link was cut short or isn't a period
+export const decodeSharedPeriod = async (
+  encoded: string,
+): Promise<PeriodExport> => {
+  let data: unknown;
+  try {
+    const bytes = await transform(
+      fromBase64Url(encoded),
+      new DecompressionStream("deflate-raw"),
+    );
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new TimesheetDataError(
+      "The link is incomplete. Ask for it to be shared again.",
+    );
+  }
+  return parsePeriodExport(data);
+};
@@ -0,0 +1,247 @@
+import {
+  NO_CARRY_OVER,
+  calculateDayHours,
+  type CarryOver,
+  type HoursSettings,
+} from "./hours";
+import {
+  createPeriodDays,
+  getNextPeriodStart,
+  getPeriodStart,
+  type PayPeriodSettings,
+} from "./period";
+import { parseStoredPeriodPayload, serializeStoredPeriod } from "./schema";
+import type { DayEntry } from "./types";
+import { addDays, getWeekStart, parseDateKey, toDateKey } from "./week";
+
+// Helper for localStorage key; each pay period is stored under its first day
+// as a local calendar date
+export const getLocalStorageKey = (periodStart: Date): string => {
+  return `timesheet-data-${toDateKey(periodStart)}`;
+};
+
+// Add wage to localStorage key prefix for consistency
+export const TIMESHEET_PREFIX = "timesheet-data-";
+export const WAGE_KEY = "timesheet-hourly-wage";
+export const OVERNIGHT_KEY = "timesheet-overnight-mode";
+export const OVERTIME_KEY = "timesheet-overtime-rules";
+export const AUTO_BREAK_KEY = "timesheet-auto-break";
+export const ROUNDING_KEY = "timesheet-rounding";
+export const JOBS_KEY = "timesheet-jobs";
+export const PAY_PERIOD_KEY = "timesheet-pay-period";
+export const CLOCK_KEY = "timesheet-clock";
+export const DEDUCTIONS_KEY = "timesheet-deduction-profile";
+export const LOCALE_KEY = "timesheet-locale";
+export const DOCUMENT_KEY = "timesheet-document-details";
+export const TEMPLATES_KEY = "timesheet-schedule-templates";
+export const LEAVE_KEY = "timesheet-leave";
+// Bookkeeping for server sync. It describes this browser's copy, so it is
+// never synced, backed up or restored.
+export const SYNC_STATE_KEY = "timesheet-sync-state";
+
+// Every other key under this prefix holds the wage or a setting
+export const SETTINGS_PREFIX = "timesheet-";
+
+// Where timesheet data is kept. Reads are synchronous so the page can render
+// straight from storage, so adapters backed by IndexedDB or a server keep a
+// copy in memory or on the device.
+export interface StorageAdapter {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  keys: () => string[];
+}
+
+// This browser's localStorage, and nothing when rendering on the server
+export const localStorageAdapter: StorageAdapter = {
+  getItem: (key) =>
+    typeof window !== "undefined" ? localStorage.getItem(key) : null,
+  setItem: (key, value) => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(key, value);
+    }
+  },
+  removeItem: (key) => {
+    if (typeof window !== "undefined") {
+      localStorage.removeItem(key);
+    }
+  },
+  keys: () => (typeof window !== "undefined" ? Object.keys(localStorage) : []),
+};
+
+// This browser's own copy of the data, and the adapter everything goes
+// through. They differ while syncing with the server.
+let deviceStorage = localStorageAdapter;
+let storageAdapter = localStorageAdapter;
+
+export const getDeviceStorage = (): StorageAdapter => deviceStorage;
+
+export const setDeviceStorage = (adapter: StorageAdapter): void => {
+  deviceStorage = adapter;
+  storageAdapter = adapter;
+};
+
+export const setStorageAdapter = (adapter: StorageAdapter): void => {
+  storageAdapter = adapter;
+};
+
+// Helpers to access storage through the active adapter
+export const getLocalStorage = (key: string): string | null =>
+  storageAdapter.getItem(key);
+
+export const setLocalStorage = (key: string, value: string): void => {
+  storageAdapter.setItem(key, value);
+};
+
+export const removeLocalStorage = (key: string): void => {
+  storageAdapter.removeItem(key);
+};
+
+// Helper to list every stored key that belongs to the timesheet
+export const getTimesheetKeys = (): string[] =>
+  storageAdapter
+    .keys()
+    .filter((key) => key.startsWith(SETTINGS_PREFIX) && key !== SYNC_STATE_KEY);
+
+// Helper to deserialize a stored pay period, upgrading older formats. Throws a
+// TimesheetDataError when the data doesn't match the schema.
+export const parseStoredPeriod = (storedData: string): DayEntry[] =>
+  parseStoredPeriodPayload(JSON.parse(storedData));
+
+// Helper to load a stored pay period, or null when there is none or it is
+// unreadable
+export const loadStoredPeriod = (periodStart: Date): DayEntry[] | null => {
+  const storedData = getLocalStorage(getLocalStorageKey(periodStart));
+  if (!storedData) {
+    return null;
+  }
+  try {
+    return parseStoredPeriod(storedData);
+  } catch (error) {
+    console.error("Error parsing data from localStorage:", error);
+    return null;
+  }
+};
+
+// Stored days from `from` through `to` (inclusive), in date order. Days that
+// were never stored are left out.
+export const loadStoredDays = (
+  from: Date,
+  to: Date,
+  payPeriod: PayPeriodSettings,
+): DayEntry[] => {
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const days: DayEntry[] = [];
+  for (
+    let periodStart = getPeriodStart(from, payPeriod);
+    periodStart <= to;
+    periodStart = getNextPeriodStart(periodStart, payPeriod)
+  ) {
+    (loadStoredPeriod(periodStart) ?? []).forEach((day) => {
+      const dateKey = toDateKey(day.date);
+      if (dateKey >= fromKey && dateKey <= toKey) {
+        days.push(day);
+      }
+    });
+  }
+  return days;
+};
+
+// Stored days of the period's first workweek that fall before the period, so
+// weekly overtime can count a workweek split across two pay periods
+export const loadPrecedingWorkweekDays = (
+  periodStart: Date,
+  payPeriod: PayPeriodSettings,
+): DayEntry[] => {
+  const weekStart = getWeekStart(periodStart, payPeriod.weekStartDay);
+  return weekStart < periodStart
+    ? loadStoredDays(weekStart, addDays(periodStart, -1), payPeriod)
+    : [];
+};
+
+// Hours that the last day of the previous pay period rolled into this one
+export const getPreviousPeriodCarryIn = (
+  periodStart: Date,
+  payPeriod: PayPeriodSettings,
+  settings: HoursSettings,
+): CarryOver => {
+  const previousDay = addDays(periodStart, -1);
+  const lastDay = loadStoredDays(previousDay, previousDay, payPeriod)[0];
+  return lastDay
+    ? calculateDayHours(lastDay, settings).carryOut
+    : NO_CARRY_OVER;
+};
+
+// Store days under the pay periods they belong to, replacing any stored day
+// with the same date
+export const mergeStoredDays = (
+  days: DayEntry[],
+  payPeriod: PayPeriodSettings,
+): void => {
+  const periods = new Map<string, { start: Date; days: DayEntry[] }>();
+  days.forEach((day) => {
+    const start = getPeriodStart(day.date, payPeriod);
+    const key = getLocalStorageKey(start);
+    const period = periods.get(key) ?? {
+      start,
+      days: loadStoredPeriod(start) ?? [],
+    };
+    period.days.push(day);
+    periods.set(key, period);
+  });
+  periods.forEach(({ start, days: periodDays }, key) => {
+    setLocalStorage(
+      key,
+      serializeStoredPeriod(createPeriodDays(start, payPeriod, periodDays)),
+    );
+  });
+};
+
+// Every readable stored period, with its storage key
+const readStoredPeriods = (): { key: string; days: DayEntry[] }[] =>
+  getTimesheetKeys()
+    .filter((key) => key.startsWith(TIMESHEET_PREFIX))
+    .flatMap((key) => {
+      try {
+        return [{ key, days: parseStoredPeriod(getLocalStorage(key) ?? "") }];
+      } catch (error) {
+        console.error(`Skipping unreadable stored data ${key}:`, error);
+        return [];
+      }
+    });
+
+// Every stored day across all pay periods, in date order
+export const loadAllStoredDays = (): DayEntry[] => {
+  const daysByDate = new Map<string, DayEntry>();
+  readStoredPeriods().forEach(({ days }) =>
+    days.forEach((day) => daysByDate.set(toDateKey(day.date), day)),
+  );
+  return Array.from(daysByDate.values()).sort(
+    (a, b) => a.date.getTime() - b.date.getTime(),
+  );
+};
+
+// Re-store every readable day under the pay period it belongs to, after the
+// pay period or week start day changes. Unreadable entries are left alone.
+export const repartitionStoredDays = (payPeriod: PayPeriodSettings): void => {
+  const days = loadAllStoredDays();
+  readStoredPeriods().forEach(({ key }) => removeLocalStorage(key));
+  mergeStoredDays(days, payPeriod);
+};
+
+// Keys used to be the UTC date of the period's local midnight, which is the
+// day before for anyone east of UTC. Regroup stored days when any key isn't
+// the start of a pay period. Returns whether anything was moved.
+export const migrateStoredKeys = (payPeriod: PayPeriodSettings): boolean => {
+  const hasMisplacedKeys = readStoredPeriods().some(({ key }) => {
+    const start = parseDateKey(key.slice(TIMESHEET_PREFIX.length));
+    return (
+      !start || toDateKey(getPeriodStart(start, payPeriod)) !== toDateKey(start)
+    );
+  });
+  if (hasMisplacedKeys) {
+    repartitionStoredDays(payPeriod);
+  }
+  return hasMisplacedKeys;
+};
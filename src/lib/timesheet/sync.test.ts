@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { serializeStoredPeriod } from "./schema";
+import { parseStoredPeriod } from "./storage";
+import { mergePeriods } from "./sync";
+import type { DayEntry } from "./types";
+import { parseDateKey } from "./week";
+
+const createDay = (date: string, startTime: string): DayEntry => ({
+  date: parseDateKey(date)!,
+  entries: [{ startTime, endTime: "17:00", hours: 0 }],
+  totalHours: 0,
+  useDirectHours: false,
+});
+
+const startTimes = (value: string | null) =>
+  parseStoredPeriod(value ?? "").map((day) => day.entries[0]?.startTime);
+
+const base = serializeStoredPeriod([
+  createDay("2025-06-02", "09:00"),
+  createDay("2025-06-03", "09:00"),
+]);
+
+describe("mergePeriods", () => {
+  it("keeps edits to different days from both sides", () => {
+    const local = serializeStoredPeriod([
+      createDay("2025-06-02", "08:00"),
+      createDay("2025-06-03", "09:00"),
+    ]);
+    const server = serializeStoredPeriod([
+      createDay("2025-06-02", "09:00"),
+      createDay("2025-06-03", "10:00"),
+    ]);
+    expect(startTimes(mergePeriods(base, local, server, false))).toEqual([
+      "08:00",
+      "10:00",
+    ]);
+  });
+
+  it("takes the newer side when both edited the same day", () => {
+    const local = serializeStoredPeriod([
+      createDay("2025-06-02", "08:00"),
+      createDay("2025-06-03", "09:00"),
+    ]);
+    const server = serializeStoredPeriod([
+      createDay("2025-06-02", "07:00"),
+      createDay("2025-06-03", "09:00"),
+    ]);
+    expect(startTimes(mergePeriods(base, local, server, true))).toEqual([
+      "08:00",
+      "09:00",
+    ]);
+    expect(startTimes(mergePeriods(base, local, server, false))).toEqual([
+      "07:00",
+      "09:00",
+    ]);
+  });
+
+  it("keeps days added on either side without a common base", () => {
+    const local = serializeStoredPeriod([createDay("2025-06-02", "08:00")]);
+    const server = serializeStoredPeriod([createDay("2025-06-03", "10:00")]);
+    expect(startTimes(mergePeriods(null, local, server, true))).toEqual([
+      "08:00",
+      "10:00",
+    ]);
+  });
+
+  it("gives up on values that aren't pay periods", () => {
+    expect(mergePeriods(base, "not json", base, true)).toBeNull();
+  });
+});
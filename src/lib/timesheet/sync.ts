@@ -0,0 +1,388 @@
+import {
+  parseStoredSetting,
+  saveRecordResponseSchema,
+  serializeDays,
+  serializeStoredPeriod,
+  syncStateSchema,
+  syncedRecordsSchema,
+} from "./schema";
+import {
+  SETTINGS_PREFIX,
+  SYNC_STATE_KEY,
+  TIMESHEET_PREFIX,
+  getDeviceStorage,
+  parseStoredPeriod,
+  type StorageAdapter,
+} from "./storage";
+import type { DayEntry } from "./types";
+import { toDateKey } from "./week";
+
+export const SYNC_API_PATH = "/api/timesheet/records";
+
+// A stored key as the server keeps it. A null value records that the key was
+// removed, so the removal reaches other devices too.
+export interface SyncedRecord {
+  key: string;
+  value: string | null;
+  revision: number;
+  updatedAt: string;
+}
+
+// A save is refused when the server has moved past the revision the client
+// started from, and the server's current record is sent back instead
+export type SaveRecordResult =
+  | { saved: true; record: SyncedRecord }
+  | { saved: false; record: SyncedRecord | null };
+
+// What this browser last received from the server for each key, and which
+// keys were edited here since. The data belongs to the account `userId`.
+export interface SyncState {
+  enabled: boolean;
+  userId: string | null;
+  lastSyncedAt: string | null;
+  records: Record<string, { revision: number; base: string | null }>;
+  pending: Record<string, string>; // Key -> when it was last edited here
+}
+
+export const DEFAULT_SYNC_STATE: SyncState = {
+  enabled: false,
+  userId: null,
+  lastSyncedAt: null,
+  records: {},
+  pending: {},
+};
+
+// Shown next to the sync toggle
+export interface SyncStatus {
+  enabled: boolean;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+// The server answered that nobody is signed in, e.g. after the session ran out
+export class SignedOutError extends Error {
+  constructor() {
+    super("Sign in to sync");
+    this.name = "SignedOutError";
+  }
+}
+
+export const isSyncedKey = (key: string): boolean =>
+  key.startsWith(SETTINGS_PREFIX) && key !== SYNC_STATE_KEY;
+
+// The sync state always lives on the device, whichever adapter is active
+export const loadSyncState = (): SyncState =>
+  parseStoredSetting(
+    getDeviceStorage().getItem(SYNC_STATE_KEY),
+    syncStateSchema,
+  ) ?? DEFAULT_SYNC_STATE;
+
+const updateSyncState = (update: (state: SyncState) => SyncState): void => {
+  getDeviceStorage().setItem(
+    SYNC_STATE_KEY,
+    JSON.stringify(update(loadSyncState())),
+  );
+};
+
+// Works from the device's storage and marks every change for the next sync.
+// `onChange` is called after each change so the caller can schedule one.
+export const createServerStorageAdapter = (
+  onChange: () => void,
+): StorageAdapter => {
+  const device = getDeviceStorage();
+  const markPending = (key: string) => {
+    if (!isSyncedKey(key)) return;
+    updateSyncState((state) => ({
+      ...state,
+      pending: { ...state.pending, [key]: new Date().toISOString() },
+    }));
+    onChange();
+  };
+
+  return {
+    ...device,
+    setItem: (key, value) => {
+      if (device.getItem(key) === value) return;
+      device.setItem(key, value);
+      markPending(key);
+    },
+    removeItem: (key) => {
+      if (device.getItem(key) === null) return;
+      device.removeItem(key);
+      markPending(key);
+    },
+  };
+};
+
+// Remove everything synced from this browser, e.g. when signing out
+export const clearSyncedData = (): void => {
+  const device = getDeviceStorage();
+  device
+    .keys()
+    .filter(isSyncedKey)
+    .forEach((key) => device.removeItem(key));
+  device.removeItem(SYNC_STATE_KEY);
+};
+
+// Turn sync on for an account. Everything stored so far counts as edited
+// here, so the first sync merges it with what other devices have sent. Data
+// another account left in this browser is removed first, so it can't end up
+// in this one.
+export const enableServerSync = (userId: string): void => {
+  const { userId: previousUserId } = loadSyncState();
+  if (previousUserId !== null && previousUserId !== userId) {
+    clearSyncedData();
+  }
+  const editedAt = new Date().toISOString();
+  updateSyncState((state) => ({
+    ...state,
+    enabled: true,
+    userId,
+    pending: {
+      ...Object.fromEntries(
+        getDeviceStorage()
+          .keys()
+          .filter(isSyncedKey)
+          .map((key) => [key, editedAt]),
+      ),
+      ...state.pending,
+    },
+  }));
+};
+
+export const disableServerSync = (): void => {
+  updateSyncState((state) => ({ ...state, enabled: false }));
+};
+
+// Three-way choice against the copy both sides started from: a side that
+// didn't change gives way to one that did, and when both changed the more
+// recent edit wins
+const pickChange = <T>(
+  base: T,
+  local: T,
+  server: T,
+  localIsNewer: boolean,
+): T => {
+  if (local === server || server === base) return local;
+  if (local === base) return server;
+  return localIsNewer ? local : server;
+};
+
+// Days of a stored pay period by date, with their serialized form to compare
+// them by. Null when the value can't be read as a pay period.
+const readPeriodDays = (
+  value: string | null,
+): Map<string, { day: DayEntry; json: string }> | null => {
+  if (value === null) {
+    return new Map();
+  }
+  try {
+    return new Map(
+      parseStoredPeriod(value).map((day) => [
+        toDateKey(day.date),
+        { day, json: JSON.stringify(serializeDays([day])) },
+      ]),
+    );
+  } catch {
+    return null;
+  }
+};
+
+// Pay periods are merged day by day, so edits to different days on two
+// devices are both kept. Totals are recalculated when the period is loaded.
+export const mergePeriods = (
+  base: string | null,
+  local: string,
+  server: string,
+  localIsNewer: boolean,
+): string | null => {
+  const baseDays =
+    readPeriodDays(base) ?? new Map<string, { day: DayEntry; json: string }>();
+  const localDays = readPeriodDays(local);
+  const serverDays = readPeriodDays(server);
+  if (!localDays || !serverDays) {
+    return null;
+  }
+  const dates = new Set([...localDays.keys(), ...serverDays.keys()]);
+  const days = Array.from(dates)
+    .sort()
+    .flatMap((date) => {
+      const localDay = localDays.get(date);
+      const serverDay = serverDays.get(date);
+      const chosen = pickChange(
+        baseDays.get(date)?.json,
+        localDay?.json,
+        serverDay?.json,
+        localIsNewer,
+      );
+      const chosenDay = chosen === localDay?.json ? localDay : serverDay;
+      return chosen !== undefined && chosenDay ? [chosenDay.day] : [];
+    });
+  return serializeStoredPeriod(days);
+};
+
+const mergeValues = (
+  key: string,
+  base: string | null,
+  local: string | null,
+  server: string | null,
+  localIsNewer: boolean,
+): string | null => {
+  const chosen = pickChange(base, local, server, localIsNewer);
+  // Only pay periods that both sides kept and changed are combined
+  if (
+    local === base ||
+    server === base ||
+    local === server ||
+    local === null ||
+    server === null ||
+    !key.startsWith(TIMESHEET_PREFIX)
+  ) {
+    return chosen;
+  }
+  return mergePeriods(base, local, server, localIsNewer) ?? chosen;
+};
+
+const writeLocal = (key: string, value: string | null) => {
+  if (value === null) {
+    getDeviceStorage().removeItem(key);
+  } else {
+    getDeviceStorage().setItem(key, value);
+  }
+};
+
+const fetchRecords = async (): Promise<SyncedRecord[]> => {
+  const response = await fetch(SYNC_API_PATH, { cache: "no-store" });
+  if (response.status === 401) {
+    throw new SignedOutError();
+  }
+  if (!response.ok) {
+    throw new Error(`Loading synced data failed (${response.status})`);
+  }
+  return syncedRecordsSchema.parse(await response.json());
+};
+
+const pushRecord = async (
+  key: string,
+  value: string | null,
+  baseRevision: number,
+): Promise<SaveRecordResult> => {
+  const response = await fetch(`${SYNC_API_PATH}/${encodeURIComponent(key)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ value, baseRevision }),
+  });
+  if (response.status === 401) {
+    throw new SignedOutError();
+  }
+  if (!response.ok && response.status !== 409) {
+    throw new Error(`Saving ${key} failed (${response.status})`);
+  }
+  const { record } = saveRecordResponseSchema.parse(await response.json());
+  return response.ok && record
+    ? { saved: true, record }
+    : { saved: false, record };
+};
+
+// A key is retried this many times when another device keeps saving it
+// between our merge and our save
+const MAX_SAVE_ATTEMPTS = 3;
+
+// Send changes made here and take in changes made elsewhere. Returns the keys
+// whose local value changed, so the caller can reload them. Throws when the
+// server can't be reached; pending changes are kept for the next try.
+export const syncWithServer = async (): Promise<string[]> => {
+  const serverRecords = new Map(
+    (await fetchRecords()).map((record) => [record.key, record]),
+  );
+  const keys = new Set([
+    ...serverRecords.keys(),
+    ...Object.keys(loadSyncState().pending),
+  ]);
+  const changedKeys = new Set<string>();
+
+  for (const key of keys) {
+    if (!isSyncedKey(key)) continue;
+    let server = serverRecords.get(key);
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const state = loadSyncState();
+      const known = state.records[key];
+      const editedAt = state.pending[key];
+      const local = getDeviceStorage().getItem(key);
+      const serverChanged = server?.revision !== known?.revision;
+
+      if (editedAt === undefined) {
+        // Only changed elsewhere, if at all
+        if (server && serverChanged) {
+          if (local !== server.value) {
+            writeLocal(key, server.value);
+            changedKeys.add(key);
+          }
+          const { revision, value } = server;
+          updateSyncState((current) => ({
+            ...current,
+            records: {
+              ...current.records,
+              [key]: { revision, base: value },
+            },
+          }));
+        }
+        break;
+      }
+
+      const value =
+        server && serverChanged
+          ? mergeValues(
+              key,
+              known?.base ?? null,
+              local,
+              server.value,
+              editedAt >= server.updatedAt,
+            )
+          : local;
+      if (value !== local) {
+        writeLocal(key, value);
+        changedKeys.add(key);
+      }
+
+      const result: SaveRecordResult | null = (
+        server ? server.value === value : value === null
+      )
+        ? null
+        : await pushRecord(key, value, server?.revision ?? 0);
+      if (result && !result.saved) {
+        // Saved elsewhere in the meantime, so merge with that and try again
+        server = result.record ?? undefined;
+        continue;
+      }
+
+      const record = result?.record ?? server;
+      updateSyncState((current) => ({
+        ...current,
+        records: record
+          ? {
+              ...current.records,
+              [key]: { revision: record.revision, base: value },
+            }
+          : current.records,
+        // Edits made while the save was on its way still need sending
+        pending:
+          getDeviceStorage().getItem(key) === value
+            ? Object.fromEntries(
+                Object.entries(current.pending).filter(
+                  ([pendingKey]) => pendingKey !== key,
+                ),
+              )
+            : current.pending,
+      }));
+      break;
+    }
+  }
+
+  updateSyncState((state) => ({
+    ...state,
+    lastSyncedAt: new Date().toISOString(),
+  }));
+  return Array.from(changedKeys);
+};
@@ -0,0 +1,97 @@
+import { isEmptyEntry } from "./clock";
+import type { DayBreaks, DayEntry, TimeEntry } from "./types";
+import { createEmptyDays } from "./week";
+
+// The shifts worked on one weekday
+export interface TemplateDay {
+  weekday: number; // 0 = Sunday
+  useDirectHours: boolean;
+  entries: TimeEntry[];
+  breaks?: DayBreaks;
+}
+
+// A named week of shifts, e.g. "Standard M-F 9-5"
+export interface ScheduleTemplate {
+  id: string;
+  name: string;
+  days: TemplateDay[];
+}
+
+// - "merge": only days with nothing entered take the template's shifts
+// - "replace": every day takes the template's shifts, and weekdays the
+//   template doesn't have are cleared
+export type TemplateApplyMode = "merge" | "replace";
+
+export interface TemplateSettings {
+  templates: ScheduleTemplate[];
+  defaultTemplateId: string | null; // Applied to periods with no stored days
+  applyMode: TemplateApplyMode;
+}
+
+export const DEFAULT_TEMPLATE_SETTINGS: TemplateSettings = {
+  templates: [],
+  defaultTemplateId: null,
+  applyMode: "merge",
+};
+
+const isEmptyDay = (day: DayEntry): boolean => day.entries.every(isEmptyEntry);
+
+// The first day of each weekday that has anything entered. In periods
+// longer than a week, later days of the same weekday are ignored.
+export const createTemplateDays = (days: DayEntry[]): TemplateDay[] => {
+  const byWeekday = new Map<number, TemplateDay>();
+  days.forEach((day) => {
+    const weekday = day.date.getDay();
+    if (isEmptyDay(day) || byWeekday.has(weekday)) return;
+    byWeekday.set(weekday, {
+      weekday,
+      useDirectHours: day.useDirectHours,
+      // Copies of an entry get their own calendar id when exported
+      entries: day.entries
+        .filter((entry) => !isEmptyEntry(entry))
+        .map((entry) => ({ ...entry, id: undefined })),
+      breaks: day.breaks,
+    });
+  });
+  return Array.from(byWeekday.values()).sort((a, b) => a.weekday - b.weekday);
+};
+
+export const createTemplate = (
+  name: string,
+  days: DayEntry[],
+): ScheduleTemplate => ({
+  id: crypto.randomUUID(),
+  name,
+  days: createTemplateDays(days),
+});
+
+export const findTemplate = (
+  settings: TemplateSettings,
+  templateId: string | null,
+): ScheduleTemplate | undefined =>
+  settings.templates.find((template) => template.id === templateId);
+
+// Copy the template's shifts onto every matching weekday. Totals are left to
+// recalculateWeek.
+export const applyTemplateDays = (
+  days: DayEntry[],
+  templateDays: TemplateDay[],
+  mode: TemplateApplyMode,
+): DayEntry[] =>
+  days.map((day) => {
+    if (mode === "merge" && !isEmptyDay(day)) {
+      return day;
+    }
+    const templateDay = templateDays.find(
+      ({ weekday }) => weekday === day.date.getDay(),
+    );
+    if (!templateDay) {
+      return mode === "replace" ? createEmptyDays(day.date, day.date)[0]! : day;
+    }
+    return {
+      ...day,
+      useDirectHours: templateDay.useDirectHours,
+      entries: templateDay.entries.map((entry) => ({ ...entry })),
+      breaks: templateDay.breaks,
+    };
+  });
@@ -0,0 +1,63 @@
+export interface TimeEntry {
+  id?: string; // Set when exported to or imported from a calendar, used as the event UID
+  startTime: string;
+  endTime: string;
+  hours?: number; // Optional direct hours input
+  jobId?: string; // Job or client the time is billed to
+  note?: string; // What the time was spent on
+  tags?: string[];
+}
+
+// A job or client with its own pay rate
+export interface Job {
+  id: string;
+  name: string;
+  rate: number;
+  color: string;
+}
+
+// An unpaid break taken inside a shift
+export interface BreakInterval {
+  startTime: string;
+  endTime: string;
+}
+
+export interface DayBreaks {
+  fixedMinutes: number; // Flat unpaid deduction, e.g. a 30 min lunch
+  intervals: BreakInterval[];
+}
+
+// What a day is recorded as. Hours of leave are paid by their type's rule
+// and never count as time worked.
+export type DayType = "worked" | "pto" | "sick" | "holiday" | "unpaid";
+
+export interface DayEntry {
+  date: Date;
+  entries: TimeEntry[];
+  totalHours: number; // Net paid hours
+  unroundedHours?: number; // Net paid hours before rounding, when it's on
+  useDirectHours: boolean; // New flag to toggle between time and direct hours input
+  breaks?: DayBreaks;
+  dayType?: DayType; // Missing means "worked"
+  leaveHours?: number; // Hours of leave taken, on days that aren't "worked"
+  note?: string;
+  tags?: string[];
+  grossHours?: number; // Hours before unpaid breaks are deducted
+  breakHours?: number; // Unpaid break hours deducted from the gross time
+  jobHours?: Record<string, number>; // Net paid hours per job id ("" for untagged)
+  carryInHours?: number; // Hours rolled over from the previous day's overnight shifts
+  carryOutHours?: number; // Hours after midnight credited to the next day
+}
+
+// How hours from a shift that crosses midnight are credited
+// - "start-day": the whole shift counts toward the day it started on
+// - "split": hours after midnight are moved to the following day
+export type OvernightMode = "start-day" | "split";
+
+// Deducts an unpaid meal break from any shift longer than `afterHours`,
+// unless the day already has breaks recorded
+export interface AutoBreakRule {
+  enabled: boolean;
+  afterHours: number;
+  minutes: number;
+}
@@ -0,0 +1,219 @@
+import { MAX_SHIFT_HOURS } from "./clock";
+import { getEntrySpan, parseTimeToMinutes } from "./hours";
+import type { DayEntry, TimeEntry } from "./types";
+import { daysBetween, toDateKey } from "./week";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export type EntryField = "startTime" | "endTime" | "hours";
+
+// Something about an entry that probably makes the day's total wrong. It's
+// shown on the input it concerns, but never stops the entry being saved.
+export interface EntryIssue {
+  entryIndex: number;
+  field: EntryField;
+  message: string;
+}
+
+// Days that have problems, with the problems on each
+export interface DayIssues {
+  date: Date;
+  issues: EntryIssue[];
+}
+
+const isValidTime = (time: string): boolean => {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  return match !== null && Number(match[1]) < 24 && Number(match[2]) < 60;
+};
+
+const formatHours = (minutes: number): string =>
+  String(Math.round((minutes / 60) * 100) / 100);
+
+// Start and end on a two-day timeline, so overnight shifts stay contiguous
+const toRange = (entry: TimeEntry): [number, number] | null => {
+  const start = parseTimeToMinutes(entry.startTime);
+  const end = parseTimeToMinutes(entry.endTime);
+  if (start === null || end === null) {
+    return null;
+  }
+  return [start, end < start ? end + MINUTES_PER_DAY : end];
+};
+
+const validateTimeEntries = (entries: TimeEntry[]): EntryIssue[] => {
+  const issues: EntryIssue[] = [];
+  const ranges: { entryIndex: number; range: [number, number] }[] = [];
+
+  entries.forEach((entry, entryIndex) => {
+    // Blank rows are how a day starts, so they're fine
+    if (!entry.startTime && !entry.endTime) return;
+
+    const problems = (["startTime", "endTime"] as const).flatMap((field) => {
+      const label = field === "startTime" ? "start" : "end";
+      if (!entry[field]) {
+        return [{ entryIndex, field, message: `Missing ${label} time` }];
+      }
+      if (!isValidTime(entry[field])) {
+        return [
+          { entryIndex, field, message: `"${entry[field]}" isn't a time` },
+        ];
+      }
+      return [];
+    });
+    if (problems.length > 0) {
+      issues.push(...problems);
+      return;
+    }
+
+    const span = getEntrySpan(entry);
+    const range = toRange(entry);
+    if (!span || !range) return;
+    const minutes = span.beforeMidnight + span.afterMidnight;
+    if (minutes === 0) {
+      issues.push({
+        entryIndex,
+        field: "endTime",
+        message: "Ends at the same time it starts",
+      });
+      return;
+    }
+    if (minutes > MAX_SHIFT_HOURS * 60) {
+      issues.push({
+        entryIndex,
+        field: "endTime",
+        message: span.overnight
+          ? `Ends before it starts, so it counts as a ${formatHours(minutes)} hour overnight shift`
+          : `A ${formatHours(minutes)} hour shift is longer than ${MAX_SHIFT_HOURS} hours`,
+      });
+    }
+
+    const overlapping = ranges.find(
+      ({ range: other }) =>
+        Math.max(other[0], range[0]) < Math.min(other[1], range[1]),
+    );
+    if (overlapping) {
+      issues.push({
+        entryIndex,
+        field: "startTime",
+        message: `Overlaps entry ${overlapping.entryIndex + 1} on this day`,
+      });
+    }
+    ranges.push({ entryIndex, range });
+  });
+
+  return issues;
+};
+
+const validateDirectHours = (entries: TimeEntry[]): EntryIssue[] => {
+  const issues = entries.flatMap((entry, entryIndex): EntryIssue[] => {
+    const hours = entry.hours ?? 0;
+    const message = isNaN(hours)
+      ? "Hours isn't a number"
+      : hours < 0
+        ? "Hours can't be negative"
+        : hours > 24
+          ? "More than 24 hours in one day"
+          : hours > MAX_SHIFT_HOURS
+            ? `Longer than ${MAX_SHIFT_HOURS} hours`
+            : null;
+    return message ? [{ entryIndex, field: "hours", message }] : [];
+  });
+
+  // Entries that are each fine can still add up to more than a day. The
+  // issue goes on the last entry with hours, the one that goes over.
+  let totalHours = 0;
+  let lastEntryIndex = -1;
+  entries.forEach((entry, entryIndex) => {
+    if (entry.hours && entry.hours > 0) {
+      totalHours += entry.hours;
+      lastEntryIndex = entryIndex;
+    }
+  });
+  if (
+    totalHours > 24 &&
+    !issues.some(({ entryIndex }) => entryIndex === lastEntryIndex)
+  ) {
+    issues.push({
+      entryIndex: lastEntryIndex,
+      field: "hours",
+      message: `Entries add up to ${formatHours(totalHours * 60)} hours, more than 24 in one day`,
+    });
+  }
+  return issues;
+};
+
+// Entries of `day` that overlap the part after midnight of an overnight
+// entry on `previousDay`
+const validateCarryOver = (
+  previousDay: DayEntry | undefined,
+  day: DayEntry,
+): EntryIssue[] => {
+  if (
+    !previousDay ||
+    previousDay.useDirectHours ||
+    day.useDirectHours ||
+    daysBetween(previousDay.date, day.date) !== 1
+  ) {
+    return [];
+  }
+  const spills = previousDay.entries.flatMap((entry, entryIndex) => {
+    const range = toRange(entry);
+    return range && range[1] > MINUTES_PER_DAY
+      ? [{ entryIndex, end: range[1] - MINUTES_PER_DAY }]
+      : [];
+  });
+  return day.entries.flatMap((entry, entryIndex): EntryIssue[] => {
+    const range = toRange(entry);
+    const overlapping =
+      range && spills.find(({ end }) => range[0] < end && range[1] > 0);
+    return overlapping
+      ? [
+          {
+            entryIndex,
+            field: "startTime",
+            message: `Overlaps entry ${overlapping.entryIndex + 1} of the day before, which runs past midnight`,
+          },
+        ]
+      : [];
+  });
+};
+
+// Only the entries of the day's current input mode count, so only those are
+// checked
+export const validateDay = (day: DayEntry): EntryIssue[] =>
+  day.useDirectHours
+    ? validateDirectHours(day.entries)
+    : validateTimeEntries(day.entries);
+
+// The issues of each day, including entries that overlap an overnight shift
+// from the day before
+export const validateDays = (days: DayEntry[]): EntryIssue[][] =>
+  days.map((day, dayIndex) => [
+    ...validateDay(day),
+    ...validateCarryOver(days[dayIndex - 1], day),
+  ]);
+
+export const validatePeriod = (days: DayEntry[]): DayIssues[] => {
+  const dayIssues = validateDays(days);
+  return days.flatMap((day, dayIndex) => {
+    const issues = dayIssues[dayIndex] ?? [];
+    return issues.length > 0 ? [{ date: day.date, issues }] : [];
+  });
+};
+
+export const getFieldIssues = (
+  issues: EntryIssue[],
+  entryIndex: number,
+  field: EntryField,
+): EntryIssue[] =>
+  issues.filter(
+    (issue) => issue.entryIndex === entryIndex && issue.field === field,
+  );
+
+// One line per problem, for exports
+export const describePeriodIssues = (days: DayEntry[]): string[] =>
+  validatePeriod(days).flatMap(({ date, issues }) =>
+    issues.map(
+      (issue) =>
+        `${toDateKey(date)} entry ${issue.entryIndex + 1}: ${issue.message}`,
+    ),
+  );
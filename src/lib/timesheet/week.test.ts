@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { parseDateKey, toDateKey } from "./week";
+
+describe("parseDateKey", () => {
+  it("reads a key as local midnight", () => {
+    expect(parseDateKey("2025-03-09")).toEqual(new Date(2025, 2, 9));
+    expect(toDateKey(parseDateKey(" 2024-02-29 ")!)).toBe("2024-02-29");
+  });
+
+  it("rejects days that would roll into the next month", () => {
+    expect(parseDateKey("2025-02-29")).toBeNull();
+    expect(parseDateKey("2025-04-31")).toBeNull();
+    expect(parseDateKey("2025-13-01")).toBeNull();
+  });
+
+  it("rejects anything but YYYY-MM-DD", () => {
+    expect(parseDateKey("03/09/2025")).toBeNull();
+    expect(parseDateKey("2025-3-9")).toBeNull();
+  });
+});
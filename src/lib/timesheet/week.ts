@@ -0,0 +1,66 @@
+import { formatDate, type LocaleSettings } from "./format";
+import type { DayEntry } from "./types";
+
+// Helper to add calendar days, staying on local midnight across DST changes
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Whole calendar days from `from` to `to`
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+
+// Helper to get the first day of the week containing a date, where
+// `weekStartDay` is 0 for Sunday through 6 for Saturday
+export const getWeekStart = (d: Date, weekStartDay: number): Date => {
+  const date = new Date(d);
+  date.setHours(0, 0, 0, 0); // Normalize to the start of the day
+  return addDays(date, -((date.getDay() - weekStartDay + 7) % 7));
+};
+
+// Helper to format a date range for display
+export const getDateRangeDisplay = (
+  start: Date,
+  end: Date,
+  localeSettings: LocaleSettings,
+): string =>
+  // Year only once for brevity
+  `${formatDate(start, localeSettings, false)} - ${formatDate(end, localeSettings)}`;
+
+// Helper to create empty days from `start` through `end` (inclusive)
+export const createEmptyDays = (start: Date, end: Date): DayEntry[] =>
+  Array.from({ length: daysBetween(start, end) + 1 }, (_, i) => ({
+    date: addDays(start, i),
+    entries: [{ startTime: "", endTime: "", hours: 0 }],
+    totalHours: 0,
+    useDirectHours: false,
+  }));
+
+// Helper to format a date as YYYY-MM-DD in local time
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Helper to get the local calendar day nearest to a moment. Older data stored
+// days as the timestamp of local midnight, which may have been written in
+// another time zone or on the other side of a DST change.
+export const toNearestLocalDay = (date: Date): Date => {
+  const shifted = new Date(date.getTime() + 12 * 60 * 60 * 1000);
+  return new Date(shifted.getFullYear(), shifted.getMonth(), shifted.getDate());
+};
+
+// Helper to read a YYYY-MM-DD string as a local date
+export const parseDateKey = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+  );
+  // Days past the end of the month would roll over into the next one
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+};
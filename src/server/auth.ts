@@ -0,0 +1,184 @@
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type BinaryLike,
+} from "crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { env } from "@/env";
+import { credentialsSchema, type Account, type Credentials } from "@/lib/auth";
+import { getClientAddress, takeAttempt, type RateLimit } from "./rate-limit";
+import { findUserById } from "./timesheet-db";
+
+export const SESSION_COOKIE = "timesheet-session";
+const SESSION_DAYS = 30;
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: BinaryLike): Promise<Buffer> =>
+  new Promise((resolve, reject) =>
+    scrypt(password, salt, KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key),
+    ),
+  );
+
+// Stored as "scrypt:<salt>:<key>" in base64
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt:${salt.toString("base64")}:${key.toString("base64")}`;
+};
+
+export const verifyPassword = async (
+  password: string,
+  passwordHash: string,
+): Promise<boolean> => {
+  const [scheme, salt, expected] = passwordHash.split(":");
+  if (scheme !== "scrypt" || !salt || !expected) {
+    return false;
+  }
+  const key = await deriveKey(password, Buffer.from(salt, "base64"));
+  const expectedKey = Buffer.from(expected, "base64");
+  return expectedKey.length === key.length && timingSafeEqual(key, expectedKey);
+};
+
+let dummyPasswordHash: Promise<string> | undefined;
+
+// Checks a password against a made-up hash, so signing in to an email
+// without an account takes as long as getting the password wrong
+export const verifyUnknownUser = async (password: string): Promise<false> => {
+  dummyPasswordHash ??= hashPassword(randomBytes(16).toString("base64"));
+  await verifyPassword(password, await dummyPasswordHash);
+  return false;
+};
+
+const SIGN_IN_LIMIT: RateLimit = { attempts: 10, windowMs: 15 * 60 * 1000 };
+const SIGN_UP_LIMIT: RateLimit = { attempts: 5, windowMs: 60 * 60 * 1000 };
+
+// A 429 response when the address, or the email being signed in to or signed
+// up with, has used up its attempts. Limits per email slow down attempts
+// spread over many addresses, and are all there is without a trusted proxy.
+export const limitAuthAttempts = (
+  request: Request,
+  mode: "sign-in" | "sign-up",
+  email: string,
+): NextResponse | null => {
+  const limit = mode === "sign-in" ? SIGN_IN_LIMIT : SIGN_UP_LIMIT;
+  const address = getClientAddress(request, env.TRUSTED_PROXIES);
+  const waits = [
+    address ? takeAttempt(`${mode}:address:${address}`, limit) : null,
+    takeAttempt(`${mode}:email:${email}`, limit),
+  ].filter((wait) => wait !== null);
+  if (waits.length === 0) {
+    return null;
+  }
+  const retryAfter = Math.max(...waits);
+  return NextResponse.json(
+    {
+      error: `Too many attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } },
+  );
+};
+
+// Accounts need a secret to sign sessions with. Without one the app only
+// keeps timesheets in the browser.
+export const accountsEnabled = (): boolean => env.SESSION_SECRET !== undefined;
+
+// What the account routes answer when accounts are turned off
+export const accountsDisabledResponse = (): NextResponse =>
+  NextResponse.json(
+    { error: "Accounts aren't set up on this server" },
+    { status: 404 },
+  );
+
+const sign = (payload: string): string => {
+  if (env.SESSION_SECRET === undefined) {
+    throw new Error("SESSION_SECRET must be set to sign sessions");
+  }
+  return createHmac("sha256", env.SESSION_SECRET)
+    .update(payload)
+    .digest("base64url");
+};
+
+// A session is the user id and expiry, signed with SESSION_SECRET so it can't
+// be forged or extended. Changing the secret signs everyone out.
+const createSessionToken = (userId: string, expiresAt: Date): string => {
+  const payload = Buffer.from(
+    JSON.stringify({ userId, expiresAt: expiresAt.toISOString() }),
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+};
+
+const readSessionToken = (token: string): string | null => {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  try {
+    const session = JSON.parse(
+      Buffer.from(payload, "base64url").toString(),
+    ) as { userId?: unknown; expiresAt?: unknown };
+    return typeof session.userId === "string" &&
+      typeof session.expiresAt === "string" &&
+      Date.parse(session.expiresAt) > Date.now()
+      ? session.userId
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// The account of the request being handled, or null when signed out. The
+// session cookie isn't read when accounts are off, so pages can stay static.
+export const getCurrentAccount = async (): Promise<Account | null> => {
+  if (!accountsEnabled()) {
+    return null;
+  }
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const userId = token ? readSessionToken(token) : null;
+  return userId ? findUserById(userId) : null;
+};
+
+export const setSessionCookie = (
+  response: NextResponse,
+  account: Account,
+): void => {
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  response.cookies.set(
+    SESSION_COOKIE,
+    createSessionToken(account.id, expiresAt),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: env.NODE_ENV === "production",
+      path: "/",
+      expires: expiresAt,
+    },
+  );
+};
+
+export const clearSessionCookie = (response: NextResponse): void => {
+  response.cookies.delete(SESSION_COOKIE);
+};
+
+// The email and password posted to sign up or sign in, or what's wrong with
+// them
+export const readCredentials = async (
+  request: Request,
+): Promise<{ credentials: Credentials } | { error: string }> => {
+  const result = credentialsSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  return result.success
+    ? { credentials: result.data }
+    : {
+        error: result.error.issues[0]?.message ?? "Enter an email and password",
+      };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { getClientAddress, takeAttempt } from "./rate-limit";
+
+const MINUTE = 60 * 1000;
+const SHORT = { attempts: 2, windowMs: 15 * MINUTE };
+const LONG = { attempts: 1, windowMs: 60 * MINUTE };
+
+describe("takeAttempt", () => {
+  it("refuses attempts past the limit until the window ends", () => {
+    expect(takeAttempt("short", SHORT, 0)).toBeNull();
+    expect(takeAttempt("short", SHORT, MINUTE)).toBeNull();
+    expect(takeAttempt("short", SHORT, 2 * MINUTE)).toBe(13 * 60);
+    expect(takeAttempt("short", SHORT, 15 * MINUTE)).toBeNull();
+  });
+
+  it("keeps longer windows when a shorter limit clears old ones", () => {
+    expect(takeAttempt("long", LONG, 0)).toBeNull();
+    expect(takeAttempt("other", SHORT, 17 * MINUTE)).toBeNull();
+    expect(takeAttempt("long", LONG, 17 * MINUTE)).toBe(43 * 60);
+  });
+});
+
+describe("getClientAddress", () => {
+  const request = (forwardedFor: string) =>
+    new Request("http://localhost/api/auth/sign-in", {
+      headers: { "x-forwarded-for": forwardedFor },
+    });
+
+  it("ignores forwarded addresses without a trusted proxy", () => {
+    expect(getClientAddress(request("203.0.113.7"), 0)).toBeNull();
+  });
+
+  it("takes the address the nearest trusted proxy added", () => {
+    const forged = request("198.51.100.1, 203.0.113.7");
+    expect(getClientAddress(forged, 1)).toBe("203.0.113.7");
+    expect(getClientAddress(forged, 2)).toBe("198.51.100.1");
+    expect(getClientAddress(forged, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+// Attempts per key in fixed windows, kept in memory. A restart or a second
+// server process starts counting again, which is enough to slow down
+// password guessing against one server.
+interface Window {
+  startedAt: number;
+  windowMs: number; // Limits differ in length, so each window keeps its own
+  attempts: number;
+}
+
+// Kept on globalThis so hot reloads in development keep counting
+const globalForLimits = globalThis as unknown as {
+  rateLimitWindows: Map<string, Window> | undefined;
+};
+
+const getWindows = (): Map<string, Window> => {
+  globalForLimits.rateLimitWindows ??= new Map();
+  return globalForLimits.rateLimitWindows;
+};
+
+export interface RateLimit {
+  attempts: number;
+  windowMs: number;
+}
+
+// Counts an attempt for `key`. Returns how many seconds to wait when the
+// limit is used up, or null when the attempt is allowed.
+export const takeAttempt = (
+  key: string,
+  { attempts, windowMs }: RateLimit,
+  now = Date.now(),
+): number | null => {
+  const windows = getWindows();
+  // Drop finished windows so the map doesn't grow with every address
+  windows.forEach((window, windowKey) => {
+    if (now - window.startedAt >= window.windowMs) {
+      windows.delete(windowKey);
+    }
+  });
+  const window = windows.get(key) ?? { startedAt: now, windowMs, attempts: 0 };
+  if (window.attempts >= attempts) {
+    return Math.ceil((window.startedAt + window.windowMs - now) / 1000);
+  }
+  windows.set(key, { ...window, attempts: window.attempts + 1 });
+  return null;
+};
+
+// The address the request came from, as told by the nearest of
+// `trustedProxies` proxies in front of the app. Each proxy adds the address
+// it was reached from to the end of X-Forwarded-For, so anything before that
+// came from the client and can't be trusted. Route handlers aren't given the
+// connection's own address, so without a proxy it's unknown (null).
+export const getClientAddress = (
+  request: Request,
+  trustedProxies: number,
+): string | null => {
+  if (trustedProxies < 1) {
+    return null;
+  }
+  const addresses = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return addresses.at(-trustedProxies) ?? null;
+};
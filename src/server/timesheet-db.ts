@@ -0,0 +1,156 @@
+import { randomUUID } from "crypto";
+import Database from "better-sqlite3";
+import { env } from "@/env";
+import type { Account } from "@/lib/auth";
+import type { SaveRecordResult, SyncedRecord } from "@/lib/timesheet/sync";
+
+interface RecordRow {
+  key: string;
+  value: string | null;
+  revision: number;
+  updated_at: string;
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+}
+
+// Kept on globalThis so hot reloads in development reuse the open file
+const globalForDb = globalThis as unknown as {
+  timesheetDb: Database.Database | undefined;
+};
+
+// Schema changes in order. The database's user_version is the number of
+// migrations it has run.
+const MIGRATIONS = [
+  // v1: synced records, before there were accounts
+  `CREATE TABLE IF NOT EXISTS timesheet_records (
+    key TEXT PRIMARY KEY,
+    value TEXT,
+    revision INTEGER NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  // v2: accounts, with every record owned by one. Records synced before
+  // accounts existed stay in unowned_records until an admin hands them to an
+  // account with `npm run db:claim-unowned`.
+  `CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  ALTER TABLE timesheet_records RENAME TO unowned_records;
+  CREATE TABLE timesheet_records (
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    value TEXT,
+    revision INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, key)
+  )`,
+];
+
+const openDatabase = (): Database.Database => {
+  const db = new Database(env.TIMESHEET_DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  const version = db.pragma("user_version", { simple: true }) as number;
+  db.transaction(() => {
+    MIGRATIONS.slice(version).forEach((migration) => db.exec(migration));
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+  return db;
+};
+
+// Opened on first use, so building the app doesn't create the file
+const getDatabase = (): Database.Database => {
+  globalForDb.timesheetDb ??= openDatabase();
+  return globalForDb.timesheetDb;
+};
+
+const SELECT_RECORDS =
+  "SELECT key, value, revision, updated_at FROM timesheet_records";
+
+const toRecord = (row: RecordRow): SyncedRecord => ({
+  key: row.key,
+  value: row.value,
+  revision: row.revision,
+  updatedAt: row.updated_at,
+});
+
+const SELECT_USER_RECORD = `${SELECT_RECORDS} WHERE user_id = ? AND key = ?`;
+
+export const listRecords = (userId: string): SyncedRecord[] =>
+  getDatabase()
+    .prepare<[string], RecordRow>(`${SELECT_RECORDS} WHERE user_id = ?`)
+    .all(userId)
+    .map(toRecord);
+
+// Saves only when the client edited the revision that's stored, so a save
+// made from an outdated copy is refused instead of overwriting another
+// device's changes. A key that was never saved is revision 0.
+export const saveRecord = (
+  userId: string,
+  key: string,
+  value: string | null,
+  baseRevision: number,
+): SaveRecordResult => {
+  const db = getDatabase();
+  return db.transaction((): SaveRecordResult => {
+    const current = db
+      .prepare<[string, string], RecordRow>(SELECT_USER_RECORD)
+      .get(userId, key);
+    if ((current?.revision ?? 0) !== baseRevision) {
+      return { saved: false, record: current ? toRecord(current) : null };
+    }
+    const record: SyncedRecord = {
+      key,
+      value,
+      revision: baseRevision + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    db.prepare(
+      `INSERT INTO timesheet_records (user_id, key, value, revision, updated_at)
+       VALUES (@userId, @key, @value, @revision, @updatedAt)
+       ON CONFLICT (user_id, key) DO UPDATE SET
+         value = excluded.value,
+         revision = excluded.revision,
+         updated_at = excluded.updated_at`,
+    ).run({ userId, ...record });
+    return { saved: true, record };
+  })();
+};
+
+const SELECT_USERS = "SELECT id, email, password_hash FROM users";
+
+export const findUserByEmail = (email: string): UserRow | null =>
+  getDatabase()
+    .prepare<[string], UserRow>(`${SELECT_USERS} WHERE email = ?`)
+    .get(email) ?? null;
+
+export const findUserById = (id: string): Account | null => {
+  const row = getDatabase()
+    .prepare<[string], UserRow>(`${SELECT_USERS} WHERE id = ?`)
+    .get(id);
+  return row ? { id: row.id, email: row.email } : null;
+};
+
+// Null when the email already has an account
+export const createUser = (
+  email: string,
+  passwordHash: string,
+): Account | null => {
+  const db = getDatabase();
+  return db.transaction((): Account | null => {
+    if (findUserByEmail(email)) {
+      return null;
+    }
+    const account: Account = { id: randomUUID(), email };
+    db.prepare(
+      "INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)",
+    ).run(account.id, email, passwordHash, new Date().toISOString());
+    return account;
+  })();
+};
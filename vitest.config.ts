@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    // Shift lengths are checked across this zone's DST changes
+    env: { TZ: "America/New_York" },
+  },
+});